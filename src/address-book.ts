@@ -0,0 +1,153 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Address } from '@ton/core';
+import { parseNetworkAddress, type TonNetwork } from './network.js';
+import { withFileLock } from './storage.js';
+
+/**
+ * Local address book: labels that tools accept in place of an address
+ * (`"@treasury"`). Kept in a JSON file shared by all server processes;
+ * lookups are served from memory so they can run during input validation.
+ */
+
+export const ADDRESS_TYPES = ['wallet', 'jetton_master', 'nft', 'contract'] as const;
+export type AddressType = (typeof ADDRESS_TYPES)[number];
+
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/;
+
+export interface AddressBookEntry {
+  label: string;
+  /** Address as saved, keeping the flags of a user-friendly form */
+  address: string;
+  /** Network the address belongs to; unset means any */
+  network?: TonNetwork;
+  type?: AddressType;
+  note?: string;
+  updatedAt: string;
+}
+
+interface AddressBookFile {
+  version: 1;
+  entries: AddressBookEntry[];
+}
+
+/**
+ * Lowercase label without the leading "@"
+ */
+export function normalizeLabel(label: string): string {
+  const normalized = label.trim().replace(/^@/, '').toLowerCase();
+  if (!LABEL_PATTERN.test(normalized)) {
+    throw new Error(`Invalid label: "${label}". Use 1-64 letters, digits, ".", "_" or "-".`);
+  }
+  return normalized;
+}
+
+export function isAddressLabel(value: string): boolean {
+  return value.trim().startsWith('@');
+}
+
+export interface AddressBookOptions {
+  /** Refuse save and remove, e.g. when tools are served to HTTP clients */
+  readOnly?: boolean;
+}
+
+export class AddressBook {
+  private entries: Map<string, AddressBookEntry> = new Map();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: AddressBookOptions = {}
+  ) {}
+
+  get readOnly(): boolean {
+    return this.options.readOnly ?? false;
+  }
+
+  /**
+   * Read the file into memory. A missing file is an empty book.
+   */
+  async load(): Promise<void> {
+    this.entries = new Map((await this.read()).map((entry) => [entry.label, entry]));
+  }
+
+  get(label: string): AddressBookEntry | undefined {
+    return this.entries.get(normalizeLabel(label));
+  }
+
+  list(): AddressBookEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  /**
+   * Labels whose address equals the given one, in any format
+   */
+  labelsFor(address: Address): string[] {
+    return this.list()
+      .filter((entry) => Address.parse(entry.address).equals(address))
+      .map((entry) => entry.label);
+  }
+
+  /**
+   * Add or replace an entry. The address is validated against the entry's network.
+   */
+  async save(entry: Omit<AddressBookEntry, 'updatedAt'>, defaultNetwork: TonNetwork): Promise<AddressBookEntry> {
+    const label = normalizeLabel(entry.label);
+    const address = entry.address.trim();
+    parseNetworkAddress(address, entry.network ?? defaultNetwork, 'address');
+
+    const saved: AddressBookEntry = { ...entry, label, address, updatedAt: new Date().toISOString() };
+    await this.update((entries) => [...entries.filter((existing) => existing.label !== label), saved]);
+    return saved;
+  }
+
+  /**
+   * Remove an entry. Returns false when the label did not exist.
+   */
+  async remove(label: string): Promise<boolean> {
+    const normalized = normalizeLabel(label);
+    let removed = false;
+    await this.update((entries) => {
+      removed = entries.some((entry) => entry.label === normalized);
+      return entries.filter((entry) => entry.label !== normalized);
+    });
+    return removed;
+  }
+
+  /**
+   * Read-modify-write under the lockfile, so entries saved by other processes are kept
+   */
+  private async update(mutate: (entries: AddressBookEntry[]) => AddressBookEntry[]): Promise<void> {
+    if (this.readOnly) {
+      throw new Error(`The address book is read-only for this server. Edit ${this.filePath} or use a stdio server to change it.`);
+    }
+
+    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await withFileLock(`${this.filePath}.lock`, async () => {
+      const entries = mutate(await this.read());
+      const file: AddressBookFile = { version: 1, entries };
+      const tmpPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(tmpPath, this.filePath);
+      this.entries = new Map(entries.map((entry) => [entry.label, entry]));
+    });
+  }
+
+  private async read(): Promise<AddressBookEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as AddressBookFile;
+    if (file.version !== 1 || !Array.isArray(file.entries)) {
+      throw new Error(`Unsupported address book file: ${this.filePath}`);
+    }
+    return file.entries;
+  }
+}
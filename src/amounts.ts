@@ -0,0 +1,83 @@
+/**
+ * Amount parsing and formatting. Amounts are accepted either as raw smallest
+ * units ("1500000000") or as a decimal with a unit ("1.5 TON", "25 USDT").
+ * Parsing is strict: extra precision is rejected, never truncated.
+ */
+
+export const TON_DECIMALS = 9;
+
+export interface AmountUnit {
+  symbol: string;
+  decimals: number;
+}
+
+export const TON_UNIT: AmountUnit = { symbol: 'TON', decimals: TON_DECIMALS };
+
+/**
+ * Raw and human-readable form of an amount, echoed back in tool responses
+ */
+export interface AmountDetails {
+  raw: string;
+  formatted: string;
+}
+
+const RAW_AMOUNT_PATTERN = /^\d+$/;
+const UNIT_AMOUNT_PATTERN = /^(\d+(?:\.\d+)?)\s*([^\d\s.]\S*)$/;
+
+/**
+ * Convert a decimal string into smallest units, rejecting anything that
+ * would lose precision
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Amount "${value}" has more than ${decimals} decimal places`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+export function formatUnits(raw: bigint, decimals: number): string {
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Parse "1500000000" (raw units) or "1.5 TON" / "25 USDT" (decimal with unit)
+ */
+export function parseAmount(input: string, unit: AmountUnit): bigint {
+  const value = input.trim();
+  if (RAW_AMOUNT_PATTERN.test(value)) {
+    return BigInt(value);
+  }
+
+  const match = UNIT_AMOUNT_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid amount: "${input}". Use smallest units (e.g., "1500000000") or a decimal with unit (e.g., "1.5 ${unit.symbol}").`);
+  }
+
+  const [, decimal, symbol] = match;
+  if (symbol.toUpperCase() !== unit.symbol.toUpperCase()) {
+    throw new Error(`Invalid amount: "${input}". Expected unit ${unit.symbol}, got ${symbol}.`);
+  }
+  return parseUnits(decimal, unit.decimals);
+}
+
+export function parseTonAmount(input: string): bigint {
+  return parseAmount(input, TON_UNIT);
+}
+
+export function formatAmount(raw: bigint, unit: AmountUnit): string {
+  return `${formatUnits(raw, unit.decimals)} ${unit.symbol}`;
+}
+
+export function describeAmount(raw: bigint, unit: AmountUnit): AmountDetails {
+  return { raw: raw.toString(), formatted: formatAmount(raw, unit) };
+}
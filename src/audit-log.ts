@@ -0,0 +1,310 @@
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, open, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Address } from '@ton/core';
+import { withFileLock } from './storage.js';
+
+/**
+ * Append-only, hash-chained record of everything the server asked wallets to do.
+ * Each entry stores the hash of the previous one, so editing or removing a line
+ * breaks the chain from that point on.
+ */
+
+export const AUDIT_EVENTS = ['connect', 'disconnect', 'transaction', 'policy', 'sign_data'] as const;
+export type AuditEvent = (typeof AUDIT_EVENTS)[number];
+
+export const AUDIT_OUTCOMES = ['requested', 'connected', 'disconnected', 'approved', 'rejected', 'allowed', 'denied', 'error'] as const;
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+const GENESIS_HASH = '0'.repeat(64);
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * What a caller records; sequence, timestamp and hashes are added by the log
+ */
+export interface AuditRecord {
+  event: AuditEvent;
+  outcome: AuditOutcome;
+  session: string;
+  /** Connected wallet address, when known */
+  wallet?: string | null;
+  /** Other addresses involved (recipients), searchable with the address filter */
+  addresses?: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  event: AuditEvent;
+  outcome: AuditOutcome;
+  session: string;
+  wallet: string | null;
+  addresses: string[];
+  details: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  /** Matches the wallet or any involved address, in any format */
+  address?: string;
+  event?: AuditEvent;
+  outcome?: AuditOutcome;
+  session?: string;
+  /** Most recent entries only */
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Sequence number of the first entry that breaks the chain */
+  brokenAt?: number;
+}
+
+function toRawAddress(address: string): string | null {
+  try {
+    return Address.parse(address).toRawString();
+  } catch (error) {
+    return null;
+  }
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const content = {
+    seq: entry.seq,
+    timestamp: entry.timestamp,
+    event: entry.event,
+    outcome: entry.outcome,
+    session: entry.session,
+    wallet: entry.wallet,
+    addresses: entry.addresses,
+    details: entry.details,
+    prevHash: entry.prevHash,
+  };
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Last non-empty line of a file, read from the end so large logs stay cheap to append to
+ */
+async function readLastLine(path: string): Promise<string | null> {
+  let handle;
+  try {
+    handle = await open(path, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    let chunkSize = TAIL_CHUNK_BYTES;
+    while (true) {
+      const start = Math.max(0, size - chunkSize);
+      const buffer = Buffer.alloc(size - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      const lines = buffer.toString('utf-8').split('\n').filter((line) => line.trim());
+      // The first line of a partial chunk may be cut off
+      if (lines.length > 1 || start === 0) {
+        return lines.at(-1) ?? null;
+      }
+      chunkSize *= 2;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+export class AuditLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditLogError';
+  }
+}
+
+/**
+ * Audit log kept in a JSONL file, or in memory for the lifetime of the process
+ * when no file is configured
+ */
+export class AuditLog {
+  private readonly memory: AuditEntry[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private parent?: { log: AuditLog; scope: string };
+
+  constructor(private readonly filePath?: string) {}
+
+  /**
+   * View of the log for one client. Its sessions are recorded as
+   * `<scope>:<session>` and its queries only see its own entries;
+   * the hash chain stays shared.
+   */
+  scoped(scope: string): AuditLog {
+    const view = new AuditLog(this.filePath);
+    view.parent = { log: this, scope };
+    return view;
+  }
+
+  /**
+   * Append an entry. Appends are serialized in-process and locked across processes.
+   */
+  append(record: AuditRecord): Promise<AuditEntry> {
+    if (this.parent) {
+      return this.parent.log.append({ ...record, session: `${this.parent.scope}:${record.session}` });
+    }
+
+    const result = this.queue.then(() => (this.filePath ? this.appendToFile(this.filePath, record) : this.appendToMemory(record)));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Record the outcome of an operation that already happened, without failing it. Errors go to stderr.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this.append(record);
+    } catch (error) {
+      console.error(`[Audit] Failed to write audit entry: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record a request before it reaches the wallet. Fails closed: when the entry
+   * cannot be written, AuditLogError is thrown and the request must not be sent.
+   */
+  async recordStrict(record: AuditRecord): Promise<void> {
+    try {
+      await this.append(record);
+    } catch (error) {
+      throw new AuditLogError(`Audit log could not be written, so the request was not sent to the wallet: ${(error as Error).message}`);
+    }
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (this.parent) {
+      const { scope, log } = this.parent;
+      const entries = (await log.query({ ...query, session: query.session && `${scope}:${query.session}`, limit: undefined }))
+        .filter((entry) => entry.session.startsWith(`${scope}:`));
+      return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+    }
+
+    const address = query.address ? toRawAddress(query.address) ?? query.address : undefined;
+
+    const entries = (await this.readAll()).filter((entry) => {
+      const time = Date.parse(entry.timestamp);
+      return (
+        (!query.from || time >= query.from.getTime()) &&
+        (!query.to || time <= query.to.getTime()) &&
+        (!query.event || entry.event === query.event) &&
+        (!query.outcome || entry.outcome === query.outcome) &&
+        (!query.session || entry.session === query.session) &&
+        (!address || entry.wallet === address || entry.addresses.includes(address))
+      );
+    });
+
+    return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  /**
+   * Recompute every hash and check the chain links
+   */
+  async verify(): Promise<AuditVerification> {
+    if (this.parent) {
+      return await this.parent.log.verify();
+    }
+
+    const entries = await this.readAll();
+    let prevHash = GENESIS_HASH;
+    for (const entry of entries) {
+      if (entry.prevHash !== prevHash || hashEntry(entry) !== entry.hash) {
+        return { valid: false, entries: entries.length, brokenAt: entry.seq };
+      }
+      prevHash = entry.hash;
+    }
+    return { valid: true, entries: entries.length };
+  }
+
+  private createEntry(record: AuditRecord, previous: AuditEntry | null): AuditEntry {
+    const wallet = record.wallet ? toRawAddress(record.wallet) ?? record.wallet : null;
+    const addresses = [...new Set((record.addresses ?? []).map((address) => toRawAddress(address) ?? address))];
+    const entry: Omit<AuditEntry, 'hash'> = {
+      seq: previous ? previous.seq + 1 : 1,
+      timestamp: new Date().toISOString(),
+      event: record.event,
+      outcome: record.outcome,
+      session: record.session,
+      wallet,
+      addresses,
+      details: record.details ?? {},
+      prevHash: previous?.hash ?? GENESIS_HASH,
+    };
+    return { ...entry, hash: hashEntry(entry) };
+  }
+
+  private async appendToMemory(record: AuditRecord): Promise<AuditEntry> {
+    const entry = this.createEntry(record, this.memory.at(-1) ?? null);
+    this.memory.push(entry);
+    return entry;
+  }
+
+  private async appendToFile(path: string, record: AuditRecord): Promise<AuditEntry> {
+    await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+    return await withFileLock(`${path}.lock`, async () => {
+      const last = await readLastLine(path);
+      const entry = this.createEntry(record, last ? (JSON.parse(last) as AuditEntry) : null);
+      await appendFile(path, JSON.stringify(entry) + '\n', { mode: 0o600 });
+      return entry;
+    });
+  }
+
+  private async readAll(): Promise<AuditEntry[]> {
+    if (!this.filePath) {
+      return [...this.memory];
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return raw
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AuditEntry);
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export entries as CSV. Addresses are joined with spaces, details kept as JSON.
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const header = ['seq', 'timestamp', 'event', 'outcome', 'session', 'wallet', 'addresses', 'details', 'prevHash', 'hash'];
+  const rows = entries.map((entry) => [
+    entry.seq,
+    entry.timestamp,
+    entry.event,
+    entry.outcome,
+    entry.session,
+    entry.wallet,
+    entry.addresses.join(' '),
+    entry.details,
+    entry.prevHash,
+    entry.hash,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,116 @@
+import { Address } from '@ton/core';
+import type { AccountStatus, ChainProvider } from './chain-provider.js';
+import { describeAmount, formatAmount, TON_UNIT, type AmountDetails } from './amounts.js';
+import { getJettonMetadata } from './jetton-metadata.js';
+import { detectWalletVersionByCodeHash, type WalletVersionName } from './wallet-versions.js';
+
+/**
+ * Account balances and state, read through the chain provider
+ */
+
+/** Jetton wallets read per account; the API pages beyond this */
+const MAX_JETTON_WALLETS = 100;
+
+export interface JettonBalance {
+  master: string;
+  wallet: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  /** Formatted only when the jetton metadata could be read */
+  balance: { raw: string; formatted: string | null };
+  metadataError?: string;
+}
+
+export interface AccountBalances {
+  address: string;
+  status: AccountStatus;
+  ton: AmountDetails;
+  jettons: JettonBalance[];
+  /** More jetton wallets exist than were read */
+  jettonsTruncated: boolean;
+}
+
+export interface AccountStateInfo {
+  address: string;
+  status: AccountStatus;
+  balance: AmountDetails;
+  lastTransactionLt: string | null;
+  lastTransactionHash: string | null;
+  codeHash: string | null;
+  /** Standard wallet contract version, null for other contracts */
+  walletVersion: WalletVersionName | null;
+  frozenHash: string | null;
+}
+
+interface AddressOptions {
+  testOnly?: boolean;
+}
+
+/**
+ * TON balance and every jetton balance of an account, with symbols and decimals
+ * from the jetton metadata. Zero jetton balances are left out unless asked for.
+ */
+export async function getAccountBalances(
+  provider: ChainProvider,
+  owner: Address,
+  options: { includeZero?: boolean; addressOptions?: AddressOptions } = {}
+): Promise<AccountBalances> {
+  const addressOptions = options.addressOptions ?? {};
+  const state = await provider.getAccountState(owner.toString());
+  const wallets = await provider.getJettonWallets(owner.toRawString(), { limit: MAX_JETTON_WALLETS });
+
+  const jettons: JettonBalance[] = [];
+  // Sequential on purpose: metadata lookups are get-method calls and public APIs are rate limited
+  for (const wallet of wallets) {
+    const raw = BigInt(wallet.balance);
+    if (raw === 0n && !options.includeZero) {
+      continue;
+    }
+
+    const master = Address.parse(wallet.jetton);
+    const balance: JettonBalance = {
+      master: master.toString(addressOptions),
+      wallet: Address.parse(wallet.address).toString(addressOptions),
+      name: null,
+      symbol: null,
+      decimals: null,
+      balance: { raw: raw.toString(), formatted: null },
+    };
+    try {
+      const metadata = await getJettonMetadata(provider, master);
+      balance.name = metadata.name;
+      balance.symbol = metadata.symbol;
+      balance.decimals = metadata.decimals;
+      balance.balance.formatted = formatAmount(raw, { symbol: metadata.symbol ?? 'units', decimals: metadata.decimals });
+    } catch (error) {
+      balance.metadataError = (error as Error).message;
+    }
+    jettons.push(balance);
+  }
+
+  return {
+    address: owner.toString(addressOptions),
+    status: state.status,
+    ton: describeAmount(BigInt(state.balance), TON_UNIT),
+    jettons,
+    jettonsTruncated: wallets.length >= MAX_JETTON_WALLETS,
+  };
+}
+
+/**
+ * Status, last transaction and contract kind of an account
+ */
+export async function getAccountStateInfo(provider: ChainProvider, address: Address, addressOptions: AddressOptions = {}): Promise<AccountStateInfo> {
+  const state = await provider.getAccountState(address.toString());
+  return {
+    address: address.toString(addressOptions),
+    status: state.status,
+    balance: describeAmount(BigInt(state.balance), TON_UNIT),
+    lastTransactionLt: state.lastTransactionLt,
+    lastTransactionHash: state.lastTransactionHash,
+    codeHash: state.codeHash,
+    walletVersion: detectWalletVersionByCodeHash(state.codeHash),
+    frozenHash: state.frozenHash,
+  };
+}
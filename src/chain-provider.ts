@@ -0,0 +1,545 @@
+import { Cell, TupleReader, type TupleItem } from '@ton/core';
+import { z } from 'zod';
+import type { TonNetwork } from './network.js';
+
+/**
+ * Read access to the blockchain. Tools depend on this interface only, so a
+ * local mock server (or a test double) can stand in for the public API.
+ */
+export interface ChainProvider {
+  /** Network the provider reads from */
+  readonly network: TonNetwork;
+
+  /**
+   * Transactions that received (`in`) or sent (`out`) the message with the given hash
+   */
+  getTransactionsByMessage(messageHash: string, direction: 'in' | 'out'): Promise<ChainTransaction[]>;
+
+  /**
+   * Transactions of an account, newest first
+   */
+  getTransactions(account: string, options?: TransactionsQuery): Promise<ChainTransaction[]>;
+
+  /**
+   * Run a get-method on a contract and return its result stack
+   */
+  runGetMethod(address: string, method: string, stack?: TupleItem[]): Promise<TupleReader>;
+
+  /**
+   * Current state of an account
+   */
+  getAccountState(address: string): Promise<ChainAccountState>;
+
+  /**
+   * NFT items held by an owner, as indexed by the API
+   */
+  getNftItems(owner: string, options?: NftItemsQuery): Promise<ChainNftItem[]>;
+
+  /**
+   * Jetton wallets of an owner, as indexed by the API
+   */
+  getJettonWallets(owner: string, options?: PageQuery): Promise<ChainJettonWallet[]>;
+}
+
+export type AccountStatus = 'active' | 'uninit' | 'frozen' | 'nonexist';
+
+export interface ChainAccountState {
+  status: AccountStatus;
+  /** Balance in nanoTON */
+  balance: string;
+  lastTransactionLt: string | null;
+  lastTransactionHash: string | null;
+  /** Hex hash of the contract code, for active accounts */
+  codeHash: string | null;
+  /** Base64 BOCs of the contract code and data, for active accounts */
+  code: string | null;
+  data: string | null;
+  /** Base64 state hash of a frozen account */
+  frozenHash: string | null;
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface TransactionsQuery extends PageQuery {
+  /** Only transactions with a logical time at or above this one */
+  startLt?: string;
+  /** Only transactions with a logical time at or below this one */
+  endLt?: string;
+}
+
+export interface NftItemsQuery extends PageQuery {
+  /** Only items of this collection */
+  collection?: string;
+}
+
+export interface ChainNftItem {
+  address: string;
+  index: string;
+  collection: string | null;
+  owner: string | null;
+  initialized: boolean;
+}
+
+export interface ChainJettonWallet {
+  address: string;
+  /** Balance in the jetton's smallest units */
+  balance: string;
+  /** Jetton master address */
+  jetton: string;
+  owner: string;
+}
+
+export interface ChainMessage {
+  hash: string;
+  source: string | null;
+  destination: string | null;
+  value: string | null;
+  opcode: string | null;
+  bounce: boolean | null;
+  bounced: boolean | null;
+  /** Base64 BOC of the message body */
+  body: string | null;
+}
+
+export interface ChainTransaction {
+  hash: string;
+  lt: string;
+  account: string;
+  now: number;
+  /** Included in a masterchain block */
+  finalized: boolean;
+  aborted: boolean;
+  computePhase: {
+    skipped: boolean;
+    success: boolean | null;
+    exitCode: number | null;
+  };
+  actionPhase: {
+    success: boolean | null;
+    resultCode: number | null;
+  } | null;
+  totalFees: string;
+  inMessage: ChainMessage | null;
+  outMessages: ChainMessage[];
+}
+
+export class ChainProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    /** TVM exit code when a get-method failed */
+    readonly exitCode?: number
+  ) {
+    super(message);
+    this.name = 'ChainProviderError';
+  }
+}
+
+/** Time a TON API request may take, including reading the response */
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// toncenter v3 response shapes. Only the fields read below are declared;
+// numbers the API may send as strings or numbers are accepted as either.
+const apiNumberSchema = z.union([z.string(), z.number()]);
+
+const apiMessageSchema = z.object({
+  hash: z.string(),
+  source: z.string().nullish(),
+  destination: z.string().nullish(),
+  value: apiNumberSchema.nullish(),
+  opcode: apiNumberSchema.nullish(),
+  bounce: z.boolean().nullish(),
+  bounced: z.boolean().nullish(),
+  message_content: z.object({ body: z.string().nullish() }).nullish(),
+});
+
+const apiTransactionSchema = z.object({
+  hash: z.string(),
+  lt: apiNumberSchema,
+  account: z.string(),
+  now: z.number(),
+  mc_block_seqno: z.number().nullish(),
+  total_fees: apiNumberSchema.nullish(),
+  description: z.object({
+    aborted: z.boolean().nullish(),
+    compute_ph: z.object({
+      skipped: z.boolean().nullish(),
+      success: z.boolean().nullish(),
+      exit_code: z.number().nullish(),
+    }).nullish(),
+    action: z.object({
+      success: z.boolean().nullish(),
+      result_code: z.number().nullish(),
+    }).nullish(),
+  }).nullish(),
+  in_msg: apiMessageSchema.nullish(),
+  out_msgs: z.array(apiMessageSchema).nullish(),
+});
+
+const transactionsResponseSchema = z.object({
+  transactions: z.array(apiTransactionSchema).nullish(),
+});
+
+const accountStateResponseSchema = z.object({
+  status: z.string().nullish(),
+  balance: apiNumberSchema.nullish(),
+  code: z.string().nullish(),
+  data: z.string().nullish(),
+  last_transaction_lt: apiNumberSchema.nullish(),
+  last_transaction_hash: z.string().nullish(),
+  frozen_hash: z.string().nullish(),
+});
+
+type ApiStackItem =
+  | { type: 'num'; value: string | number }
+  | { type: 'cell' | 'slice'; value: string }
+  | { type: 'null' }
+  | { type: 'tuple' | 'list'; value?: ApiStackItem[] | null };
+
+const apiStackItemSchema: z.ZodType<ApiStackItem> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('num'), value: apiNumberSchema }),
+    z.object({ type: z.literal('cell'), value: z.string() }),
+    z.object({ type: z.literal('slice'), value: z.string() }),
+    z.object({ type: z.literal('null') }),
+    z.object({ type: z.literal('tuple'), value: z.array(apiStackItemSchema).nullish() }),
+    z.object({ type: z.literal('list'), value: z.array(apiStackItemSchema).nullish() }),
+  ])
+);
+
+const runGetMethodResponseSchema = z.object({
+  exit_code: z.number(),
+  stack: z.array(apiStackItemSchema).nullish(),
+});
+
+const nftItemsResponseSchema = z.object({
+  nft_items: z.array(z.object({
+    address: z.string(),
+    index: apiNumberSchema,
+    collection_address: z.string().nullish(),
+    owner_address: z.string().nullish(),
+    init: z.boolean().nullish(),
+  })).nullish(),
+});
+
+const jettonWalletsResponseSchema = z.object({
+  jetton_wallets: z.array(z.object({
+    address: z.string(),
+    balance: apiNumberSchema.nullish(),
+    jetton: z.string(),
+    owner: z.string(),
+  })).nullish(),
+});
+
+type ApiMessage = z.infer<typeof apiMessageSchema>;
+type ApiTransaction = z.infer<typeof apiTransactionSchema>;
+type ApiNftItem = NonNullable<z.infer<typeof nftItemsResponseSchema>['nft_items']>[number];
+type ApiJettonWallet = NonNullable<z.infer<typeof jettonWalletsResponseSchema>['jetton_wallets']>[number];
+
+const ACCOUNT_STATUSES: readonly AccountStatus[] = ['active', 'uninit', 'frozen', 'nonexist'];
+
+function optionalString(value: string | number | null | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function toChainMessage(raw: ApiMessage): ChainMessage {
+  return {
+    hash: raw.hash,
+    source: raw.source ?? null,
+    destination: raw.destination ?? null,
+    value: optionalString(raw.value),
+    opcode: optionalString(raw.opcode),
+    bounce: raw.bounce ?? null,
+    bounced: raw.bounced ?? null,
+    body: raw.message_content?.body ?? null,
+  };
+}
+
+function toChainTransaction(raw: ApiTransaction): ChainTransaction {
+  const description = raw.description ?? {};
+  const compute = description.compute_ph ?? {};
+  const action = description.action;
+
+  return {
+    hash: raw.hash,
+    lt: String(raw.lt),
+    account: raw.account,
+    now: raw.now,
+    finalized: raw.mc_block_seqno !== null && raw.mc_block_seqno !== undefined,
+    aborted: Boolean(description.aborted),
+    computePhase: {
+      skipped: Boolean(compute.skipped),
+      success: compute.success ?? null,
+      exitCode: compute.exit_code ?? null,
+    },
+    actionPhase: action
+      ? { success: action.success ?? null, resultCode: action.result_code ?? null }
+      : null,
+    totalFees: String(raw.total_fees ?? '0'),
+    inMessage: raw.in_msg ? toChainMessage(raw.in_msg) : null,
+    outMessages: (raw.out_msgs ?? []).map(toChainMessage),
+  };
+}
+
+function toChainAccountState(raw: z.infer<typeof accountStateResponseSchema>): ChainAccountState {
+  return {
+    status: ACCOUNT_STATUSES.find((status) => status === raw.status) ?? 'nonexist',
+    balance: String(raw.balance ?? '0'),
+    lastTransactionLt: raw.last_transaction_lt ? String(raw.last_transaction_lt) : null,
+    lastTransactionHash: raw.last_transaction_hash ?? null,
+    codeHash: raw.code ? Cell.fromBase64(raw.code).hash().toString('hex') : null,
+    code: raw.code ?? null,
+    data: raw.data ?? null,
+    frozenHash: raw.frozen_hash ?? null,
+  };
+}
+
+function toChainNftItem(raw: ApiNftItem): ChainNftItem {
+  return {
+    address: raw.address,
+    index: String(raw.index),
+    collection: raw.collection_address ?? null,
+    owner: raw.owner_address ?? null,
+    initialized: Boolean(raw.init),
+  };
+}
+
+function toChainJettonWallet(raw: ApiJettonWallet): ChainJettonWallet {
+  return {
+    address: raw.address,
+    balance: String(raw.balance ?? '0'),
+    jetton: raw.jetton,
+    owner: raw.owner,
+  };
+}
+
+function toApiStackItem(item: TupleItem): { type: string; value: string } {
+  switch (item.type) {
+    case 'int':
+      return { type: 'num', value: '0x' + item.value.toString(16) };
+    case 'cell':
+      return { type: 'cell', value: item.cell.toBoc().toString('base64') };
+    case 'slice':
+      return { type: 'slice', value: item.cell.toBoc().toString('base64') };
+    default:
+      throw new ChainProviderError(`Unsupported get-method argument type: ${item.type}`);
+  }
+}
+
+function fromApiStackItem(raw: ApiStackItem): TupleItem {
+  switch (raw.type) {
+    case 'num': {
+      const value = String(raw.value);
+      return {
+        type: 'int',
+        value: value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value),
+      };
+    }
+    case 'cell':
+      return { type: 'cell', cell: Cell.fromBase64(raw.value) };
+    case 'slice':
+      return { type: 'slice', cell: Cell.fromBase64(raw.value) };
+    case 'null':
+      return { type: 'null' };
+    case 'tuple':
+    case 'list':
+      return { type: 'tuple', items: (raw.value ?? []).map(fromApiStackItem) };
+  }
+}
+
+/**
+ * ChainProvider backed by a toncenter-compatible v3 HTTP API
+ */
+export class ToncenterProvider implements ChainProvider {
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly apiKey?: string,
+    readonly network: TonNetwork = 'mainnet'
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async getTransactionsByMessage(messageHash: string, direction: 'in' | 'out'): Promise<ChainTransaction[]> {
+    const data = await this.request(transactionsResponseSchema, '/transactionsByMessage', {
+      msg_hash: messageHash,
+      direction,
+    });
+    return (data.transactions ?? []).map(toChainTransaction);
+  }
+
+  async getTransactions(account: string, options: TransactionsQuery = {}): Promise<ChainTransaction[]> {
+    const params: Record<string, string> = {
+      account,
+      limit: String(options.limit ?? 20),
+      offset: String(options.offset ?? 0),
+      sort: 'desc',
+    };
+    if (options.startLt) {
+      params.start_lt = options.startLt;
+    }
+    if (options.endLt) {
+      params.end_lt = options.endLt;
+    }
+    const data = await this.request(transactionsResponseSchema, '/transactions', params);
+    return (data.transactions ?? []).map(toChainTransaction);
+  }
+
+  async runGetMethod(address: string, method: string, stack: TupleItem[] = []): Promise<TupleReader> {
+    const data = await this.request(runGetMethodResponseSchema, '/runGetMethod', undefined, {
+      address,
+      method,
+      stack: stack.map(toApiStackItem),
+    });
+    if (data.exit_code !== 0) {
+      throw new ChainProviderError(`Get-method ${method} on ${address} failed with exit code ${data.exit_code}`, undefined, data.exit_code);
+    }
+    return new TupleReader((data.stack ?? []).map(fromApiStackItem));
+  }
+
+  async getAccountState(address: string): Promise<ChainAccountState> {
+    const data = await this.request(accountStateResponseSchema, '/addressInformation', { address, use_v2: 'false' });
+    return toChainAccountState(data);
+  }
+
+  async getNftItems(owner: string, options: NftItemsQuery = {}): Promise<ChainNftItem[]> {
+    const params: Record<string, string> = {
+      owner_address: owner,
+      limit: String(options.limit ?? 50),
+      offset: String(options.offset ?? 0),
+    };
+    if (options.collection) {
+      params.collection_address = options.collection;
+    }
+    const data = await this.request(nftItemsResponseSchema, '/nft/items', params);
+    return (data.nft_items ?? []).map(toChainNftItem);
+  }
+
+  async getJettonWallets(owner: string, options: PageQuery = {}): Promise<ChainJettonWallet[]> {
+    const data = await this.request(jettonWalletsResponseSchema, '/jetton/wallets', {
+      owner_address: owner,
+      limit: String(options.limit ?? 50),
+      offset: String(options.offset ?? 0),
+    });
+    return (data.jetton_wallets ?? []).map(toChainJettonWallet);
+  }
+
+  /**
+   * Call the API and check the response against its schema. Network errors,
+   * timeouts and malformed responses are all reported as ChainProviderError.
+   */
+  private async request<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, path: string, params?: Record<string, string>, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}${path}${params ? `?${new URLSearchParams(params)}` : ''}`;
+    const headers: Record<string, string> = { accept: 'application/json' };
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+    if (body !== undefined) {
+      headers['content-type'] = 'application/json';
+    }
+
+    let json: unknown;
+    try {
+      const response = await fetch(url, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new ChainProviderError(`TON API request failed: ${response.status} ${response.statusText}`, response.status);
+      }
+      json = await response.json();
+    } catch (error) {
+      if (error instanceof ChainProviderError) {
+        throw error;
+      }
+      if ((error as Error).name === 'TimeoutError') {
+        throw new ChainProviderError(`TON API request ${path} timed out after ${REQUEST_TIMEOUT_MS / 1000} seconds`);
+      }
+      throw new ChainProviderError(`TON API request ${path} failed: ${(error as Error).message}`);
+    }
+
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+      throw new ChainProviderError(`Unexpected TON API response from ${path}: ${issues}`);
+    }
+    return result.data;
+  }
+}
+
+const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Caches account and index reads of another provider for a short time, so
+ * balance checks and repeated lookups do not hit the API (and its rate limit)
+ * again. Transaction lookups and get-methods always go through, since their
+ * results are polled or consumed.
+ */
+export class CachedChainProvider implements ChainProvider {
+  private readonly cache: Map<string, { expiresAt: number; value: Promise<unknown> }> = new Map();
+
+  constructor(
+    private readonly provider: ChainProvider,
+    private readonly ttlMs: number
+  ) {}
+
+  get network(): TonNetwork {
+    return this.provider.network;
+  }
+
+  getTransactionsByMessage(messageHash: string, direction: 'in' | 'out'): Promise<ChainTransaction[]> {
+    return this.provider.getTransactionsByMessage(messageHash, direction);
+  }
+
+  getTransactions(account: string, options?: TransactionsQuery): Promise<ChainTransaction[]> {
+    return this.provider.getTransactions(account, options);
+  }
+
+  runGetMethod(address: string, method: string, stack?: TupleItem[]): Promise<TupleReader> {
+    return this.provider.runGetMethod(address, method, stack);
+  }
+
+  getAccountState(address: string): Promise<ChainAccountState> {
+    return this.cached(`account:${address}`, () => this.provider.getAccountState(address));
+  }
+
+  getNftItems(owner: string, options: NftItemsQuery = {}): Promise<ChainNftItem[]> {
+    return this.cached(`nfts:${owner}:${JSON.stringify(options)}`, () => this.provider.getNftItems(owner, options));
+  }
+
+  getJettonWallets(owner: string, options: PageQuery = {}): Promise<ChainJettonWallet[]> {
+    return this.cached(`jettons:${owner}:${JSON.stringify(options)}`, () => this.provider.getJettonWallets(owner, options));
+  }
+
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    const now = Date.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value as Promise<T>;
+    }
+
+    // Concurrent callers share one request; failures are not cached
+    const value = load();
+    value.catch(() => {
+      if (this.cache.get(key)?.value === value) {
+        this.cache.delete(key);
+      }
+    });
+    this.cache.delete(key);
+    this.cache.set(key, { expiresAt: now + this.ttlMs, value });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,160 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_API_URLS, parseNetwork, type TonNetwork } from './network.js';
+import { DEFAULT_WALLETS_LIST_URL } from './wallet-discovery.js';
+
+/**
+ * Runtime configuration, read once from environment variables and command line flags.
+ * Every setting is optional - defaults keep the zero-setup behaviour.
+ */
+
+/**
+ * Whole number from an environment variable, or the default when it is unset
+ */
+function readIntegerEnv(name: string, defaultValue: number, min: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return defaultValue;
+  }
+  if (!/^\d+$/.test(value.trim()) || Number(value) < min) {
+    throw new Error(`Invalid ${name} value: "${value}". Use a whole number of at least ${min}.`);
+  }
+  return Number(value);
+}
+
+export const DEFAULT_MANIFEST_URL = 'https://app.palette.finance/tonconnect-manifest.json';
+export const MANIFEST_URL = process.env.TONCONNECT_MANIFEST_URL || DEFAULT_MANIFEST_URL;
+
+/**
+ * ton_proof verification: domains a proof may be signed for (defaults to the
+ * manifest host) and how old a proof may be
+ */
+export const PROOF_ALLOWED_DOMAINS: string[] = process.env.TONCONNECT_PROOF_DOMAINS
+  ? process.env.TONCONNECT_PROOF_DOMAINS.split(',').map((domain) => domain.trim()).filter(Boolean)
+  : [new URL(MANIFEST_URL).host];
+export const PROOF_MAX_AGE_SECONDS = readIntegerEnv('TONCONNECT_PROOF_MAX_AGE', 900, 1);
+
+/**
+ * TON Connect wallet registry and how long a fetched list is reused
+ */
+export const WALLETS_LIST_URL = process.env.TONCONNECT_WALLETS_LIST_URL || DEFAULT_WALLETS_LIST_URL;
+export const WALLETS_CACHE_TTL_SECONDS = readIntegerEnv('TONCONNECT_WALLETS_CACHE_TTL', 3600, 0);
+
+/**
+ * Target network: mainnet (default) or testnet
+ */
+export const TON_NETWORK: TonNetwork = parseNetwork(process.env.TON_NETWORK);
+
+/**
+ * toncenter-compatible v3 HTTP API used for chain reads (transaction status etc.).
+ * Defaults to toncenter for the target network.
+ */
+export const TON_API_URL = process.env.TON_API_URL || DEFAULT_API_URLS[TON_NETWORK];
+export const TON_API_KEY = process.env.TON_API_KEY || undefined;
+/** Seconds account states and indexed lists are reused; 0 disables the cache */
+export const TON_API_CACHE_TTL_SECONDS = readIntegerEnv('TON_API_CACHE_TTL', 10, 0);
+export const CONFIRMATION_TIMEOUT_SECONDS = readIntegerEnv('TON_CONFIRMATION_TIMEOUT', 120, 1);
+export const CONFIRMATION_POLL_INTERVAL_MS = readIntegerEnv('TON_POLL_INTERVAL_MS', 3000, 1);
+
+/**
+ * Spending policy file (.json, .yaml or .yml). No policy means no limits.
+ */
+export const POLICY_FILE = process.env.TON_POLICY_FILE || undefined;
+
+/**
+ * Hash-chained JSONL audit log. Without a file the log is kept in memory.
+ */
+export const AUDIT_LOG_FILE = process.env.TON_AUDIT_LOG || undefined;
+
+export type StorageBackend = 'memory' | 'file';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  /** Directory holding the session file and generated keyfile */
+  dir: string;
+  /** Encryption key (hex or passphrase). A keyfile is generated when absent. */
+  key?: string;
+  /** Explicit keyfile location, defaults to `<dir>/storage.key` */
+  keyFile?: string;
+}
+
+function parseStorageBackend(value: string | undefined): StorageBackend {
+  if (!value) {
+    return 'memory';
+  }
+
+  const backend = value.toLowerCase();
+  if (backend !== 'memory' && backend !== 'file') {
+    throw new Error(`Invalid TONCONNECT_STORAGE value: "${value}". Use "memory" or "file".`);
+  }
+  return backend;
+}
+
+export const STORAGE_CONFIG: StorageConfig = {
+  backend: parseStorageBackend(process.env.TONCONNECT_STORAGE),
+  dir: process.env.TONCONNECT_STORAGE_DIR || join(homedir(), '.ton-connect-mcp'),
+  key: process.env.TONCONNECT_STORAGE_KEY || undefined,
+  keyFile: process.env.TONCONNECT_STORAGE_KEY_FILE || undefined,
+};
+
+/**
+ * Address book file. Labels are kept on disk whatever the storage backend.
+ */
+export const ADDRESS_BOOK_FILE = process.env.TON_ADDRESS_BOOK || join(STORAGE_CONFIG.dir, 'address-book.json');
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  /** Interface the HTTP server listens on */
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients must send. A random one is generated when absent. */
+  token?: string;
+}
+
+/**
+ * Value of a command line flag, as `--name value` or `--name=value`
+ */
+function readFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+function parseTransportMode(value: string | undefined): TransportMode {
+  if (!value) {
+    return 'stdio';
+  }
+
+  const mode = value.toLowerCase();
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Invalid --transport value: "${value}". Use "stdio" or "http".`);
+  }
+  return mode;
+}
+
+function parsePort(value: string | undefined): number {
+  const port = Number(value ?? 3000);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid --port value: "${value}". Use a port number between 1 and 65535.`);
+  }
+  return port;
+}
+
+/**
+ * MCP transport: stdio (default), or streamable HTTP with `--transport http`
+ */
+export const TRANSPORT_CONFIG: TransportConfig = {
+  mode: parseTransportMode(readFlag('transport')),
+  host: readFlag('host') || '127.0.0.1',
+  port: parsePort(readFlag('port')),
+  token: process.env.TON_MCP_HTTP_TOKEN || undefined,
+};
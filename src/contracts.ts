@@ -0,0 +1,102 @@
+import { Address, beginCell, Cell, contractAddress, storeStateInit, type StateInit } from '@ton/core';
+import { buildOffchainContent } from './jetton-metadata.js';
+
+/**
+ * Contract deployment: StateInit building, address prediction and the data
+ * layouts of standard contracts, so only their code has to be supplied
+ */
+
+export const DEPLOY_TEMPLATES = ['jetton_minter', 'nft_collection'] as const;
+export type DeployTemplate = (typeof DEPLOY_TEMPLATES)[number];
+
+export const WORKCHAINS = [0, -1] as const;
+
+export interface JettonMinterData {
+  admin: Address | null;
+  /** TEP-64 metadata URI */
+  contentUri: string;
+  /** Code of the jetton wallets the minter deploys */
+  walletCode: Cell;
+  totalSupply?: bigint;
+}
+
+export interface NftCollectionData {
+  owner: Address;
+  /** TEP-64 collection metadata URI */
+  contentUri: string;
+  /** Base URI that item contents are appended to */
+  commonContentUri: string;
+  itemCode: Cell;
+  royalty: {
+    numerator: number;
+    denominator: number;
+    destination: Address;
+  };
+  nextItemIndex?: bigint;
+}
+
+/**
+ * Data cell of the standard TEP-74 jetton minter
+ */
+export function buildJettonMinterData(params: JettonMinterData): Cell {
+  return beginCell()
+    .storeCoins(params.totalSupply ?? 0n) // total_supply
+    .storeAddress(params.admin) // admin_address
+    .storeRef(buildOffchainContent(params.contentUri)) // content
+    .storeRef(params.walletCode) // jetton_wallet_code
+    .endCell();
+}
+
+/**
+ * Data cell of the standard TEP-62 NFT collection (with TEP-66 royalty params)
+ */
+export function buildNftCollectionData(params: NftCollectionData): Cell {
+  const content = beginCell()
+    .storeRef(buildOffchainContent(params.contentUri)) // collection_content
+    .storeRef(beginCell().storeStringTail(params.commonContentUri).endCell()) // common_content
+    .endCell();
+
+  const royalty = beginCell()
+    .storeUint(params.royalty.numerator, 16) // numerator
+    .storeUint(params.royalty.denominator, 16) // denominator
+    .storeAddress(params.royalty.destination) // destination
+    .endCell();
+
+  return beginCell()
+    .storeAddress(params.owner) // owner_address
+    .storeUint(params.nextItemIndex ?? 0n, 64) // next_item_index
+    .storeRef(content) // content
+    .storeRef(params.itemCode) // nft_item_code
+    .storeRef(royalty) // royalty_params
+    .endCell();
+}
+
+export interface PreparedDeployment {
+  address: Address;
+  stateInit: StateInit;
+  /** Base64 BOC of the StateInit, as send_transaction expects it */
+  stateInitBoc: string;
+}
+
+/**
+ * Build the StateInit and the address it deploys to
+ */
+export function prepareDeployment(code: Cell, data: Cell, workchain: number = 0): PreparedDeployment {
+  const stateInit: StateInit = { code, data };
+  return {
+    address: contractAddress(workchain, stateInit),
+    stateInit,
+    stateInitBoc: beginCell().store(storeStateInit(stateInit)).endCell().toBoc().toString('base64'),
+  };
+}
+
+/**
+ * Parse a base64 BOC holding a single root cell
+ */
+export function parseCellBoc(boc: string, label: string): Cell {
+  try {
+    return Cell.fromBase64(boc);
+  } catch (error) {
+    throw new Error(`Invalid ${label} BOC: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,332 @@
+import { Address, Cell, external, internal as internalRelaxed, loadStateInit, type AccountState, type Message, type MessageRelaxed } from '@ton/core';
+import { keyPairFromSeed } from '@ton/crypto';
+import { Blockchain, internal, RemoteBlockchainStorage, type BlockchainTransaction, type RemoteBlockchainStorageClient } from '@ton/sandbox';
+import type { SendTransactionRequest } from '@tonconnect/sdk';
+import { describeAmount, formatAmount, TON_UNIT, type AmountDetails } from './amounts.js';
+import type { ChainAccountState, ChainProvider } from './chain-provider.js';
+import { decodeCell, type DecodedPayload } from './payload-decoder.js';
+import {
+  findStandardWallet,
+  isStandardWalletVersion,
+  STANDARD_WALLET_VERSIONS,
+  type StandardWallet,
+  type StandardWalletVersion,
+} from './wallet-contracts.js';
+import { detectWalletVersionByCodeHash, readWalletPublicKey } from './wallet-versions.js';
+
+/**
+ * Local emulation of a transaction request: the wallet's external message and
+ * every message it causes run in a TVM sandbox against account states fetched
+ * through the chain provider. Nothing is broadcast.
+ */
+
+/** Upper bound on emulated transactions, so a message loop cannot run forever */
+const MAX_TRANSACTIONS = 64;
+
+/** Emulation runs without the user's key; signature checks are skipped */
+const DUMMY_SECRET_KEY = keyPairFromSeed(Buffer.alloc(32)).secretKey;
+
+export interface EmulationOptions {
+  /** Wallet that would sign the request */
+  sender: Address;
+  /** Hex public key of the sender, read from the wallet contract when absent */
+  publicKey?: string;
+}
+
+export interface EmulatedMessage {
+  to: string;
+  amount: AmountDetails;
+  bounce: boolean;
+  payload: DecodedPayload | null;
+}
+
+export interface EmulatedTransaction {
+  account: string;
+  success: boolean;
+  aborted: boolean;
+  /** TVM exit code, null when the compute phase was skipped */
+  exitCode: number | null;
+  /** Why the compute phase was skipped, e.g. no-state for an account without code */
+  computeSkipped: string | null;
+  actionResultCode: number | null;
+  fees: AmountDetails;
+  /** The incoming message was a bounce */
+  bounced: boolean;
+  outMessages: number;
+}
+
+export interface BalanceChange {
+  address: string;
+  before: AmountDetails;
+  after: AmountDetails;
+  change: AmountDetails;
+}
+
+export interface EmulationResult {
+  /** Every transaction in the chain succeeded and nothing bounced */
+  success: boolean;
+  /** Wallet contract that was emulated, null when only its outgoing messages could be */
+  walletVersion: StandardWalletVersion | null;
+  totalFees: AmountDetails;
+  /** Messages the wallet sends */
+  outMessages: EmulatedMessage[];
+  transactions: EmulatedTransaction[];
+  balanceChanges: BalanceChange[];
+  warnings: string[];
+}
+
+function hashToBuffer(hash: string): Buffer {
+  return /^[0-9a-fA-F]{64}$/.test(hash) ? Buffer.from(hash, 'hex') : Buffer.from(hash, 'base64');
+}
+
+function toAccountState(state: ChainAccountState): AccountState {
+  if (state.status === 'active' && state.code && state.data) {
+    return { type: 'active', state: { code: Cell.fromBase64(state.code), data: Cell.fromBase64(state.data) } };
+  }
+  if (state.status === 'frozen' && state.frozenHash) {
+    return { type: 'frozen', stateHash: BigInt('0x' + hashToBuffer(state.frozenHash).toString('hex')) };
+  }
+  return { type: 'uninit' };
+}
+
+/**
+ * Sandbox storage that loads accounts through the chain provider and
+ * remembers their balances before emulation
+ */
+function createStorageClient(provider: ChainProvider, states: Map<string, ChainAccountState>): RemoteBlockchainStorageClient {
+  return {
+    getLastBlockSeqno: async () => 0,
+    getAccount: async (_seqno, address) => {
+      const key = address.toRawString();
+      const state = states.get(key) ?? await provider.getAccountState(key);
+      states.set(key, state);
+      return {
+        state: toAccountState(state),
+        balance: BigInt(state.balance),
+        lastTransaction: state.lastTransactionLt && state.lastTransactionHash
+          ? { lt: BigInt(state.lastTransactionLt), hash: hashToBuffer(state.lastTransactionHash) }
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * TON Connect messages are bounceable unless the address is in non-bounceable form
+ */
+function isBounceable(address: string): boolean {
+  return Address.isFriendly(address) ? Address.parseFriendly(address).isBounceable : true;
+}
+
+function toRelaxedMessage(message: SendTransactionRequest['messages'][number]): MessageRelaxed {
+  const init = message.stateInit ? loadStateInit(Cell.fromBase64(message.stateInit).beginParse()) : undefined;
+  return internalRelaxed({
+    to: Address.parse(message.address),
+    value: BigInt(message.amount),
+    bounce: isBounceable(message.address),
+    init: init ? { code: init.code, data: init.data } : undefined,
+    body: message.payload ? Cell.fromBase64(message.payload) : undefined,
+  });
+}
+
+async function readSeqno(provider: ChainProvider, wallet: Address): Promise<number> {
+  const stack = await provider.runGetMethod(wallet.toString(), 'seqno');
+  return stack.readNumber();
+}
+
+/**
+ * The wallet's external message with a dummy signature, or null when the
+ * wallet is not a standard one we can rebuild
+ */
+async function buildWalletExternal(
+  provider: ChainProvider,
+  transaction: SendTransactionRequest,
+  options: EmulationOptions,
+  state: ChainAccountState
+): Promise<{ wallet: StandardWallet; message: Message } | null> {
+  const publicKey = options.publicKey
+    ? Buffer.from(options.publicKey, 'hex')
+    : state.status === 'active' ? await readWalletPublicKey(provider, options.sender).catch(() => null) : null;
+  if (!publicKey) {
+    return null;
+  }
+
+  const active = state.status === 'active';
+  const versions: readonly StandardWalletVersion[] = active
+    ? [detectWalletVersionByCodeHash(state.codeHash)].filter(isStandardWalletVersion)
+    : STANDARD_WALLET_VERSIONS;
+  const wallet = versions
+    .map((version) => findStandardWallet(options.sender, publicKey, version, provider.network))
+    .find((candidate): candidate is StandardWallet => candidate !== null);
+  if (!wallet) {
+    return null;
+  }
+
+  const body = wallet.createTransfer({
+    seqno: active ? await readSeqno(provider, options.sender) : 0,
+    secretKey: DUMMY_SECRET_KEY,
+    messages: transaction.messages.map(toRelaxedMessage),
+    timeout: transaction.validUntil,
+  });
+  return {
+    wallet,
+    message: external({ to: wallet.address, init: active ? undefined : wallet.init, body }),
+  };
+}
+
+function messageSummary(message: Message, testOnly: boolean): EmulatedMessage | null {
+  if (message.info.type !== 'internal') {
+    return null;
+  }
+  const hasBody = message.body.bits.length > 0 || message.body.refs.length > 0;
+  return {
+    to: message.info.dest.toString({ testOnly }),
+    amount: describeAmount(message.info.value.coins, TON_UNIT),
+    bounce: message.info.bounce,
+    payload: hasBody ? decodeCell(message.body) : null,
+  };
+}
+
+function transactionAccount(transaction: BlockchainTransaction): Address | null {
+  const info = transaction.inMessage?.info;
+  return info && info.type !== 'external-out' ? info.dest : null;
+}
+
+function summarizeTransaction(transaction: BlockchainTransaction, account: Address, testOnly: boolean): EmulatedTransaction {
+  const description = transaction.description;
+  const compute = description.type === 'generic' ? description.computePhase : null;
+  const action = description.type === 'generic' ? description.actionPhase : null;
+  const aborted = description.type === 'generic' ? description.aborted : false;
+  const info = transaction.inMessage?.info;
+  const skipped = compute?.type === 'skipped' ? compute.reason : null;
+  // A non-bounceable message to an account without code just credits it
+  const deposit = skipped === 'no-state' && info?.type === 'internal' && !info.bounce;
+
+  return {
+    account: account.toString({ testOnly }),
+    success: deposit || (!aborted && (compute?.type !== 'vm' || compute.success) && (action?.success ?? true)),
+    aborted,
+    exitCode: compute?.type === 'vm' ? compute.exitCode : null,
+    computeSkipped: skipped,
+    actionResultCode: action ? action.resultCode : null,
+    fees: describeAmount(transaction.totalFees.coins, TON_UNIT),
+    bounced: info?.type === 'internal' ? info.bounced : false,
+    outMessages: transaction.outMessages.size,
+  };
+}
+
+/**
+ * Emulate a transaction request as the sender's wallet would execute it
+ */
+export async function emulateTransaction(
+  provider: ChainProvider,
+  transaction: SendTransactionRequest,
+  options: EmulationOptions
+): Promise<EmulationResult> {
+  const states: Map<string, ChainAccountState> = new Map();
+  const testOnly = provider.network === 'testnet';
+  const blockchain = await Blockchain.create({ storage: new RemoteBlockchainStorage(createStorageClient(provider, states)) });
+  blockchain.now = Math.floor(Date.now() / 1000);
+
+  const warnings: string[] = [];
+  const senderState = await provider.getAccountState(options.sender.toRawString());
+  states.set(options.sender.toRawString(), senderState);
+
+  const walletExternal = await buildWalletExternal(provider, transaction, options, senderState);
+  const rootMessages: Message[] = walletExternal
+    ? [walletExternal.message]
+    : transaction.messages.map((message) => {
+        const relaxed = toRelaxedMessage(message);
+        if (relaxed.info.type !== 'internal') {
+          throw new Error('Unexpected message type');
+        }
+        return internal({
+          from: options.sender,
+          to: relaxed.info.dest as Address,
+          value: relaxed.info.value.coins,
+          bounce: relaxed.info.bounce,
+          stateInit: relaxed.init ?? undefined,
+          body: relaxed.body,
+        });
+      });
+  if (!walletExternal) {
+    warnings.push('The sender is not a standard wallet with a known public key; its own fees are not included and its messages were emulated directly.');
+  }
+
+  const transactions: BlockchainTransaction[] = [];
+  for (const message of rootMessages) {
+    const iterator = await blockchain.sendMessageIter(message, { ignoreChksig: true });
+    for await (const tx of iterator) {
+      transactions.push(tx);
+      if (transactions.length >= MAX_TRANSACTIONS) {
+        warnings.push(`Emulation stopped after ${MAX_TRANSACTIONS} transactions; the message chain may continue.`);
+        break;
+      }
+    }
+    if (transactions.length >= MAX_TRANSACTIONS) {
+      break;
+    }
+  }
+
+  const summaries: EmulatedTransaction[] = [];
+  const touched: Map<string, Address> = new Map();
+  let totalFees = 0n;
+  for (const tx of transactions) {
+    const account = transactionAccount(tx);
+    if (!account) {
+      continue;
+    }
+    touched.set(account.toRawString(), account);
+    totalFees += tx.totalFees.coins;
+
+    const summary = summarizeTransaction(tx, account, testOnly);
+    summaries.push(summary);
+    if (!summary.success) {
+      const reason = summary.exitCode !== null ? `exit code ${summary.exitCode}` : `compute phase skipped: ${summary.computeSkipped}`;
+      warnings.push(`Transaction on ${summary.account} fails (${reason}${summary.actionResultCode ? `, action result ${summary.actionResultCode}` : ''}).`);
+    }
+    if (summary.bounced) {
+      warnings.push(`A message bounced back to ${summary.account}.`);
+    }
+  }
+
+  // The wallet's outgoing messages are those of its own transaction, or the root messages without one
+  const walletTransaction = walletExternal ? transactions[0] : undefined;
+  const walletMessages = walletTransaction
+    ? [...walletTransaction.outMessages.values()]
+    : rootMessages;
+  const outMessages = walletMessages.map((message) => messageSummary(message, testOnly)).filter((message): message is EmulatedMessage => message !== null);
+  let complete = true;
+  if (walletExternal && !walletTransaction) {
+    complete = false;
+    warnings.push('The wallet rejected the external message; check valid_until, the message count and the wallet balance.');
+  } else if (outMessages.length < transaction.messages.length) {
+    complete = false;
+    warnings.push(`Only ${outMessages.length} of ${transaction.messages.length} messages would be sent; the wallet balance is probably insufficient.`);
+  }
+
+  const balanceChanges: BalanceChange[] = [];
+  for (const [key, address] of touched) {
+    const before = BigInt(states.get(key)?.balance ?? '0');
+    const after = (await blockchain.getContract(address)).balance;
+    balanceChanges.push({
+      address: address.toString({ testOnly }),
+      before: describeAmount(before, TON_UNIT),
+      after: describeAmount(after, TON_UNIT),
+      change: {
+        raw: (after - before).toString(),
+        formatted: `${after < before ? '-' : '+'}${formatAmount(after < before ? before - after : after - before, TON_UNIT)}`,
+      },
+    });
+  }
+
+  return {
+    success: complete && summaries.every((summary) => summary.success && !summary.bounced),
+    walletVersion: walletExternal?.wallet.version ?? null,
+    totalFees: describeAmount(totalFees, TON_UNIT),
+    outMessages,
+    transactions: summaries,
+    balanceChanges,
+    warnings,
+  };
+}
@@ -0,0 +1,218 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Streamable HTTP transport. Every MCP session gets its own server instance,
+ * created on initialize and closed when the client ends the session, or when
+ * it has been idle too long. Clients that just disappear are swept that way.
+ */
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpSession {
+  server: McpServer;
+  /** Release what the session held (wallet connections) */
+  close(): Promise<void>;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token every request must carry */
+  token: string;
+  createSession(sessionId: string): HttpSession;
+  /** Sessions without requests for this long are closed. Default: 30 minutes */
+  sessionIdleTimeoutMs?: number;
+  /** Initialize requests beyond this many open sessions are refused. Default: 100 */
+  maxSessions?: number;
+}
+
+interface OpenSession {
+  transport: StreamableHTTPServerTransport;
+  close(): Promise<void>;
+  lastActivity: number;
+  /** Requests in flight, including open SSE streams; a session is never idle while one is open */
+  activeRequests: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch (error) {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function isInitialization(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions: Map<string, OpenSession> = new Map();
+
+  async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    if (sessions.size >= maxSessions) {
+      await sweepIdleSessions();
+    }
+    if (sessions.size >= maxSessions) {
+      throw new HttpError(503, `Too many open sessions (${maxSessions}). Close a session or try again later.`);
+    }
+
+    const sessionId = randomUUID();
+    const session = options.createSession(sessionId);
+
+    let closed = false;
+    const close = async () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      sessions.delete(sessionId);
+      try {
+        await session.close();
+      } catch (error) {
+        console.error(`[HTTP] Failed to close session ${sessionId}: ${(error as Error).message}`);
+      }
+    };
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, close, lastActivity: Date.now(), activeRequests: 0 });
+      },
+      onsessionclosed: close,
+    });
+    transport.onclose = () => {
+      void close();
+    };
+
+    await session.server.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // A failed initialize never registers the session
+    if (!sessions.has(sessionId)) {
+      await close();
+    }
+  }
+
+  async function sweepIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.activeRequests === 0 && session.lastActivity < cutoff) {
+        console.error(`[HTTP] Closing session ${sessionId} after ${Math.round(idleTimeoutMs / 1000)}s without requests`);
+        await session.transport.close().catch(() => {});
+        await session.close();
+      }
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_HTTP_PATH) {
+      throw new HttpError(404, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}`);
+    }
+    if (!isAuthorized(req, options.token)) {
+      sendError(res, 401, 'Unauthorized: missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        throw new HttpError(404, 'Session not found. Initialize a new session.');
+      }
+      session.activeRequests++;
+      res.once('close', () => {
+        session.activeRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitialization(body)) {
+      throw new HttpError(400, 'Bad request: no session ID. Start with an initialize request.');
+    }
+    await openSession(req, res, body);
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+        return;
+      }
+      console.error(`[HTTP] ${req.method} ${req.url} failed: ${(error as Error).message}`);
+      sendError(res, 500, 'Internal server error');
+    });
+  });
+
+  const sweep = setInterval(() => {
+    sweepIdleSessions().catch((error) => console.error(`[HTTP] Session sweep failed: ${(error as Error).message}`));
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+  server.once('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  return server;
+}
@@ -1,721 +1,3488 @@
 #!/usr/bin/env node
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { join } from 'node:path';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import TonConnect, { UserRejectsError, isWalletInfoRemote, isWalletInfoInjectable } from '@tonconnect/sdk';
-import { MemoryStorage } from './storage.js';
-import { beginCell, Address } from '@ton/ton';
-
-const DEFAULT_MANIFEST_URL = 'https://app.palette.finance/tonconnect-manifest.json';
-const MANIFEST_URL = process.env.TONCONNECT_MANIFEST_URL || DEFAULT_MANIFEST_URL;
+import { UserRejectsError, isWalletInfoRemote, isWalletInfoInjectable, type SendTransactionRequest, type SignDataPayload, type WalletInfo } from '@tonconnect/sdk';
+import { createStorage, FileStorage, NamespacedStorage } from './storage.js';
+import { DEFAULT_SESSION, WalletManager, type WalletSession } from './wallet-manager.js';
+import {
+  ADDRESS_BOOK_FILE,
+  AUDIT_LOG_FILE,
+  CONFIRMATION_POLL_INTERVAL_MS,
+  CONFIRMATION_TIMEOUT_SECONDS,
+  DEFAULT_MANIFEST_URL,
+  MANIFEST_URL,
+  POLICY_FILE,
+  PROOF_ALLOWED_DOMAINS,
+  PROOF_MAX_AGE_SECONDS,
+  STORAGE_CONFIG,
+  TON_API_CACHE_TTL_SECONDS,
+  TON_API_KEY,
+  TON_API_URL,
+  TON_NETWORK,
+  TRANSPORT_CONFIG,
+  WALLETS_CACHE_TTL_SECONDS,
+  WALLETS_LIST_URL,
+} from './config.js';
+import { generateProofPayload, verifyTonProof } from './ton-proof.js';
+import { verifySignedData } from './sign-data.js';
+import {
+  describeSubmission,
+  getMaxMessages,
+  prepareMessage,
+  submitTransaction,
+  summarizeMessage,
+  totalAmount,
+  type TransactionMessageInput,
+} from './transaction.js';
+import { CachedChainProvider, ToncenterProvider } from './chain-provider.js';
+import { getAccountBalances, getAccountStateInfo } from './balances.js';
+import { describeAmount, formatAmount, parseAmount, parseTonAmount, TON_UNIT, type AmountUnit } from './amounts.js';
+import { buildOffchainContent, getJettonMetadata } from './jetton-metadata.js';
+import {
+  buildJettonBurnBody,
+  buildJettonChangeAdminBody,
+  buildJettonChangeContentBody,
+  buildJettonMintBody,
+  buildJettonTransferBody,
+  getJettonBalance,
+  getJettonMinterData,
+  getJettonWalletAddress,
+  KNOWN_JETTONS,
+  resolveJettonMaster,
+} from './jettons.js';
+import { getExternalMessageHashes, getTransactionStatus, waitForTransaction, type WaitOptions } from './transaction-status.js';
+import { buildTextComment } from './payloads.js';
+import { getTransactionHistory, PaymentWatcher, type PaymentCriteria } from './payments.js';
+import { buildPaymentLinks, parsePaymentLink, type PaymentLinks, type PaymentRequest } from './payment-links.js';
+import { decodeCell, decodePayload } from './payload-decoder.js';
+import { PolicyViolationError, SpendingPolicy } from './policy.js';
+import { describeNetworkMismatch, getNetworkMismatch, NETWORK_CHAINS, parseAnyAddress, parseNetworkAddress } from './network.js';
+import { AUDIT_EVENTS, AUDIT_OUTCOMES, auditEntriesToCsv, AuditLog, type AuditOutcome } from './audit-log.js';
+import { ADDRESS_TYPES, AddressBook, isAddressLabel, normalizeLabel } from './address-book.js';
+import { buildNftTransferBody, getNftData, getNftInfo } from './nfts.js';
+import { renderQrPng, renderQrText } from './qr.js';
+import { emulateTransaction } from './emulation.js';
+import {
+  buildJettonMinterData,
+  buildNftCollectionData,
+  DEPLOY_TEMPLATES,
+  parseCellBoc,
+  prepareDeployment,
+} from './contracts.js';
+import {
+  findWallet,
+  GENERIC_UNIVERSAL_LINK,
+  WALLET_FEATURES,
+  WALLET_PLATFORMS,
+  WalletRegistry,
+  walletSupportsFeature,
+  walletSupportsPlatform,
+} from './wallet-discovery.js';
+import { Address, Cell } from '@ton/ton';
+import { randomBytes } from 'node:crypto';
+import { MCP_HTTP_PATH, startHttpServer } from './http-server.js';
 
 // Suppress all console.log output to prevent JSON-RPC corruption
 // TON Connect SDK may log to stdout, which breaks MCP protocol
 const originalConsoleLog = console.log;
 console.log = () => {}; // Suppress stdout logging
 
-// Create single TON Connect instance
-const storage = new MemoryStorage();
-const connector = new TonConnect({
-  manifestUrl: MANIFEST_URL,
-  storage,
-});
-
-// Set up event listeners to prevent unhandled events from being logged
-connector.onStatusChange((walletInfo) => {
-  // Silently handle status changes
-  // Log to stderr only if needed for debugging
-  if (process.env.DEBUG_TON_CONNECT) {
-    console.error('[TON Connect] Status changed:', walletInfo ? 'connected' : 'disconnected');
-  }
-});
+// Every wallet interaction is recorded, in AUDIT_LOG_FILE or in memory
+const auditLog = new AuditLog(AUDIT_LOG_FILE);
+
+// Wallet sessions share one storage backend, each under its own namespace
+const storage = createStorage(STORAGE_CONFIG);
+
+// Wallet registry, cached so connecting does not refetch it and works offline
+const walletRegistry = new WalletRegistry(WALLETS_LIST_URL, WALLETS_CACHE_TTL_SECONDS * 1000);
 
-// Try to restore previous connection
-try {
-  await connector.restoreConnection();
-} catch (error) {
-  // Silently ignore restore errors
+// Chain reads go through a toncenter-compatible API; account reads are cached briefly
+const chainProvider = new CachedChainProvider(new ToncenterProvider(TON_API_URL, TON_API_KEY, TON_NETWORK), TON_API_CACHE_TTL_SECONDS * 1000);
+
+// Spending policy is loaded at startup; an invalid policy file stops the server.
+// Its ledger is always kept on disk, so a restart does not reset the daily limits:
+// with the memory backend a file storage is created for the ledger alone (logged at startup).
+const spendingPolicy = POLICY_FILE
+  ? await SpendingPolicy.load(
+      POLICY_FILE,
+      new NamespacedStorage(STORAGE_CONFIG.backend === 'file' ? storage : new FileStorage(STORAGE_CONFIG), 'policy:'),
+      chainProvider,
+      // Servers sharing the storage directory share the ledger, so updates are locked across processes
+      { lockPath: join(STORAGE_CONFIG.dir, 'policy-ledger.lock') }
+    )
+  : undefined;
+
+// Address book labels ("@treasury") are accepted wherever a tool takes an address.
+// The book is shared by every HTTP client, so only a stdio server may change it.
+const addressBook = new AddressBook(ADDRESS_BOOK_FILE, { readOnly: TRANSPORT_CONFIG.mode === 'http' });
+await addressBook.load();
+
+/**
+ * Polling options for tools that can wait for on-chain confirmation
+ */
+function confirmationOptions(timeoutSeconds?: number): WaitOptions {
+  return {
+    timeoutMs: (timeoutSeconds ?? CONFIRMATION_TIMEOUT_SECONDS) * 1000,
+    pollIntervalMs: CONFIRMATION_POLL_INTERVAL_MS,
+  };
 }
 
-// Create MCP server
-const server = new McpServer({
-  name: 'ton-connect-mcp',
-  version: '1.2.1',
-});
+/**
+ * Structured tool error for a request blocked by the spending policy
+ */
+function policyViolationResult(error: PolicyViolationError) {
+  return {
+    content: [{ type: 'text' as const, text: `Blocked by spending policy:\n${JSON.stringify(error, null, 2)}` }],
+    isError: true,
+  };
+}
 
 /**
- * Tool: Get wallet connection status
+ * Emulate a transaction request and report it, with the spending policy verdict
  */
-server.registerTool(
-  'get_wallet_status',
-  {
-    title: 'Get Wallet Status',
-    description: 'Check if a wallet is connected and get wallet information',
-    inputSchema: {},
-  },
-  async () => {
+async function emulationToolResult(transaction: SendTransactionRequest, sender: Address, publicKey?: string): Promise<CallToolResult> {
+  const emulation = await emulateTransaction(chainProvider, transaction, { sender, publicKey });
+
+  let policy: unknown = null;
+  if (spendingPolicy) {
     try {
-      if (!connector.connected) {
-        return {
-          content: [{ 
-            type: 'text', 
-            text: 'Wallet not connected. Use connect_wallet to establish a connection first.' 
-          }],
-          isError: true,
-        };
+      await spendingPolicy.check(transaction, sender);
+      policy = { allowed: true };
+    } catch (error) {
+      if (!(error instanceof PolicyViolationError)) {
+        throw error;
       }
+      policy = error.toJSON();
+    }
+  }
 
-      const account = connector.wallet?.account;
-      if (!account) {
-        return {
-          content: [{ 
-            type: 'text', 
-            text: 'Wallet connected but account information unavailable.' 
-          }],
-          isError: true,
-        };
-      }
+  const headline = emulation.success
+    ? 'Emulation succeeded. Nothing was sent to the wallet.'
+    : 'Emulation predicts a failure or bounce - see warnings. Nothing was sent to the wallet.';
+  return {
+    content: [{ 
+      type: 'text', 
+      text: `${headline}\n\n${JSON.stringify({ ...emulation, ...(policy !== null && { policy }) }, null, 2)}` 
+    }],
+  };
+}
 
-      const output = {
-        connected: true,
-        address: account.address,
-        chain: account.chain,
-        wallet: connector.wallet?.device?.appName || 'Unknown',
-        publicKey: account.publicKey,
-      };
+// Addresses shown to the user carry the test-only flag on testnet
+const ADDRESS_FORMAT = { testOnly: TON_NETWORK === 'testnet' };
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
-      };
+const sessionSchema = z.string().optional().describe(`Wallet session name, for working with several wallets at once (e.g., "treasury", "ops"). Default: "${DEFAULT_SESSION}"`);
+
+/**
+ * Address parameter that also takes an address book label. "@label" is replaced
+ * by the saved address during validation, so handlers only ever see addresses.
+ */
+function addressSchema() {
+  return z.string().transform((value, ctx) => {
+    if (!isAddressLabel(value)) {
+      return value;
+    }
+
+    try {
+      const entry = addressBook.get(value);
+      if (!entry) {
+        throw new Error(`Unknown address book label "${value.trim()}". Use list_addresses to see saved labels.`);
+      }
+      if (entry.network && entry.network !== TON_NETWORK) {
+        throw new Error(`Label "@${entry.label}" is saved for ${entry.network}, but this server is configured for ${TON_NETWORK}.`);
+      }
+      return entry.address;
     } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Error: ${err.message}` }],
-        isError: true,
-      };
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      return z.NEVER;
+    }
+  });
+}
+
+const CURRENT_WALLET_URI = 'ton://wallet/current';
+
+function sessionResourceUri(sessionId: string): string {
+  return `ton://wallet/session/${sessionId}`;
+}
+
+function paymentWatchResourceUri(watchId: string): string {
+  return `ton://payments/watch/${watchId}`;
+}
+
+/**
+ * Connection state of a session as exposed in wallet resources
+ */
+function describeConnection(sessionId: string, walletSession: WalletSession | undefined) {
+  const state = walletSession?.state;
+  return {
+    session: sessionId,
+    status: state?.status ?? 'idle',
+    network: TON_NETWORK,
+    wallet: state?.wallet ?? null,
+    address: state?.address ?? null,
+    chain: state?.chain ?? null,
+    features: state?.features ?? null,
+    error: state?.error ?? null,
+    updatedAt: state ? new Date(state.timestamp).toISOString() : null,
+    events: (walletSession?.events ?? []).map((event) => ({
+      status: event.status,
+      timestamp: new Date(event.timestamp).toISOString(),
+      ...(event.wallet && { wallet: event.wallet }),
+      ...(event.address && { address: event.address }),
+      ...(event.error && { error: event.error }),
+    })),
+  };
+}
+
+/**
+ * Message parameters shared by send_transaction and estimate_transaction
+ */
+const transferInputSchema = {
+  to: addressSchema().optional().describe('Recipient address in user-friendly format (e.g., EQD... or UQD... or 0:...) or an address book @label. Required unless "messages" is used'),
+  amount: z.string().optional().describe('Amount in nanoTON (e.g., "1000000000") or in TON with unit (e.g., "1.5 TON"). Required unless "messages" is used'),
+  payload: z.string().optional().describe('Optional base64-encoded BOC payload for smart contract interactions, jetton transfers, etc.'),
+  state_init: z.string().optional().describe('Optional base64-encoded state init for contract deployment'),
+  valid_until: z.number().optional().describe('Transaction expiration timestamp in Unix seconds. Defaults to 5 minutes from now'),
+  comment: z.string().optional().describe('Optional text comment (will be converted to payload automatically). Long comments are supported'),
+  encryption_public_key: z.string().optional().describe('Recipient wallet public key (64 hex characters). When set, the comment is sent encrypted so only the recipient can read it'),
+  messages: z.array(z.object({
+    to: addressSchema().describe('Recipient address or @label'),
+    amount: z.string().describe('Amount in nanoTON (e.g., "1000000000") or in TON with unit (e.g., "1.5 TON")'),
+    payload: z.string().optional().describe('Optional base64-encoded BOC payload'),
+    state_init: z.string().optional().describe('Optional base64-encoded state init'),
+    comment: z.string().optional().describe('Optional text comment'),
+    encryption_public_key: z.string().optional().describe('Recipient public key (hex) to encrypt the comment for'),
+  })).min(1).optional().describe('Several messages sent in one transaction (batch payouts). Up to 4, or the maxMessages advertised by the wallet. Replaces to/amount/payload/state_init/comment'),
+};
+
+/**
+ * Turn transferInputSchema parameters into message inputs, or an error text
+ */
+function resolveMessageInputs(params: {
+  to?: string;
+  amount?: string;
+  payload?: string;
+  state_init?: string;
+  comment?: string;
+  encryption_public_key?: string;
+  messages?: TransactionMessageInput[];
+}): TransactionMessageInput[] | string {
+  const { to, amount, payload, state_init, comment, encryption_public_key, messages } = params;
+  if (messages) {
+    if (to || amount || payload || state_init || comment || encryption_public_key) {
+      return 'Use either "messages" or to/amount/payload/state_init/comment, not both.';
     }
+    return messages;
+  }
+  if (!to || !amount) {
+    return 'Parameters "to" and "amount" are required unless "messages" is used.';
   }
-);
+  return [{ to, amount, payload, state_init, comment, encryption_public_key }];
+}
 
 /**
- * Tool: List available wallets
+ * Jetton amount in smallest units. Amounts with a symbol need the jetton's unit from its metadata.
  */
-server.registerTool(
-  'list_wallets',
-  {
-    title: 'List Available Wallets',
-    description: 'Get list of all available TON wallets that can be connected via TON Connect protocol',
-    inputSchema: {},
-  },
-  async () => {
-    try {
-      const wallets = await TonConnect.getWallets();
-      
-      if (!wallets || wallets.length === 0) {
-        return {
-          content: [{ 
-            type: 'text', 
-            text: 'No wallets available. Unable to fetch wallet list from TON Connect.' 
-          }],
-          isError: true,
-        };
-      }
+function parseJettonUnits(value: string, unit: AmountUnit | null): bigint {
+  if (unit) {
+    return parseAmount(value, unit);
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  throw new Error(`Invalid jetton amount: "${value}". Use smallest units, or pass jetton_master_address to use amounts like "25 USDT".`);
+}
 
-      const walletList = wallets.map((w) => {
-        const baseInfo = {
-          name: w.name,
-          imageUrl: w.imageUrl,
-          appName: w.appName,
-        };
+/**
+ * Parse an ISO date or Unix seconds
+ */
+function parseTime(value: string): Date {
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time: "${value}". Use an ISO date or Unix seconds.`);
+  }
+  return date;
+}
+
+/**
+ * MCP server with every tool and resource, bound to one client's wallet sessions
+ */
+function createServer(walletManager: WalletManager, auditLog: AuditLog): McpServer {
+  const server = new McpServer(
+    {
+      name: 'ton-connect-mcp',
+      version: '1.2.1',
+    },
+    {
+      // Wallet and payment resources can be subscribed to for updates; arrived payments are also logged
+      capabilities: { resources: { subscribe: true, listChanged: true }, logging: {} },
+    }
+  );
 
-        if (isWalletInfoRemote(w)) {
+  /**
+   * Tool: Get wallet connection status
+   */
+  server.registerTool(
+    'get_wallet_status',
+    {
+      title: 'Get Wallet Status',
+      description: 'Check if a wallet is connected and get wallet information',
+      inputSchema: {
+        session: sessionSchema,
+      },
+    },
+    async ({ session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const walletSession = walletManager.findSession(sessionId);
+        const connector = walletSession?.connector;
+        if (!connector?.connected) {
+          const reason = walletSession?.state.status === 'error' ? ` ${walletSession.state.error}` : '';
           return {
-            ...baseInfo,
-            type: 'remote',
-            universalLink: w.universalLink,
-            deepLink: w.deepLink,
-            bridgeUrl: w.bridgeUrl,
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}".${reason} Use connect_wallet to establish a connection first.` 
+            }],
+            isError: true,
           };
         }
-        
-        if (isWalletInfoInjectable(w)) {
+
+        const account = connector.wallet?.account;
+        if (!account) {
           return {
-            ...baseInfo,
-            type: 'injected',
-            jsBridgeKey: w.jsBridgeKey,
-            injected: w.injected,
+            content: [{ 
+              type: 'text', 
+              text: 'Wallet connected but account information unavailable.' 
+            }],
+            isError: true,
           };
         }
 
-        return baseInfo;
-      });
-
-      return {
-        content: [{ 
-          type: 'text', 
-          text: JSON.stringify({ count: walletList.length, wallets: walletList }, null, 2) 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Error fetching wallets: ${err.message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+        const output = {
+          session: sessionId,
+          connected: true,
+          address: account.address,
+          chain: account.chain,
+          network: TON_NETWORK,
+          networkMismatch: getNetworkMismatch(connector.wallet, TON_NETWORK),
+          wallet: connector.wallet?.device?.appName || 'Unknown',
+          publicKey: account.publicKey,
+          tonProof: connector.wallet?.connectItems?.tonProof ?? null,
+        };
 
-/**
- * Tool: Initiate wallet connection
- */
-server.registerTool(
-  'connect_wallet',
-  {
-    title: 'Connect Wallet',
-    description: 'Initiate wallet connection. Returns a universal link that the user must open in their wallet app.',
-    inputSchema: {
-      wallet_name: z.string().describe('Name of the wallet to connect (e.g., "Tonkeeper", "MyTonWallet"). Use list_wallets to see available wallets.'),
-    },
-  },
-  async ({ wallet_name }) => {
-    try {
-      await connector.restoreConnection();
-      
-      if (connector.connected) {
-        const account = connector.wallet?.account;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Wallet already connected: ${account?.address || 'Unknown address'}. Use disconnect_wallet first if you want to connect a different wallet.` 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
+
+  /**
+   * Address given by the user, or the address of the wallet connected in the session
+   */
+  function resolveAccountAddress(address: string | undefined, session: string | undefined): Address {
+    if (address) {
+      return parseNetworkAddress(address, TON_NETWORK, 'address');
+    }
+    const sessionId = WalletManager.resolveSessionId(session);
+    const account = walletManager.findSession(sessionId)?.connector.account;
+    if (!account) {
+      throw new Error(`No address given and no wallet connected in session "${sessionId}". Pass an address or use connect_wallet first.`);
+    }
+    return Address.parse(account.address);
+  }
+
+  /**
+   * Tool: Get balance
+   */
+  server.registerTool(
+    'get_balance',
+    {
+      title: 'Get Balance',
+      description: 'Get the TON balance and all jetton balances (with symbols and decimals) of the connected wallet or any address. Use it to check funds before proposing a transfer.',
+      inputSchema: {
+        address: addressSchema().optional().describe('Address to check. Defaults to the wallet connected in the session'),
+        include_zero: z.boolean().optional().describe('Also list jetton wallets with a zero balance. Default: false'),
+        session: sessionSchema,
+      },
+    },
+    async ({ address, include_zero, session }) => {
+      try {
+        let owner: Address;
+        try {
+          owner = resolveAccountAddress(address, session);
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
 
-      const wallets = await TonConnect.getWallets();
-      
-      if (!wallets || wallets.length === 0) {
+        const balances = await getAccountBalances(chainProvider, owner, { includeZero: include_zero, addressOptions: ADDRESS_FORMAT });
         return {
-          content: [{ 
-            type: 'text', 
-            text: 'No wallets available from TON Connect.' 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(balances, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error reading balance: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
+
+  /**
+   * Tool: Get account state
+   */
+  server.registerTool(
+    'get_account_state',
+    {
+      title: 'Get Account State',
+      description: 'Get the on-chain state of the connected wallet or any address: status (active, uninit, frozen, nonexist), balance, last transaction LT and hash, and the wallet contract version (v1r1 to v4r2, v5beta, v5r1) when it is a standard wallet.',
+      inputSchema: {
+        address: addressSchema().optional().describe('Address to check. Defaults to the wallet connected in the session'),
+        session: sessionSchema,
+      },
+    },
+    async ({ address, session }) => {
+      try {
+        let account: Address;
+        try {
+          account = resolveAccountAddress(address, session);
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
 
-      const selectedWallet = wallets.find((w) => 
-        w.name.toLowerCase() === wallet_name.toLowerCase() || 
-        w.appName.toLowerCase() === wallet_name.toLowerCase()
-      );
-      
-      if (!selectedWallet) {
-        const availableWallets = wallets.map((w) => w.name).join(', ');
+        const state = await getAccountStateInfo(chainProvider, account, ADDRESS_FORMAT);
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Wallet "${wallet_name}" not found. Available wallets: ${availableWallets}` 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(state, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error reading account state: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      let connectionSource;
-      if (isWalletInfoRemote(selectedWallet)) {
-        connectionSource = { 
-          universalLink: selectedWallet.universalLink, 
-          bridgeUrl: selectedWallet.bridgeUrl 
-        };
-      } else if (isWalletInfoInjectable(selectedWallet)) {
-        connectionSource = { 
-          jsBridgeKey: selectedWallet.jsBridgeKey 
+  /**
+   * Tool: Save an address book entry
+   */
+  server.registerTool(
+    'save_address',
+    {
+      title: 'Save Address',
+      description: 'Save an address under a label in the local address book. Every tool then accepts "@label" in place of that address (e.g., to: "@treasury"). Saving an existing label replaces it. Not available to HTTP clients, for whom the book is read-only.',
+      inputSchema: {
+        label: z.string().describe('Label, 1-64 letters, digits, ".", "_" or "-" (e.g., "treasury"). Case-insensitive'),
+        address: addressSchema().describe('Address to save. User-friendly addresses are kept as given, with their bounceable and testnet flags'),
+        network: z.enum(['mainnet', 'testnet']).optional().describe('Network the address belongs to. The label is refused on the other network. Default: any network'),
+        type: z.enum(ADDRESS_TYPES).optional().describe('What the address is: a wallet, a jetton master, an NFT item or collection, or another contract'),
+        note: z.string().optional().describe('Free-form note'),
+      },
+    },
+    async ({ label, address, network, type, note }) => {
+      try {
+        const entry = await addressBook.save({ label, address, network, type, note }, TON_NETWORK);
+        return {
+          content: [{ type: 'text', text: `Saved "@${entry.label}".\n\n${JSON.stringify(entry, null, 2)}` }],
         };
-      } else {
+      } catch (error) {
+        const err = error as Error;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Wallet "${wallet_name}" has unsupported connection type.` 
-          }],
+          content: [{ type: 'text', text: `Error saving address: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      const universalLink = connector.connect(connectionSource);
-
-      return {
-        content: [{ 
-          type: 'text', 
-          text: `Connection initiated for ${selectedWallet.name}.\n\nOpen this link in your wallet app:\n${universalLink}\n\nAfter approving in your wallet, use get_wallet_status to verify the connection.` 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
+  /**
+   * Tool: List address book entries
+   */
+  server.registerTool(
+    'list_addresses',
+    {
+      title: 'List Addresses',
+      description: 'List the labels saved in the local address book, with their addresses, network, type and note.',
+      inputSchema: {
+        type: z.enum(ADDRESS_TYPES).optional().describe('Only entries of this type'),
+        network: z.enum(['mainnet', 'testnet']).optional().describe('Only entries usable on this network (entries without a network match both)'),
+      },
+    },
+    async ({ type, network }) => {
+      const entries = addressBook
+        .list()
+        .filter((entry) => !type || entry.type === type)
+        .filter((entry) => !network || !entry.network || entry.network === network);
       return {
-        content: [{ type: 'text', text: `Connection error: ${err.message}` }],
-        isError: true,
+        content: [{ type: 'text', text: JSON.stringify({ network: TON_NETWORK, count: entries.length, entries }, null, 2) }],
       };
     }
-  }
-);
+  );
 
-/**
- * Tool: Disconnect wallet
- */
-server.registerTool(
-  'disconnect_wallet',
-  {
-    title: 'Disconnect Wallet',
-    description: 'Disconnect the currently connected wallet',
-    inputSchema: {},
-  },
-  async () => {
-    try {
-      if (!connector.connected) {
+  /**
+   * Tool: Remove an address book entry
+   */
+  server.registerTool(
+    'remove_address',
+    {
+      title: 'Remove Address',
+      description: 'Remove a label from the local address book. Not available to HTTP clients, for whom the book is read-only.',
+      inputSchema: {
+        label: z.string().describe('Label to remove, with or without the leading "@"'),
+      },
+    },
+    async ({ label }) => {
+      try {
+        const removed = await addressBook.remove(label);
         return {
-          content: [{ 
-            type: 'text', 
-            text: 'No wallet connected to disconnect.' 
-          }],
+          content: [{ type: 'text', text: removed ? `Removed "@${normalizeLabel(label)}".` : `No address book entry "${label}".` }],
+          isError: !removed,
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error removing address: ${err.message}` }],
+          isError: true,
         };
       }
+    }
+  );
 
-      await connector.disconnect();
+  /**
+   * Tool: Convert an address between formats
+   */
+  server.registerTool(
+    'convert_address',
+    {
+      title: 'Convert Address',
+      description: 'Show an address in every format: raw (0:...), bounceable (EQ...), non-bounceable (UQ...) and their testnet forms. Checks the account state and warns when the bounce flag does not fit the account: a bounceable address for an undeployed wallet (the transfer bounces back) or a non-bounceable address for a contract (a failed message keeps the funds).',
+      inputSchema: {
+        address: addressSchema().describe('Address in any format, or an address book @label'),
+        check_state: z.boolean().optional().describe('Read the account state to check the bounce flag. Default: true'),
+      },
+    },
+    async ({ address, check_state }) => {
+      try {
+        const value = address.trim();
+        // Accept either network's addresses here; a mismatch is reported as a warning
+        const { address: parsed, flags } = parseAnyAddress(value, 'address');
+        const warnings: string[] = [];
 
-      return {
-        content: [{ 
-          type: 'text', 
-          text: 'Wallet disconnected successfully.' 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Disconnect error: ${err.message}` }],
-        isError: true,
-      };
+        const mismatch = describeNetworkMismatch({ address: parsed, flags }, TON_NETWORK);
+        if (mismatch) {
+          warnings.push(`${mismatch} Tools will refuse the address as given.`);
+        }
+
+        let state: { status: string; walletVersion: string | null } | null = null;
+        let stateError: string | undefined;
+        if (check_state ?? true) {
+          try {
+            const info = await getAccountStateInfo(chainProvider, parsed);
+            state = { status: info.status, walletVersion: info.walletVersion };
+          } catch (error) {
+            stateError = (error as Error).message;
+          }
+        }
+
+        if (state && flags) {
+          const deployed = state.status === 'active' || state.status === 'frozen';
+          if (flags.isBounceable && !deployed) {
+            warnings.push(`Bounceable address for an account that is not deployed (${state.status}). TON sent to it bounces back to the sender. To fund a new wallet, use the non-bounceable form.`);
+          }
+          if (!flags.isBounceable && state.status === 'active' && !state.walletVersion) {
+            warnings.push('Non-bounceable address for a smart contract. If the contract rejects a message, the attached TON stays with it instead of bouncing back. Use the bounceable form.');
+          }
+        }
+
+        const result = {
+          input: value,
+          labels: addressBook.labelsFor(parsed).map((label) => `@${label}`),
+          workchain: parsed.workChain,
+          raw: parsed.toRawString(),
+          bounceable: parsed.toString({ bounceable: true, testOnly: false }),
+          nonBounceable: parsed.toString({ bounceable: false, testOnly: false }),
+          testnetBounceable: parsed.toString({ bounceable: true, testOnly: true }),
+          testnetNonBounceable: parsed.toString({ bounceable: false, testOnly: true }),
+          flags: flags && { bounceable: flags.isBounceable, testOnly: flags.isTestOnly },
+          state,
+          ...(stateError && { stateError }),
+          warnings,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error converting address: ${err.message}` }],
+          isError: true,
+        };
+      }
     }
-  }
-);
+  );
+
+  /**
+   * Tool: List available wallets
+   */
+  server.registerTool(
+    'list_wallets',
+    {
+      title: 'List Available Wallets',
+      description: 'Get list of all available TON wallets that can be connected via TON Connect protocol. The list is cached; a bundled list is used when the registry is unreachable.',
+      inputSchema: {
+        platform: z.enum(WALLET_PLATFORMS).optional().describe('Only wallets available on this platform'),
+        feature: z.enum(WALLET_FEATURES).optional().describe('Only wallets that support this TON Connect feature'),
+      },
+    },
+    async ({ platform, feature }) => {
+      try {
+        const walletList = await walletRegistry.getWallets();
+        const wallets = walletList.wallets.filter((w) =>
+          (!platform || walletSupportsPlatform(w, platform)) &&
+          (!feature || walletSupportsFeature(w, feature))
+        );
+        
+        if (wallets.length === 0) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: platform || feature
+                ? `No wallets match the filters (platform: ${platform ?? 'any'}, feature: ${feature ?? 'any'}).`
+                : 'No wallets available. Unable to fetch wallet list from TON Connect.' 
+            }],
+            isError: true,
+          };
+        }
+
+        const walletInfos = wallets.map((w) => {
+          const baseInfo = {
+            name: w.name,
+            imageUrl: w.imageUrl,
+            appName: w.appName,
+            platforms: w.platforms,
+            features: (w.features ?? []).map((f) => (typeof f === 'string' ? f : f.name)),
+          };
+
+          if (isWalletInfoRemote(w)) {
+            return {
+              ...baseInfo,
+              type: 'remote',
+              universalLink: w.universalLink,
+              deepLink: w.deepLink,
+              bridgeUrl: w.bridgeUrl,
+            };
+          }
+          
+          if (isWalletInfoInjectable(w)) {
+            return {
+              ...baseInfo,
+              type: 'injected',
+              jsBridgeKey: w.jsBridgeKey,
+              injected: w.injected,
+            };
+          }
+
+          return baseInfo;
+        });
 
-/**
- * Tool: Send transaction with payload support
- */
-server.registerTool(
-  'send_transaction',
-  {
-    title: 'Send Transaction',
-    description: 'Send TON transactions with optional payloads. Supports simple transfers, jetton transfers, NFT operations, and custom smart contract calls.',
-    inputSchema: {
-      to: z.string().describe('Recipient address in user-friendly format (e.g., EQD... or UQD... or 0:...)'),
-      amount: z.string().describe('Amount in nanoTON as a string (1 TON = 1,000,000,000 nanoTON). Example: "1000000000" for 1 TON'),
-      payload: z.string().optional().describe('Optional base64-encoded BOC payload for smart contract interactions, jetton transfers, etc.'),
-      state_init: z.string().optional().describe('Optional base64-encoded state init for contract deployment'),
-      valid_until: z.number().optional().describe('Transaction expiration timestamp in Unix seconds. Defaults to 5 minutes from now'),
-      comment: z.string().optional().describe('Optional text comment (will be converted to payload automatically)'),
-    },
-  },
-  async ({ to, amount, payload, state_init, valid_until, comment }) => {
-    try {
-      if (!connector.connected) {
         return {
           content: [{ 
             type: 'text', 
-            text: 'Wallet not connected. Use connect_wallet to establish a connection first.' 
+            text: JSON.stringify({
+              count: walletInfos.length,
+              source: walletList.source,
+              fetchedAt: walletList.fetchedAt ? new Date(walletList.fetchedAt).toISOString() : null,
+              registryError: walletList.error,
+              wallets: walletInfos,
+            }, null, 2) 
           }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error fetching wallets: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
+
+  /**
+   * Tool: Initiate wallet connection
+   */
+  server.registerTool(
+    'connect_wallet',
+    {
+      title: 'Connect Wallet',
+      description: 'Initiate wallet connection. Returns a universal link that the user must open in their wallet app. Wallets outside the registry can be reached with bridge_url.',
+      inputSchema: {
+        wallet_name: z.string().optional().describe('Name of the wallet to connect (e.g., "Tonkeeper", "MyTonWallet"). Use list_wallets to see available wallets. Required unless bridge_url is given'),
+        bridge_url: z.string().url().optional().describe('HTTP bridge URL of a wallet that is not in the registry (or to override a listed wallet\'s bridge)'),
+        universal_link: z.string().optional().describe(`Universal link for bridge_url. Defaults to the listed wallet's link, or ${GENERIC_UNIVERSAL_LINK} which any TON Connect wallet can open`),
+        request_proof: z.boolean().optional().describe('Request a ton_proof signature proving address ownership. A random nonce is generated unless proof_payload is given'),
+        proof_payload: z.string().optional().describe('Custom ton_proof payload (e.g., a nonce issued by your backend). Implies request_proof'),
+        qr_text: z.boolean().optional().describe('Also return the QR code drawn with Unicode characters, for terminals that cannot show images'),
+        session: sessionSchema,
+      },
+    },
+    async ({ wallet_name, bridge_url, universal_link, request_proof, proof_payload, qr_text, session }) => {
+      try {
+        const walletSession = await walletManager.getSession(session);
+        const connector = walletSession.connector;
+        await connector.restoreConnection();
+        
+        if (connector.connected) {
+          const account = connector.wallet?.account;
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet already connected in session "${walletSession.id}": ${account?.address || 'Unknown address'}. Use disconnect_wallet first, or pass a different session name to connect another wallet.` 
+            }],
+            isError: true,
+          };
+        }
+
+        if (!wallet_name && !bridge_url) {
+          return {
+            content: [{ type: 'text', text: 'Provide wallet_name, or bridge_url for a wallet that is not in the registry.' }],
+            isError: true,
+          };
+        }
+
+        let selectedWallet: WalletInfo | undefined;
+        if (wallet_name) {
+          const { wallets } = await walletRegistry.getWallets();
+          const match = findWallet(wallets, wallet_name);
+          selectedWallet = match.wallet;
+
+          // An unknown name is fine with a custom bridge, it only labels the connection
+          if (!selectedWallet && !bridge_url) {
+            const hint = match.suggestions.length > 0
+              ? `Did you mean: ${match.suggestions.join(', ')}?`
+              : `Available wallets: ${wallets.map((w) => w.name).join(', ')}`;
+            return {
+              content: [{ 
+                type: 'text', 
+                text: `Wallet "${wallet_name}" not found. ${hint}` 
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        let walletLabel: string;
+        let connectionSource;
+        if (bridge_url) {
+          if (!/^https?:$/.test(new URL(bridge_url).protocol)) {
+            return {
+              content: [{ type: 'text', text: 'bridge_url must be an http(s) URL.' }],
+              isError: true,
+            };
+          }
+          walletLabel = selectedWallet?.name ?? wallet_name ?? new URL(bridge_url).host;
+          connectionSource = {
+            universalLink: universal_link
+              ?? (selectedWallet && isWalletInfoRemote(selectedWallet) ? selectedWallet.universalLink : GENERIC_UNIVERSAL_LINK),
+            bridgeUrl: bridge_url,
+          };
+        } else if (selectedWallet && isWalletInfoRemote(selectedWallet)) {
+          walletLabel = selectedWallet.name;
+          connectionSource = { 
+            universalLink: universal_link ?? selectedWallet.universalLink, 
+            bridgeUrl: selectedWallet.bridgeUrl 
+          };
+        } else if (selectedWallet && isWalletInfoInjectable(selectedWallet)) {
+          walletLabel = selectedWallet.name;
+          connectionSource = { 
+            jsBridgeKey: selectedWallet.jsBridgeKey 
+          };
+        } else {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet "${wallet_name}" has unsupported connection type.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const tonProofPayload = proof_payload || (request_proof ? generateProofPayload() : undefined);
+        walletSession.proofPayload = tonProofPayload;
 
-      // Validate amount
-      if (!/^\d+$/.test(amount)) {
+        const universalLink = connector.connect(
+          connectionSource,
+          tonProofPayload ? { tonProof: tonProofPayload } : undefined
+        );
+        walletManager.markPending(walletSession, walletLabel);
+        await auditLog.record({
+          event: 'connect',
+          outcome: 'requested',
+          session: walletSession.id,
+          details: { wallet: walletLabel, bridgeUrl: bridge_url ?? null, tonProof: tonProofPayload ?? null },
+        });
+
+        let text = `Connection initiated for ${walletLabel} on ${TON_NETWORK} (session "${walletSession.id}").\n\nOpen this link in your wallet app, or scan the QR code with your phone:\n${universalLink}\n\nThen use await_connection to wait for the approval (or get_wallet_status to check).`;
+        if (tonProofPayload) {
+          text += `\n\nton_proof requested with payload: ${tonProofPayload}\nOnce approved, use sign_proof to get the signed proof and verify_ton_proof to check it.`;
+        }
+
+        const content: CallToolResult['content'] = [{ type: 'text', text }];
+        // Injected (browser extension) wallets have no link to scan
+        if (universalLink) {
+          content.push({ type: 'image', data: await renderQrPng(universalLink), mimeType: 'image/png' });
+          if (qr_text) {
+            content.push({ type: 'text', text: await renderQrText(universalLink) });
+          }
+        }
+
+        return { content };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Connection error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Disconnect wallet
+   */
+  server.registerTool(
+    'disconnect_wallet',
+    {
+      title: 'Disconnect Wallet',
+      description: 'Disconnect the wallet connected in a session and remove the session',
+      inputSchema: {
+        session: sessionSchema,
+      },
+    },
+    async ({ session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const walletSession = walletManager.findSession(sessionId);
+        if (!walletSession?.connector.connected) {
+          await walletManager.removeSession(sessionId);
+          notifySessionListChanged();
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `No wallet connected to disconnect in session "${sessionId}".` 
+            }],
+          };
+        }
+
+        await walletManager.removeSession(sessionId);
+        notifySessionListChanged();
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Wallet disconnected successfully from session "${sessionId}".` 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Disconnect error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: List wallet sessions
+   */
+  server.registerTool(
+    'list_sessions',
+    {
+      title: 'List Wallet Sessions',
+      description: 'List all named wallet sessions and the wallet connected in each of them',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const sessions = walletManager.listSessions().map((walletSession) => {
+          const wallet = walletSession.connector.wallet;
+          return {
+            session: walletSession.id,
+            connected: walletSession.connector.connected,
+            address: wallet?.account.address ?? null,
+            chain: wallet?.account.chain ?? null,
+            wallet: wallet?.device.appName ?? null,
+            createdAt: new Date(walletSession.createdAt).toISOString(),
+          };
+        });
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: JSON.stringify({ count: sessions.length, sessions }, null, 2) 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error listing sessions: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  function connectionResource(uri: string, sessionId: string) {
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(describeConnection(sessionId, walletManager.findSession(sessionId)), null, 2),
+      }],
+    };
+  }
+
+  /**
+   * Resource: Wallet of the default session
+   */
+  server.registerResource(
+    'current-wallet',
+    CURRENT_WALLET_URI,
+    {
+      title: 'Current Wallet',
+      description: `Connection state of the "${DEFAULT_SESSION}" session: pending, connected, disconnected or error, with the wallet address and features. Subscribe to get notified on changes.`,
+      mimeType: 'application/json',
+    },
+    async (uri) => connectionResource(uri.href, DEFAULT_SESSION)
+  );
+
+  /**
+   * Resource: Wallet of a named session
+   */
+  server.registerResource(
+    'session-wallet',
+    new ResourceTemplate('ton://wallet/session/{session}', {
+      list: async () => ({
+        resources: walletManager.listSessions().map((walletSession) => ({
+          uri: sessionResourceUri(walletSession.id),
+          name: `Wallet session "${walletSession.id}"`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Session Wallet',
+      description: 'Connection state of a named wallet session. Subscribe to get notified on changes.',
+      mimeType: 'application/json',
+    },
+    async (uri, { session }) => connectionResource(uri.href, WalletManager.resolveSessionId(String(session)))
+  );
+
+  // Resource subscriptions: notify clients when a session's connection state changes
+  const subscribedResources: Set<string> = new Set();
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribedResources.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribedResources.delete(request.params.uri);
+    return {};
+  });
+
+  let knownSessions = '';
+  walletManager.onConnectionEvent((event) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    const uris = [sessionResourceUri(event.session)];
+    if (event.session === DEFAULT_SESSION) {
+      uris.push(CURRENT_WALLET_URI);
+    }
+    for (const uri of uris.filter((uri) => subscribedResources.has(uri))) {
+      server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+    notifySessionListChanged();
+  });
+
+  /**
+   * Tell clients the list of session resources changed, if it did
+   */
+  function notifySessionListChanged(): void {
+    const sessions = walletManager.listSessions().map((walletSession) => walletSession.id).join(',');
+    if (sessions !== knownSessions && server.isConnected()) {
+      knownSessions = sessions;
+      server.sendResourceListChanged();
+    }
+  }
+
+  // Payment watches poll in the background and notify when a payment arrives
+  const paymentWatcher = new PaymentWatcher(chainProvider, CONFIRMATION_POLL_INTERVAL_MS, ADDRESS_FORMAT);
+  server.server.onclose = () => paymentWatcher.stop();
+  paymentWatcher.onUpdate((watch) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    const uri = paymentWatchResourceUri(watch.id);
+    if (subscribedResources.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+    if (watch.status === 'received') {
+      server.sendLoggingMessage({ level: 'notice', logger: 'payments', data: { event: 'payment_received', uri, watch } }).catch(() => {});
+    }
+  });
+
+  /**
+   * Resource: Payment watch
+   */
+  server.registerResource(
+    'payment-watch',
+    new ResourceTemplate('ton://payments/watch/{id}', {
+      list: async () => ({
+        resources: paymentWatcher.list().map((watch) => ({
+          uri: paymentWatchResourceUri(watch.id),
+          name: `Payment watch for ${watch.amount.formatted}${watch.comment ? ` "${watch.comment}"` : ''} (${watch.status})`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Payment Watch',
+      description: 'State of a payment started with watch_payments: watching, received (with the matching transaction) or expired. Subscribe to get notified when the payment arrives.',
+      mimeType: 'application/json',
+    },
+    async (uri, { id }) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(paymentWatcher.get(String(id)) ?? { error: `Unknown payment watch "${id}"` }, null, 2),
+      }],
+    })
+  );
+
+  /**
+   * Tool: Wait for wallet approval
+   */
+  server.registerTool(
+    'await_connection',
+    {
+      title: 'Await Connection',
+      description: 'Wait until the user approves (or rejects) the connection started with connect_wallet, or until the timeout passes. Use this instead of polling get_wallet_status.',
+      inputSchema: {
+        timeout: z.number().int().positive().max(600).optional().describe('Seconds to wait. Default: 120'),
+        session: sessionSchema,
+      },
+    },
+    async ({ timeout, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const walletSession = walletManager.findSession(sessionId);
+        if (!walletSession || (walletSession.state.status !== 'pending' && !walletSession.connector.connected)) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `No connection in progress in session "${sessionId}". Use connect_wallet first.` 
+            }],
+            isError: true,
+          };
+        }
+
+        if (walletSession.state.status === 'pending') {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(done, (timeout ?? 120) * 1000);
+            const unsubscribe = walletManager.onConnectionEvent((event) => {
+              if (event.session === sessionId && event.status !== 'pending') {
+                done();
+              }
+            });
+            function done() {
+              clearTimeout(timer);
+              unsubscribe();
+              resolve();
+            }
+          });
+        }
+
+        const state = describeConnection(sessionId, walletSession);
+        let text = JSON.stringify(state, null, 2);
+        if (state.status === 'pending') {
+          text += `\n\nThe wallet has not approved the connection yet. The link is still valid - call await_connection again to keep waiting.`;
+        }
+        return {
+          content: [{ type: 'text', text }],
+          isError: state.status === 'error',
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Send transaction with payload support
+   */
+  server.registerTool(
+    'send_transaction',
+    {
+      title: 'Send Transaction',
+      description: 'Send TON transactions with optional payloads. Supports simple transfers, jetton transfers, NFT operations, and custom smart contract calls. Use "messages" to send to several recipients with a single wallet approval. Use "preview" to show the user the decoded messages before they reach the wallet.',
+      inputSchema: {
+        ...transferInputSchema,
+        preview: z.boolean().optional().describe('Return the decoded messages (amounts, comments, jetton and NFT payloads) without sending anything. Nothing reaches the wallet'),
+        dry_run: z.boolean().optional().describe('Emulate the transaction instead of sending it: fees, outgoing messages, bounces and balance changes. Nothing reaches the wallet'),
+        wait_for_confirmation: z.boolean().optional().describe('Wait until the transaction is found on-chain and finalized (or the timeout passes) before returning'),
+        confirmation_timeout: z.number().int().positive().optional().describe(`Seconds to wait for confirmation. Default: ${CONFIRMATION_TIMEOUT_SECONDS}`),
+        session: sessionSchema,
+      },
+    },
+    async ({ to, amount, payload, state_init, valid_until, comment, encryption_public_key, messages, preview, dry_run, wait_for_confirmation, confirmation_timeout, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        if (!connector?.connected) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const inputs = resolveMessageInputs({ to, amount, payload, state_init, comment, encryption_public_key, messages });
+        if (typeof inputs === 'string') {
+          return {
+            content: [{ type: 'text', text: inputs }],
+            isError: true,
+          };
+        }
+
+        const maxMessages = getMaxMessages(connector.wallet);
+        if (inputs.length > maxMessages) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Too many messages: ${inputs.length}. The connected wallet accepts at most ${maxMessages} messages per transaction.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const sender = connector.wallet ? Address.parse(connector.wallet.account.address) : undefined;
+        const transactionMessages = inputs.map((input, index) => prepareMessage(input, index, { sender, network: TON_NETWORK }));
+        const total = totalAmount(transactionMessages);
+        if (total === 0n) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'Total amount is zero. At least one message must carry a non-zero amount.' 
+            }],
+            isError: true,
+          };
+        }
+
+        const validUntil = valid_until || Math.floor(Date.now() / 1000) + 300;
+
+        const transaction = {
+          validUntil,
+          network: NETWORK_CHAINS[TON_NETWORK],
+          messages: transactionMessages,
+        };
+
+        // What the user is asked to approve, with payloads decoded
+        const summary = {
+          messageCount: inputs.length,
+          totalAmount: describeAmount(total, TON_UNIT),
+          messages: inputs.map(summarizeMessage),
+        };
+
+        if (preview) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Preview only. Nothing was sent to the wallet; call again without "preview" to send.\n\n${JSON.stringify(summary, null, 2)}` 
+            }],
+          };
+        }
+
+        if (dry_run && sender) {
+          return await emulationToolResult(transaction, sender, connector.account?.publicKey);
+        }
+
+        try {
+          const submitted = await submitTransaction(
+            connector,
+            chainProvider,
+            transaction,
+            {
+              confirm: wait_for_confirmation ? confirmationOptions(confirmation_timeout) : undefined,
+              policy: spendingPolicy,
+              audit: { log: auditLog, session: sessionId },
+              // Lets the client show the decoded request while the wallet waits for approval
+              onPending: () => server
+                .sendLoggingMessage({ level: 'notice', logger: 'transactions', data: { event: 'approval_requested', session: sessionId, ...summary } })
+                .catch(() => {}),
+            }
+          );
+          
+          let details = `Transaction sent successfully from session "${sessionId}"!\n\nBOC: ${submitted.boc}\n`;
+          if (inputs.length === 1) {
+            const [message] = inputs;
+            details += `Amount: ${formatAmount(total, TON_UNIT)} (${total} nanoTON)\n`;
+            if (message.comment) {
+              details += `Comment${message.encryption_public_key ? ' (encrypted)' : ''}: "${message.comment}"\n`;
+            }
+            if (message.payload) {
+              details += `Custom payload:\n${JSON.stringify(decodePayload(message.payload), null, 2)}\n`;
+            }
+            if (message.state_init) {
+              details += `Contract deployment included\n`;
+            }
+          } else {
+            details += `\n${JSON.stringify(summary, null, 2)}\n`;
+          }
+          details += describeSubmission(submitted);
+          
+          return {
+            content: [{ 
+              type: 'text', 
+              text: details
+            }],
+            isError: submitted.confirmation?.status === 'failed',
+          };
+        } catch (error) {
+          if (error instanceof UserRejectsError) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: 'Transaction rejected by user in their wallet.' 
+              }],
+              isError: true,
+            };
+          }
+          if (error instanceof PolicyViolationError) {
+            return policyViolationResult(error);
+          }
+          throw error;
+        }
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Transaction error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Estimate transaction
+   */
+  server.registerTool(
+    'estimate_transaction',
+    {
+      title: 'Estimate Transaction',
+      description: 'Emulate a transaction locally before asking the user to sign: runs the wallet and every resulting message in a TVM sandbox against current account states. Reports fees, outgoing messages, failures, bounces and balance changes, so gas and forward amounts can be sized. Takes the same message parameters as send_transaction.',
+      inputSchema: {
+        ...transferInputSchema,
+        from: addressSchema().optional().describe('Wallet to emulate as. Defaults to the wallet connected in the session'),
+        session: sessionSchema,
+      },
+    },
+    async ({ to, amount, payload, state_init, valid_until, comment, encryption_public_key, messages, from, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const account = walletManager.findSession(sessionId)?.connector.account ?? null;
+
+        let sender: Address;
+        try {
+          if (from) {
+            sender = parseNetworkAddress(from, TON_NETWORK, 'from address');
+          } else if (account) {
+            sender = Address.parse(account.address);
+          } else {
+            throw new Error(`Wallet not connected in session "${sessionId}". Connect a wallet or pass "from".`);
+          }
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const inputs = resolveMessageInputs({ to, amount, payload, state_init, comment, encryption_public_key, messages });
+        if (typeof inputs === 'string') {
+          return {
+            content: [{ type: 'text', text: inputs }],
+            isError: true,
+          };
+        }
+
+        const transaction = {
+          validUntil: valid_until || Math.floor(Date.now() / 1000) + 300,
+          network: NETWORK_CHAINS[TON_NETWORK],
+          messages: inputs.map((input, index) => prepareMessage(input, index, { sender, network: TON_NETWORK })),
+        };
+
+        // The connected wallet's public key saves a get-method call
+        const publicKey = account && Address.parse(account.address).equals(sender) ? account.publicKey : undefined;
+        return await emulationToolResult(transaction, sender, publicKey);
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Estimation error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Get transaction status
+   */
+  server.registerTool(
+    'get_transaction_status',
+    {
+      title: 'Get Transaction Status',
+      description: 'Track a transaction returned by send_transaction: find it on-chain, report success, compute/action phase exit codes, bounces and fees. Optionally wait until it is finalized.',
+      inputSchema: {
+        boc: z.string().optional().describe('Base64 BOC returned by send_transaction'),
+        message_hash: z.string().optional().describe('External message hash (hex) returned by send_transaction, if the BOC is not available'),
+        wait: z.boolean().optional().describe('Poll until the transaction is finalized or the timeout passes'),
+        timeout: z.number().int().positive().optional().describe(`Seconds to wait when "wait" is set. Default: ${CONFIRMATION_TIMEOUT_SECONDS}`),
+      },
+    },
+    async ({ boc, message_hash, wait, timeout }) => {
+      try {
+        if (!boc && !message_hash) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'Provide either "boc" or "message_hash".' 
+            }],
+            isError: true,
+          };
+        }
+
+        const hashes = boc
+          ? getExternalMessageHashes(boc)
+          : { hash: message_hash!, normalizedHash: message_hash! };
+
+        const status = wait
+          ? await waitForTransaction(chainProvider, hashes, confirmationOptions(timeout))
+          : await getTransactionStatus(chainProvider, hashes);
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+          isError: status.status === 'failed',
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Transaction status error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Get transactions
+   */
+  server.registerTool(
+    'get_transactions',
+    {
+      title: 'Get Transactions',
+      description: 'Transaction history of the connected wallet or any address, newest first, with decoded comments, payloads and incoming jetton transfers (symbol, amount, sender, and whether the jetton wallet is genuine). Page with "before_lt".',
+      inputSchema: {
+        address: addressSchema().optional().describe('Address to read. Defaults to the wallet connected in the session'),
+        limit: z.number().int().min(1).max(100).optional().describe('Maximum number of transactions. Default: 20'),
+        before_lt: z.string().regex(/^\d+$/).optional().describe('Only transactions older than this logical time, for paging. Use "nextBeforeLt" from the previous page'),
+        session: sessionSchema,
+      },
+    },
+    async ({ address, limit, before_lt, session }) => {
+      try {
+        let account: Address;
+        try {
+          account = resolveAccountAddress(address, session);
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const pageSize = limit ?? 20;
+        const transactions = await getTransactionHistory(chainProvider, account, { limit: pageSize, beforeLt: before_lt, addressOptions: ADDRESS_FORMAT });
+        const result = {
+          address: account.toString(ADDRESS_FORMAT),
+          count: transactions.length,
+          nextBeforeLt: transactions.length === pageSize ? transactions[transactions.length - 1].lt : null,
+          transactions,
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error reading transactions: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Watch payments
+   */
+  server.registerTool(
+    'watch_payments',
+    {
+      title: 'Watch Payments',
+      description: `Wait for an incoming TON or jetton payment of at least an amount, optionally with an exact comment (memo), e.g. to know when an invoice was paid. The watch keeps polling in the background after the call returns; when the payment arrives a notification is sent and the resource ton://payments/watch/{id} is updated. Call again with "watch_id" to keep waiting.`,
+      inputSchema: {
+        amount: z.string().optional().describe('Minimum amount, in smallest units or with unit (e.g., "1.5 TON", "25 USDT"). Required unless "watch_id" is used'),
+        jetton: addressSchema().optional().describe(`Jetton master address or known symbol (${Object.keys(KNOWN_JETTONS).join(', ')}). Omit for TON payments`),
+        comment: z.string().optional().describe('Comment (memo) the payment must carry exactly, e.g. an invoice id'),
+        address: addressSchema().optional().describe('Receiving address. Defaults to the wallet connected in the session'),
+        since: z.string().optional().describe('Also accept payments made since this time (ISO date or Unix seconds). Default: now'),
+        timeout: z.number().int().positive().max(86400).optional().describe('Seconds the watch keeps polling in the background. Default: 3600'),
+        wait: z.number().int().min(0).max(600).optional().describe('Seconds this call waits for the payment before returning. Default: 60'),
+        watch_id: z.string().optional().describe('Keep waiting on an existing watch instead of starting a new one'),
+        session: sessionSchema,
+      },
+    },
+    async ({ amount, jetton, comment, address, since, timeout, wait, watch_id, session }) => {
+      try {
+        let watchId = watch_id;
+        if (!watchId) {
+          if (!amount) {
+            return {
+              content: [{ type: 'text', text: 'Parameter "amount" is required unless "watch_id" is used.' }],
+              isError: true,
+            };
+          }
+
+          let account: Address;
+          let sinceTime: Date;
+          try {
+            account = resolveAccountAddress(address, session);
+            sinceTime = since ? parseTime(since) : new Date();
+          } catch (error) {
+            return {
+              content: [{ type: 'text', text: (error as Error).message }],
+              isError: true,
+            };
+          }
+
+          let unit: AmountUnit = TON_UNIT;
+          let expectedJetton: PaymentCriteria['jetton'] = null;
+          if (jetton) {
+            const masterAddr = resolveJettonMaster(jetton, TON_NETWORK);
+            const metadata = await getJettonMetadata(chainProvider, masterAddr);
+            unit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+            expectedJetton = { master: masterAddr, wallet: await getJettonWalletAddress(chainProvider, masterAddr, account) };
+          }
+
+          let minAmount: bigint;
+          try {
+            minAmount = parseAmount(amount, unit);
+          } catch (error) {
+            return {
+              content: [{ type: 'text', text: (error as Error).message }],
+              isError: true,
+            };
+          }
+
+          const watch = paymentWatcher.watch({
+            account,
+            minAmount,
+            unit,
+            jetton: expectedJetton,
+            comment: comment ?? null,
+            since: Math.floor(sinceTime.getTime() / 1000),
+          }, (timeout ?? 3600) * 1000);
+          watchId = watch.id;
+          server.sendResourceListChanged();
+        }
+
+        const watch = await paymentWatcher.wait(watchId, (wait ?? 60) * 1000);
+        if (!watch) {
+          return {
+            content: [{ type: 'text', text: `Unknown payment watch "${watchId}".` }],
+            isError: true,
+          };
+        }
+
+        const headline = {
+          received: 'Payment received.',
+          watching: `No matching payment yet. The watch keeps polling until ${watch.expiresAt}; you will be notified (resource ${paymentWatchResourceUri(watch.id)}). Call watch_payments with watch_id="${watch.id}" to keep waiting.`,
+          expired: 'The watch expired without a matching payment.',
+        }[watch.status];
+        return {
+          content: [{ type: 'text', text: `${headline}\n\n${JSON.stringify(watch, null, 2)}` }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error watching payments: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Create payment request
+   */
+  server.registerTool(
+    'create_payment_request',
+    {
+      title: 'Create Payment Request',
+      description: 'Create a link and QR code asking someone else to pay: a ton://transfer link and a Tonkeeper universal link carrying the amount, a comment or binary payload, and the jetton for token invoices. Pair it with watch_payments to know when it was paid.',
+      inputSchema: {
+        to: addressSchema().optional().describe('Address to be paid. Defaults to the wallet connected in the session'),
+        amount: z.string().optional().describe('Amount with unit (e.g., "1.5 TON", "25 USDT") or in smallest units. Omit to let the payer choose'),
+        jetton: addressSchema().optional().describe(`Jetton master address or known symbol (${Object.keys(KNOWN_JETTONS).join(', ')}) for token invoices`),
+        comment: z.string().optional().describe('Text comment the payment should carry, e.g. an invoice id'),
+        payload: z.string().optional().describe('Base64 BOC payload instead of a comment (TON payments only)'),
+        state_init: z.string().optional().describe('Base64 BOC state init to deploy with the payment (TON payments only)'),
+        expires_in: z.number().int().positive().optional().describe('Seconds until the request expires. Default: no expiry'),
+        qr_text: z.boolean().optional().describe('Also return the QR code as Unicode text, for terminals'),
+        session: sessionSchema,
+      },
+    },
+    async ({ to, amount, jetton, comment, payload, state_init, expires_in, qr_text, session }) => {
+      try {
+        let address: string;
+        let bin: Cell | undefined;
+        let init: Cell | undefined;
+        try {
+          const recipient = resolveAccountAddress(to, session);
+          // Friendly addresses keep the flags the user chose; others are shown non-bounceable, as wallets receive payments
+          address = to && !Address.isRaw(to.trim()) ? to.trim() : recipient.toString({ ...ADDRESS_FORMAT, bounceable: false });
+          bin = payload ? parseCellBoc(payload, 'payload') : undefined;
+          init = state_init ? parseCellBoc(state_init, 'state_init') : undefined;
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        let unit: AmountUnit = TON_UNIT;
+        let masterAddr: Address | undefined;
+        if (jetton) {
+          masterAddr = resolveJettonMaster(jetton, TON_NETWORK);
+          const metadata = await getJettonMetadata(chainProvider, masterAddr);
+          unit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+        }
+
+        let links: PaymentLinks;
+        let rawAmount: bigint | undefined;
+        try {
+          rawAmount = amount ? parseAmount(amount, unit) : undefined;
+          links = buildPaymentLinks({
+            address,
+            amount: rawAmount,
+            jetton: masterAddr,
+            text: comment,
+            bin,
+            init,
+            expiresAt: expires_in ? Math.floor(Date.now() / 1000) + expires_in : undefined,
+          }, TON_NETWORK);
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const details = {
+          tonLink: links.ton,
+          tonkeeperLink: links.tonkeeper,
+          recipient: address,
+          amount: rawAmount !== undefined ? describeAmount(rawAmount, unit) : null,
+          jetton: masterAddr?.toString(ADDRESS_FORMAT) ?? null,
+          comment: comment ?? null,
+          expiresAt: expires_in ? new Date(Date.now() + expires_in * 1000).toISOString() : null,
+        };
+        const content: CallToolResult['content'] = [{
+          type: 'text',
+          text: `Payment request created. Share a link or the QR code with the payer; use watch_payments to wait for the payment.\n\n${JSON.stringify(details, null, 2)}`,
+        }];
+        try {
+          content.push({ type: 'image', data: await renderQrPng(links.ton), mimeType: 'image/png' });
+          if (qr_text) {
+            content.push({ type: 'text', text: await renderQrText(links.ton) });
+          }
+        } catch (error) {
+          content.push({ type: 'text', text: `No QR code: ${(error as Error).message}` });
+        }
+        return { content };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error creating payment request: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Parse payment link
+   */
+  server.registerTool(
+    'parse_payment_link',
+    {
+      title: 'Parse Payment Link',
+      description: 'Validate a ton://transfer or wallet universal link (e.g., https://app.tonkeeper.com/transfer/...) someone asked you to pay, and turn it into the exact arguments for send_transaction (or send_jetton for token links). Nothing is sent.',
+      inputSchema: {
+        link: z.string().describe('Payment link to parse'),
+        session: sessionSchema,
+      },
+    },
+    async ({ link, session }) => {
+      try {
+        let request: PaymentRequest;
+        try {
+          request = parsePaymentLink(link, TON_NETWORK);
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: `Invalid payment link: ${(error as Error).message}` }],
+            isError: true,
+          };
+        }
+
+        const notes: string[] = [];
+        if (request.amount === undefined) {
+          notes.push('The link has no amount - ask the user how much to pay and add "amount".');
+        }
+        const validUntil = request.expiresAt;
+
+        if (!request.jetton) {
+          const sendTransaction = {
+            to: request.address,
+            ...(request.amount !== undefined && { amount: request.amount.toString() }),
+            ...(request.text !== undefined && { comment: request.text }),
+            ...(request.bin && { payload: request.bin.toBoc().toString('base64') }),
+            ...(request.init && { state_init: request.init.toBoc().toString('base64') }),
+            ...(validUntil !== undefined && { valid_until: validUntil }),
+          };
+          const result = {
+            type: 'ton',
+            recipient: request.address,
+            amount: request.amount !== undefined ? describeAmount(request.amount, TON_UNIT) : null,
+            comment: request.text ?? null,
+            payload: request.bin ? decodeCell(request.bin) : null,
+            deploys: Boolean(request.init),
+            expiresAt: validUntil !== undefined ? new Date(validUntil * 1000).toISOString() : null,
+            send_transaction: sendTransaction,
+            ...(notes.length > 0 && { notes }),
+          };
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        const master = request.jetton;
+        let unit: AmountUnit | null = null;
+        try {
+          const metadata = await getJettonMetadata(chainProvider, master);
+          unit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+        } catch (error) {
+          notes.push(`Could not read the jetton metadata: ${(error as Error).message}`);
+        }
+
+        const sendJetton = {
+          jetton: master.toString(ADDRESS_FORMAT),
+          to: request.address,
+          ...(request.amount !== undefined && { amount: request.amount.toString() }),
+          ...(request.text !== undefined && { comment: request.text }),
+          ...(validUntil !== undefined && { valid_until: validUntil }),
+        };
+
+        // With a connected wallet the jetton transfer can be spelled out for send_transaction too
+        let sendTransaction: Record<string, unknown> | null = null;
+        const account = walletManager.findSession(WalletManager.resolveSessionId(session))?.connector.account;
+        if (account && request.amount !== undefined) {
+          const owner = Address.parse(account.address);
+          const senderJettonWallet = await getJettonWalletAddress(chainProvider, master, owner);
+          const body = buildJettonTransferBody({
+            amount: request.amount,
+            destination: Address.parse(request.address),
+            responseDestination: owner,
+            forwardTonAmount: 1n,
+            forwardPayload: request.text !== undefined ? buildTextComment(request.text) : null,
+          });
+          sendTransaction = {
+            to: senderJettonWallet.toString(ADDRESS_FORMAT),
+            amount: parseTonAmount('0.05 TON').toString(),
+            payload: body.toBoc().toString('base64'),
+            ...(validUntil !== undefined && { valid_until: validUntil }),
+          };
+        } else if (!account) {
+          notes.push('Connect a wallet to also get send_transaction arguments; send_jetton works either way.');
+        }
+
+        const result = {
+          type: 'jetton',
+          recipient: request.address,
+          jetton: master.toString(ADDRESS_FORMAT),
+          amount: request.amount !== undefined
+            ? { raw: request.amount.toString(), formatted: unit ? formatAmount(request.amount, unit) : null }
+            : null,
+          comment: request.text ?? null,
+          expiresAt: validUntil !== undefined ? new Date(validUntil * 1000).toISOString() : null,
+          send_jetton: sendJetton,
+          send_transaction: sendTransaction,
+          ...(notes.length > 0 && { notes }),
+        };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error parsing payment link: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Build jetton transfer payload
+   */
+  server.registerTool(
+    'build_jetton_transfer_payload',
+    {
+      title: 'Build Jetton Transfer Payload',
+      description: 'Build a payload for jetton (token) transfers. Returns base64 BOC payload ready to use with send_transaction.',
+      inputSchema: {
+        recipient_address: addressSchema().describe('Recipient TON wallet address (where jettons will be sent)'),
+        jetton_amount: z.string().describe('Amount of jettons in smallest units (e.g., "1000000" for 1 USDT with 6 decimals) or with symbol (e.g., "25 USDT", requires jetton_master_address)'),
+        jetton_master_address: addressSchema().optional().describe('Jetton master contract address. Used to read decimals and symbol from on-chain metadata (TEP-64)'),
+        response_address: addressSchema().optional().describe('Address to receive excess TON (defaults to sender). Usually your wallet address.'),
+        forward_ton_amount: z.string().optional().describe('Amount of TON to forward with transfer, in nanoTON or with unit (e.g., "0.01 TON"). Default: "1"'),
+        forward_payload: z.string().optional().describe('Optional text comment for the transfer'),
+        forward_payload_boc: z.string().optional().describe('Base64 BOC forwarded to the recipient instead of a comment (e.g., a DEX swap payload)'),
+        custom_payload: z.string().optional().describe('Base64 BOC stored as custom_payload, for jettons that require one (e.g., claims or unlocks)'),
+      },
+    },
+    async ({ recipient_address, jetton_amount, jetton_master_address, response_address, forward_ton_amount, forward_payload, forward_payload_boc, custom_payload }) => {
+      try {
+        // Validate addresses
+        let recipientAddr: Address;
+        let responseAddr: Address | null = null;
+
+        try {
+          recipientAddr = parseNetworkAddress(recipient_address, TON_NETWORK, 'recipient address');
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: (error as Error).message 
+            }],
+            isError: true,
+          };
+        }
+
+        if (response_address) {
+          try {
+            responseAddr = parseNetworkAddress(response_address, TON_NETWORK, 'response address');
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: (error as Error).message 
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        // Resolve jetton decimals from on-chain metadata when the master is known
+        let jettonUnit: AmountUnit | null = null;
+        if (jetton_master_address) {
+          let masterAddr: Address;
+          try {
+            masterAddr = parseNetworkAddress(jetton_master_address, TON_NETWORK, 'jetton master address');
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: (error as Error).message 
+              }],
+              isError: true,
+            };
+          }
+          const metadata = await getJettonMetadata(chainProvider, masterAddr);
+          jettonUnit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+        }
+
+        // Validate jetton amount
+        let jettonAmount: bigint;
+        try {
+          jettonAmount = parseJettonUnits(jetton_amount, jettonUnit);
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: (error as Error).message 
+            }],
+            isError: true,
+          };
+        }
+
+        let forwardAmount: bigint;
+        try {
+          forwardAmount = parseTonAmount(forward_ton_amount || "1");
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Invalid forward TON amount: ${(error as Error).message}` 
+            }],
+            isError: true,
+          };
+        }
+
+        let forwardPayloadCell: Cell | null = null;
+        let customPayloadCell: Cell | null = null;
+        try {
+          if (forward_payload && forward_payload_boc) {
+            throw new Error('Use either "forward_payload" (a comment) or "forward_payload_boc", not both.');
+          }
+          forwardPayloadCell = forward_payload_boc ? parseCellBoc(forward_payload_boc, 'forward_payload_boc') : null;
+          customPayloadCell = custom_payload ? parseCellBoc(custom_payload, 'custom_payload') : null;
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        // Build jetton transfer payload
+        // Standard TEP-74 jetton transfer format
+        const payloadCell = buildJettonTransferBody({
+          amount: jettonAmount,
+          destination: recipientAddr,
+          responseDestination: responseAddr,
+          customPayload: customPayloadCell,
+          forwardTonAmount: forwardAmount,
+          // Add forward payload if comment provided
+          forwardPayload: forward_payload ? buildTextComment(forward_payload) : forwardPayloadCell,
+        });
+        const payloadBase64 = payloadCell.toBoc().toString('base64');
+
+        const result = {
+          payload: payloadBase64,
+          details: {
+            recipient: recipient_address,
+            jetton_amount: jettonUnit
+              ? describeAmount(jettonAmount, jettonUnit)
+              : { raw: jettonAmount.toString(), formatted: `${jettonAmount} (smallest units, decimals unknown)` },
+            forward_ton_amount: describeAmount(forwardAmount, TON_UNIT),
+            response_destination: response_address || 'null (excess returned to sender)',
+            ...(forward_payload && { comment: forward_payload }),
+            ...(forwardPayloadCell && { forward_payload: decodeCell(forwardPayloadCell) }),
+            ...(customPayloadCell && { custom_payload: true }),
+          }
+        };
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `✅ Jetton Transfer Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(result.details, null, 2)}\n\n**Next Step:**\nUse send_transaction with:\n- to: <YOUR_JETTON_WALLET_ADDRESS> (not the recipient!)\n- amount: "0.05 TON" (for gas - size it with estimate_transaction)\n- payload: "${payloadBase64}"\n\n⚠️ Important: The 'to' address must be YOUR jetton wallet address, not the recipient's address! Prefer send_jetton, which resolves it automatically.` 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error building payload: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Send jetton
+   */
+  server.registerTool(
+    'send_jetton',
+    {
+      title: 'Send Jetton',
+      description: 'Send jettons (tokens) from the connected wallet in one step. Resolves your jetton wallet via the master\'s get_wallet_address, checks the balance, builds the TEP-74 transfer and sends it for approval.',
+      inputSchema: {
+        jetton: addressSchema().describe(`Jetton master address or a known symbol (${Object.keys(KNOWN_JETTONS).join(', ')})`),
+        to: addressSchema().describe('Recipient TON wallet address (the owner, not their jetton wallet)'),
+        amount: z.string().describe('Amount with symbol (e.g., "25 USDT") or in smallest units (e.g., "25000000")'),
+        comment: z.string().optional().describe('Optional text comment delivered to the recipient'),
+        forward_ton_amount: z.string().optional().describe('TON forwarded to the recipient with the transfer notification, in nanoTON or with unit. Default: "1" (just enough to notify)'),
+        ton_amount: z.string().optional().describe('TON attached to the transfer to pay for gas, excess is returned. Default: "0.05 TON"'),
+        response_address: addressSchema().optional().describe('Address to receive excess TON. Defaults to your wallet'),
+        valid_until: z.number().optional().describe('Transaction expiration timestamp in Unix seconds. Defaults to 5 minutes from now'),
+        wait_for_confirmation: z.boolean().optional().describe('Wait until the transaction is finalized on-chain before returning'),
+        session: sessionSchema,
+      },
+    },
+    async ({ jetton, to, amount, comment, forward_ton_amount, ton_amount, response_address, valid_until, wait_for_confirmation, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        if (!connector?.connected || !connector.account) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
+            }],
+            isError: true,
+          };
+        }
+
+        let recipientAddr: Address;
+        let responseAddr: Address;
+        try {
+          recipientAddr = parseNetworkAddress(to, TON_NETWORK, 'recipient address');
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: (error as Error).message 
+            }],
+            isError: true,
+          };
+        }
+
+        const ownerAddr = Address.parse(connector.account.address);
+        try {
+          responseAddr = response_address ? parseNetworkAddress(response_address, TON_NETWORK, 'response address') : ownerAddr;
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: (error as Error).message 
+            }],
+            isError: true,
+          };
+        }
+
+        const masterAddr = resolveJettonMaster(jetton, TON_NETWORK);
+        const metadata = await getJettonMetadata(chainProvider, masterAddr);
+        const jettonUnit: AmountUnit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+
+        let jettonAmount: bigint;
+        let forwardAmount: bigint;
+        let tonAmount: bigint;
+        try {
+          jettonAmount = parseAmount(amount, jettonUnit);
+          forwardAmount = parseTonAmount(forward_ton_amount || '1');
+          tonAmount = parseTonAmount(ton_amount || '0.05 TON');
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        if (jettonAmount === 0n) {
+          return {
+            content: [{ type: 'text', text: 'Jetton amount must be greater than zero.' }],
+            isError: true,
+          };
+        }
+
+        if (tonAmount <= forwardAmount) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Attached TON (${formatAmount(tonAmount, TON_UNIT)}) must exceed forward_ton_amount (${formatAmount(forwardAmount, TON_UNIT)}) to cover gas.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const jettonWallet = await getJettonWalletAddress(chainProvider, masterAddr, ownerAddr);
+        const balance = await getJettonBalance(chainProvider, jettonWallet);
+        if (balance < jettonAmount) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Insufficient ${jettonUnit.symbol} balance: have ${formatAmount(balance, jettonUnit)}, need ${formatAmount(jettonAmount, jettonUnit)}.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const body = buildJettonTransferBody({
+          amount: jettonAmount,
+          destination: recipientAddr,
+          responseDestination: responseAddr,
+          forwardTonAmount: forwardAmount,
+          forwardPayload: comment ? buildTextComment(comment) : null,
+        });
+
+        const transaction = {
+          validUntil: valid_until || Math.floor(Date.now() / 1000) + 300,
+          network: NETWORK_CHAINS[TON_NETWORK],
+          messages: [{
+            address: jettonWallet.toString({ bounceable: true, testOnly: TON_NETWORK === 'testnet' }),
+            amount: tonAmount.toString(),
+            payload: body.toBoc().toString('base64'),
+          }],
+        };
+
+        try {
+          const submitted = await submitTransaction(
+            connector,
+            chainProvider,
+            transaction,
+            {
+              confirm: wait_for_confirmation ? confirmationOptions() : undefined,
+              policy: spendingPolicy,
+              audit: { log: auditLog, session: sessionId },
+            }
+          );
+
+          const details = {
+            jetton: { master: masterAddr.toString(), symbol: metadata.symbol, decimals: metadata.decimals, ...(metadata.warning && { warning: metadata.warning }) },
+            from: ownerAddr.toString(),
+            to: recipientAddr.toString(),
+            jettonWallet: jettonWallet.toString(),
+            amount: describeAmount(jettonAmount, jettonUnit),
+            balanceBefore: describeAmount(balance, jettonUnit),
+            tonAttached: describeAmount(tonAmount, TON_UNIT),
+            forwardTonAmount: describeAmount(forwardAmount, TON_UNIT),
+            ...(comment && { comment }),
+          };
+
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Jetton transfer sent successfully from session "${sessionId}"!\n\nBOC: ${submitted.boc}\n\n${JSON.stringify(details, null, 2)}\n${describeSubmission(submitted)}` 
+            }],
+            isError: submitted.confirmation?.status === 'failed',
+          };
+        } catch (error) {
+          if (error instanceof UserRejectsError) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: 'Transaction rejected by user in their wallet.' 
+              }],
+              isError: true,
+            };
+          }
+          if (error instanceof PolicyViolationError) {
+            return policyViolationResult(error);
+          }
+          throw error;
+        }
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Jetton transfer error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Connected wallet of a session, if any
+   */
+  function connectedAccount(session: string | undefined): Address | null {
+    const account = walletManager.findSession(WalletManager.resolveSessionId(session))?.connector.account;
+    return account ? Address.parse(account.address) : null;
+  }
+
+  /**
+   * Why the session's wallet cannot administer the minter, or null if it can (or no wallet is connected)
+   */
+  async function checkMinterAdmin(master: Address, session: string | undefined): Promise<string | null> {
+    const data = await getJettonMinterData(chainProvider, master);
+    if (!data.admin) {
+      return `Jetton minter ${master.toString(ADDRESS_FORMAT)} has no admin. Its supply and content can no longer be changed.`;
+    }
+    const account = connectedAccount(session);
+    if (account && !account.equals(data.admin)) {
+      return `The connected wallet is not the admin of this jetton minter (admin: ${data.admin.toString(ADDRESS_FORMAT)}). The minter would reject the message.`;
+    }
+    return null;
+  }
+
+  /**
+   * Tool: Build jetton burn payload
+   */
+  server.registerTool(
+    'build_jetton_burn_payload',
+    {
+      title: 'Build Jetton Burn Payload',
+      description: 'Build a TEP-74 burn payload that destroys jettons held by your jetton wallet. Returns a base64 BOC for send_transaction to your jetton wallet, which is resolved when a wallet is connected.',
+      inputSchema: {
+        jetton_amount: z.string().describe('Amount to burn in smallest units, or with symbol (e.g., "25 USDT", requires jetton)'),
+        jetton: addressSchema().optional().describe(`Jetton master address or known symbol (${Object.keys(KNOWN_JETTONS).join(', ')}). Used for decimals, your jetton wallet and the balance check`),
+        response_address: addressSchema().optional().describe('Address to receive excess TON. Defaults to your wallet'),
+        custom_payload: z.string().optional().describe('Base64 BOC stored as custom_payload, for minters that require one'),
+        session: sessionSchema,
+      },
+    },
+    async ({ jetton_amount, jetton, response_address, custom_payload, session }) => {
+      try {
+        const owner = connectedAccount(session);
+        let responseAddr: Address | null;
+        let masterAddr: Address | null;
+        let customPayloadCell: Cell | null;
+        try {
+          responseAddr = response_address ? parseNetworkAddress(response_address, TON_NETWORK, 'response address') : owner;
+          masterAddr = jetton ? resolveJettonMaster(jetton, TON_NETWORK) : null;
+          customPayloadCell = custom_payload ? parseCellBoc(custom_payload, 'custom_payload') : null;
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        let jettonUnit: AmountUnit | null = null;
+        if (masterAddr) {
+          const metadata = await getJettonMetadata(chainProvider, masterAddr);
+          jettonUnit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+        }
+
+        let payloadCell: Cell;
+        let jettonAmount: bigint;
+        try {
+          jettonAmount = parseJettonUnits(jetton_amount, jettonUnit);
+          payloadCell = buildJettonBurnBody({ amount: jettonAmount, responseDestination: responseAddr, customPayload: customPayloadCell });
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        // With the master and a connected wallet, point at the jetton wallet and check it holds enough
+        let jettonWallet: Address | null = null;
+        if (masterAddr && owner && jettonUnit) {
+          jettonWallet = await getJettonWalletAddress(chainProvider, masterAddr, owner);
+          const balance = await getJettonBalance(chainProvider, jettonWallet);
+          if (balance < jettonAmount) {
+            return {
+              content: [{
+                type: 'text',
+                text: `Insufficient ${jettonUnit.symbol} balance: have ${formatAmount(balance, jettonUnit)}, trying to burn ${formatAmount(jettonAmount, jettonUnit)}.`
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        const payloadBase64 = payloadCell.toBoc().toString('base64');
+        const details = {
+          jetton_amount: jettonUnit
+            ? describeAmount(jettonAmount, jettonUnit)
+            : { raw: jettonAmount.toString(), formatted: `${jettonAmount} (smallest units, decimals unknown)` },
+          response_destination: responseAddr?.toString(ADDRESS_FORMAT) ?? 'null (excess stays in the jetton wallet)',
+          ...(customPayloadCell && { custom_payload: true }),
+          ...(jettonWallet && { jetton_wallet: jettonWallet.toString(ADDRESS_FORMAT) }),
+        };
+        const to = jettonWallet ? jettonWallet.toString(ADDRESS_FORMAT) : '<YOUR_JETTON_WALLET_ADDRESS>';
+
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Jetton Burn Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(details, null, 2)}\n\n**Next Step:**\nUse send_transaction with:\n- to: ${to}\n- amount: "0.05 TON" (for gas, excess is returned)\n- payload: "${payloadBase64}"\n\n⚠️ Burned jettons are destroyed and cannot be recovered.`
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error building payload: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Build jetton mint payload
+   */
+  server.registerTool(
+    'build_jetton_mint_payload',
+    {
+      title: 'Build Jetton Mint Payload',
+      description: 'Build a mint payload for a standard jetton minter you administer. The minter creates the jettons in the recipient\'s jetton wallet, deploying it if needed. Returns a base64 BOC for send_transaction to the jetton master.',
+      inputSchema: {
+        jetton_master_address: addressSchema().describe('Jetton master (minter) contract address'),
+        recipient_address: addressSchema().describe('Owner of the jetton wallet that receives the minted jettons'),
+        jetton_amount: z.string().describe('Amount to mint in smallest units, or with the jetton symbol (e.g., "1000 MYT")'),
+        ton_amount: z.string().optional().describe('TON the minter forwards to the recipient\'s jetton wallet for its deploy and fees. Default: "0.05 TON"'),
+        forward_ton_amount: z.string().optional().describe('TON forwarded to the recipient with a transfer notification, in nanoTON or with unit. Default: "0" (no notification)'),
+        forward_payload: z.string().optional().describe('Optional text comment delivered with the notification'),
+        forward_payload_boc: z.string().optional().describe('Base64 BOC delivered with the notification instead of a comment'),
+        response_address: addressSchema().optional().describe('Address to receive excess TON. Defaults to your wallet'),
+        session: sessionSchema,
+      },
+    },
+    async ({ jetton_master_address, recipient_address, jetton_amount, ton_amount, forward_ton_amount, forward_payload, forward_payload_boc, response_address, session }) => {
+      try {
+        let masterAddr: Address;
+        let recipientAddr: Address;
+        let responseAddr: Address | null;
+        let tonAmount: bigint;
+        let forwardAmount: bigint;
+        let forwardPayloadCell: Cell | null = null;
+        try {
+          masterAddr = parseNetworkAddress(jetton_master_address, TON_NETWORK, 'jetton master address');
+          recipientAddr = parseNetworkAddress(recipient_address, TON_NETWORK, 'recipient address');
+          responseAddr = response_address ? parseNetworkAddress(response_address, TON_NETWORK, 'response address') : connectedAccount(session);
+          tonAmount = parseTonAmount(ton_amount || '0.05 TON');
+          forwardAmount = parseTonAmount(forward_ton_amount || '0');
+          if (forward_payload && forward_payload_boc) {
+            throw new Error('Use either "forward_payload" (a comment) or "forward_payload_boc", not both.');
+          }
+          forwardPayloadCell = forward_payload ? buildTextComment(forward_payload) : forward_payload_boc ? parseCellBoc(forward_payload_boc, 'forward_payload_boc') : null;
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const adminError = await checkMinterAdmin(masterAddr, session);
+        if (adminError) {
+          return {
+            content: [{ type: 'text', text: adminError }],
+            isError: true,
+          };
+        }
+
+        const metadata = await getJettonMetadata(chainProvider, masterAddr);
+        const jettonUnit: AmountUnit = { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals };
+
+        let jettonAmount: bigint;
+        let payloadCell: Cell;
+        try {
+          jettonAmount = parseAmount(jetton_amount, jettonUnit);
+          payloadCell = buildJettonMintBody({
+            destination: recipientAddr,
+            jettonAmount,
+            tonAmount,
+            responseDestination: responseAddr,
+            forwardTonAmount: forwardAmount,
+            forwardPayload: forwardPayloadCell,
+          });
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        // The minter keeps a little for its own gas before forwarding ton_amount
+        const attachedAmount = tonAmount + 50_000_000n;
+        const payloadBase64 = payloadCell.toBoc().toString('base64');
+        const details = {
+          jetton_master: masterAddr.toString(ADDRESS_FORMAT),
+          recipient: recipient_address,
+          jetton_amount: describeAmount(jettonAmount, jettonUnit),
+          ton_amount: describeAmount(tonAmount, TON_UNIT),
+          forward_ton_amount: describeAmount(forwardAmount, TON_UNIT),
+          response_destination: responseAddr?.toString(ADDRESS_FORMAT) ?? 'null (excess stays in the jetton wallet)',
+          ...(forward_payload && { comment: forward_payload }),
+          ...(forward_payload_boc && forwardPayloadCell && { forward_payload: decodeCell(forwardPayloadCell) }),
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Jetton Mint Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(details, null, 2)}\n\n**Next Step:**\nUse send_transaction from the admin wallet with:\n- to: ${masterAddr.toString(ADDRESS_FORMAT)} (the jetton master)\n- amount: "${formatAmount(attachedAmount, TON_UNIT)}" (ton_amount plus the minter's gas - check it with estimate_transaction)\n- payload: "${payloadBase64}"`
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error building payload: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Build jetton admin payload
+   */
+  server.registerTool(
+    'build_jetton_admin_payload',
+    {
+      title: 'Build Jetton Admin Payload',
+      description: 'Build an admin payload for a standard jetton minter you administer: change_admin hands the admin rights to another address, change_content replaces the TEP-64 metadata. Returns a base64 BOC for send_transaction to the jetton master.',
+      inputSchema: {
+        action: z.enum(['change_admin', 'change_content']).describe('Admin operation to build'),
+        jetton_master_address: addressSchema().describe('Jetton master (minter) contract address'),
+        new_admin_address: addressSchema().optional().describe('change_admin: the new admin. Required for change_admin'),
+        content_uri: z.string().optional().describe('change_content: URI of the new TEP-64 metadata JSON (stored as off-chain content)'),
+        content: z.string().optional().describe('change_content: base64 BOC of a complete content cell, e.g. on-chain metadata. Replaces content_uri'),
+        session: sessionSchema,
+      },
+    },
+    async ({ action, jetton_master_address, new_admin_address, content_uri, content, session }) => {
+      try {
+        let masterAddr: Address;
+        let payloadCell: Cell;
+        let details: Record<string, unknown>;
+        try {
+          masterAddr = parseNetworkAddress(jetton_master_address, TON_NETWORK, 'jetton master address');
+          if (action === 'change_admin') {
+            if (!new_admin_address) {
+              throw new Error('Parameter "new_admin_address" is required for change_admin.');
+            }
+            const newAdmin = parseNetworkAddress(new_admin_address, TON_NETWORK, 'new admin address');
+            payloadCell = buildJettonChangeAdminBody(newAdmin);
+            details = { action, jetton_master: masterAddr.toString(ADDRESS_FORMAT), new_admin: newAdmin.toString(ADDRESS_FORMAT) };
+          } else {
+            if (!content_uri === !content) {
+              throw new Error('Pass either "content_uri" or "content" for change_content.');
+            }
+            const contentCell = content ? parseCellBoc(content, 'content') : buildOffchainContent(content_uri ?? '');
+            payloadCell = buildJettonChangeContentBody(contentCell);
+            details = { action, jetton_master: masterAddr.toString(ADDRESS_FORMAT), ...(content_uri ? { content_uri } : { content: 'custom cell' }) };
+          }
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const adminError = await checkMinterAdmin(masterAddr, session);
+        if (adminError) {
+          return {
+            content: [{ type: 'text', text: adminError }],
+            isError: true,
+          };
+        }
+
+        const payloadBase64 = payloadCell.toBoc().toString('base64');
+        const warning = action === 'change_admin'
+          ? '\n\n⚠️ After this transaction only the new admin can mint or change the jetton. Double-check the address.'
+          : '';
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Jetton Admin Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(details, null, 2)}\n\n**Next Step:**\nUse send_transaction from the admin wallet with:\n- to: ${masterAddr.toString(ADDRESS_FORMAT)} (the jetton master)\n- amount: "0.05 TON" (for gas)\n- payload: "${payloadBase64}"${warning}`
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error building payload: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Build NFT transfer payload
+   */
+  server.registerTool(
+    'build_nft_transfer_payload',
+    {
+      title: 'Build NFT Transfer Payload',
+      description: 'Build a payload for NFT transfers. Returns base64 BOC payload ready to use with send_transaction.',
+      inputSchema: {
+        new_owner_address: addressSchema().describe('New owner TON wallet address (recipient)'),
+        response_address: addressSchema().optional().describe('Address to receive excess TON. Usually your wallet address.'),
+        forward_amount: z.string().optional().describe('Amount of TON to forward to new owner, in nanoTON or with unit (e.g., "0.01 TON"). Default: "1"'),
+        forward_payload: z.string().optional().describe('Optional text comment for the transfer'),
+      },
+    },
+    async ({ new_owner_address, response_address, forward_amount, forward_payload }) => {
+      try {
+        // Validate addresses
+        let newOwnerAddr: Address;
+        let responseAddr: Address | null = null;
+
+        try {
+          newOwnerAddr = parseNetworkAddress(new_owner_address, TON_NETWORK, 'new owner address');
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: (error as Error).message 
+            }],
+            isError: true,
+          };
+        }
+
+        if (response_address) {
+          try {
+            responseAddr = parseNetworkAddress(response_address, TON_NETWORK, 'response address');
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: (error as Error).message 
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        let forwardAmt: bigint;
+        try {
+          forwardAmt = parseTonAmount(forward_amount || "1");
+        } catch (error) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Invalid forward amount: ${(error as Error).message}` 
+            }],
+            isError: true,
+          };
+        }
+
+        // Build NFT transfer payload
+        // Standard TEP-62 NFT transfer format
+        const payloadCell = buildNftTransferBody({
+          newOwner: newOwnerAddr,
+          responseDestination: responseAddr,
+          forwardAmount: forwardAmt,
+          // Add forward payload if comment provided
+          forwardPayload: forward_payload ? buildTextComment(forward_payload) : null,
+        });
+        const payloadBase64 = payloadCell.toBoc().toString('base64');
+
+        const result = {
+          payload: payloadBase64,
+          details: {
+            new_owner: new_owner_address,
+            forward_amount: describeAmount(forwardAmt, TON_UNIT),
+            response_destination: response_address || 'null (excess returned to sender)',
+            ...(forward_payload && { comment: forward_payload }),
+          }
+        };
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `✅ NFT Transfer Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(result.details, null, 2)}\n\n**Next Step:**\nUse send_transaction with:\n- to: <NFT_ITEM_ADDRESS> (the specific NFT contract address)\n- amount: "0.05 TON" (for gas - size it with estimate_transaction)\n- payload: "${payloadBase64}"\n\n⚠️ Important: The 'to' address must be the NFT item's contract address!` 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error building NFT payload: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: List NFTs
+   */
+  server.registerTool(
+    'list_nfts',
+    {
+      title: 'List NFTs',
+      description: 'List NFT items owned by the connected wallet, as indexed by the TON API. Optionally filter by collection and include parsed metadata.',
+      inputSchema: {
+        collection: addressSchema().optional().describe('Only items of this collection address'),
+        limit: z.number().int().min(1).max(100).optional().describe('Maximum number of items. Default: 50'),
+        offset: z.number().int().min(0).optional().describe('Number of items to skip, for paging. Default: 0'),
+        include_metadata: z.boolean().optional().describe('Read each item\'s TEP-64 metadata (name, image...). Slower, one lookup per item'),
+        session: sessionSchema,
+      },
+    },
+    async ({ collection, limit, offset, include_metadata, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        if (!connector?.connected || !connector.account) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
+            }],
+            isError: true,
+          };
+        }
+
+        let collectionAddr: Address | undefined;
+        try {
+          collectionAddr = collection ? parseNetworkAddress(collection, TON_NETWORK, 'collection address') : undefined;
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const owner = Address.parse(connector.account.address);
+        const items = await chainProvider.getNftItems(owner.toRawString(), {
+          collection: collectionAddr?.toRawString(),
+          limit: limit ?? 50,
+          offset: offset ?? 0,
+        });
+
+        const nfts = [];
+        for (const item of items) {
+          const address = Address.parse(item.address);
+          const summary = {
+            address: address.toString(ADDRESS_FORMAT),
+            index: item.index,
+            collection: item.collection ? Address.parse(item.collection).toString(ADDRESS_FORMAT) : null,
+            initialized: item.initialized,
+          };
+          if (!include_metadata) {
+            nfts.push(summary);
+            continue;
+          }
+          try {
+            const info = await getNftInfo(chainProvider, address, ADDRESS_FORMAT);
+            nfts.push({ ...summary, metadata: info.metadata, collectionName: info.collection?.metadata?.name ?? null, metadataErrors: info.metadataErrors });
+          } catch (error) {
+            nfts.push({ ...summary, metadataErrors: [(error as Error).message] });
+          }
+        }
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: JSON.stringify({ owner: owner.toString(ADDRESS_FORMAT), count: nfts.length, offset: offset ?? 0, nfts }, null, 2) 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error listing NFTs: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Get NFT info
+   */
+  server.registerTool(
+    'get_nft_info',
+    {
+      title: 'Get NFT Info',
+      description: 'Read an NFT item (get_nft_data) and its collection (get_collection_data) with parsed TEP-64 on-chain or off-chain metadata. Reports whether the connected wallet owns it.',
+      inputSchema: {
+        nft_address: addressSchema().describe('NFT item contract address'),
+        session: sessionSchema,
+      },
+    },
+    async ({ nft_address, session }) => {
+      try {
+        let itemAddr: Address;
+        try {
+          itemAddr = parseNetworkAddress(nft_address, TON_NETWORK, 'NFT address');
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        const info = await getNftInfo(chainProvider, itemAddr, ADDRESS_FORMAT);
+
+        const sessionId = WalletManager.resolveSessionId(session);
+        const account = walletManager.findSession(sessionId)?.connector.account;
+        const ownedByConnectedWallet = account && info.owner
+          ? Address.parse(info.owner).equals(Address.parse(account.address))
+          : null;
+
+        return {
+          content: [{ 
+            type: 'text', 
+            text: JSON.stringify({ ...info, ownedByConnectedWallet }, null, 2) 
+          }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Error reading NFT: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Tool: Send NFT
+   */
+  server.registerTool(
+    'send_nft',
+    {
+      title: 'Send NFT',
+      description: 'Transfer one or several NFTs from the connected wallet in a single request. Checks that the wallet owns each item, builds the TEP-62 transfers and sends them for approval.',
+      inputSchema: {
+        nft_address: addressSchema().optional().describe('NFT item contract address. Required unless "transfers" is used'),
+        to: addressSchema().optional().describe('New owner TON wallet address. Required unless "transfers" is used'),
+        comment: z.string().optional().describe('Optional text comment delivered to the new owner'),
+        transfers: z.array(z.object({
+          nft_address: addressSchema().describe('NFT item contract address'),
+          to: addressSchema().describe('New owner TON wallet address'),
+          comment: z.string().optional().describe('Optional text comment'),
+        })).min(1).optional().describe('Several NFT transfers sent in one transaction, up to the maxMessages advertised by the wallet. Replaces nft_address/to/comment'),
+        forward_amount: z.string().optional().describe('TON forwarded to the new owner with the ownership notification, in nanoTON or with unit. Default: "1"'),
+        ton_amount: z.string().optional().describe('TON attached to each transfer to pay for gas, excess is returned. Default: "0.05 TON"'),
+        response_address: addressSchema().optional().describe('Address to receive excess TON. Defaults to your wallet'),
+        valid_until: z.number().optional().describe('Transaction expiration timestamp in Unix seconds. Defaults to 5 minutes from now'),
+        wait_for_confirmation: z.boolean().optional().describe('Wait until the transaction is finalized on-chain before returning'),
+        session: sessionSchema,
+      },
+    },
+    async ({ nft_address, to, comment, transfers, forward_amount, ton_amount, response_address, valid_until, wait_for_confirmation, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        if (!connector?.connected || !connector.account) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
+            }],
+            isError: true,
+          };
+        }
+
+        let inputs: { nft_address: string; to: string; comment?: string }[];
+        if (transfers) {
+          if (nft_address || to || comment) {
+            return {
+              content: [{ type: 'text', text: 'Use either "transfers" or nft_address/to/comment, not both.' }],
+              isError: true,
+            };
+          }
+          inputs = transfers;
+        } else {
+          if (!nft_address || !to) {
+            return {
+              content: [{ type: 'text', text: 'Parameters "nft_address" and "to" are required unless "transfers" is used.' }],
+              isError: true,
+            };
+          }
+          inputs = [{ nft_address, to, comment }];
+        }
+
+        const maxMessages = getMaxMessages(connector.wallet);
+        if (inputs.length > maxMessages) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Too many transfers: ${inputs.length}. The connected wallet accepts at most ${maxMessages} messages per transaction.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const ownerAddr = Address.parse(connector.account.address);
+        let responseAddr: Address;
+        let forwardAmount: bigint;
+        let tonAmount: bigint;
+        let items: { nft: Address; newOwner: Address; comment?: string }[];
+        try {
+          responseAddr = response_address ? parseNetworkAddress(response_address, TON_NETWORK, 'response address') : ownerAddr;
+          forwardAmount = parseTonAmount(forward_amount || '1');
+          tonAmount = parseTonAmount(ton_amount || '0.05 TON');
+          items = inputs.map((input, index) => ({
+            nft: parseNetworkAddress(input.nft_address, TON_NETWORK, `transfer ${index}: NFT address`),
+            newOwner: parseNetworkAddress(input.to, TON_NETWORK, `transfer ${index}: new owner address`),
+            comment: input.comment,
+          }));
+        } catch (error) {
+          return {
+            content: [{ type: 'text', text: (error as Error).message }],
+            isError: true,
+          };
+        }
+
+        if (tonAmount <= forwardAmount) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Attached TON (${formatAmount(tonAmount, TON_UNIT)}) must exceed forward_amount (${formatAmount(forwardAmount, TON_UNIT)}) to cover gas.` 
+            }],
+            isError: true,
+          };
+        }
+
+        const seen = new Set<string>();
+        for (const item of items) {
+          const key = item.nft.toRawString();
+          if (seen.has(key)) {
+            return {
+              content: [{ type: 'text', text: `NFT ${item.nft.toString(ADDRESS_FORMAT)} appears more than once.` }],
+              isError: true,
+            };
+          }
+          seen.add(key);
+        }
+
+        // Only the owner can transfer; catching this here saves a bounced transaction
+        for (const item of items) {
+          const data = await getNftData(chainProvider, item.nft);
+          if (!data.initialized || !data.owner?.equals(ownerAddr)) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: `The connected wallet does not own NFT ${item.nft.toString(ADDRESS_FORMAT)} (owner: ${data.owner?.toString(ADDRESS_FORMAT) ?? 'none'}).` 
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        const transaction = {
+          validUntil: valid_until || Math.floor(Date.now() / 1000) + 300,
+          network: NETWORK_CHAINS[TON_NETWORK],
+          messages: items.map((item) => ({
+            address: item.nft.toString({ bounceable: true, ...ADDRESS_FORMAT }),
+            amount: tonAmount.toString(),
+            payload: buildNftTransferBody({
+              newOwner: item.newOwner,
+              responseDestination: responseAddr,
+              forwardAmount,
+              forwardPayload: item.comment ? buildTextComment(item.comment) : null,
+            }).toBoc().toString('base64'),
+          })),
+        };
+
+        try {
+          const submitted = await submitTransaction(
+            connector,
+            chainProvider,
+            transaction,
+            {
+              confirm: wait_for_confirmation ? confirmationOptions() : undefined,
+              policy: spendingPolicy,
+              audit: { log: auditLog, session: sessionId },
+            }
+          );
+
+          const details = {
+            from: ownerAddr.toString(ADDRESS_FORMAT),
+            transfers: items.map((item) => ({
+              nft: item.nft.toString(ADDRESS_FORMAT),
+              to: item.newOwner.toString(ADDRESS_FORMAT),
+              ...(item.comment && { comment: item.comment }),
+            })),
+            tonAttachedPerTransfer: describeAmount(tonAmount, TON_UNIT),
+            forwardAmount: describeAmount(forwardAmount, TON_UNIT),
+          };
+
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `NFT transfer sent successfully from session "${sessionId}"!\n\nBOC: ${submitted.boc}\n\n${JSON.stringify(details, null, 2)}\n${describeSubmission(submitted)}` 
+            }],
+            isError: submitted.confirmation?.status === 'failed',
+          };
+        } catch (error) {
+          if (error instanceof UserRejectsError) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: 'Transaction rejected by user in their wallet.' 
+              }],
+              isError: true,
+            };
+          }
+          if (error instanceof PolicyViolationError) {
+            return policyViolationResult(error);
+          }
+          throw error;
+        }
+      } catch (error) {
+        const err = error as Error;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid amount format: "${amount}". Amount must be a numeric string in nanoTON (e.g., "1000000000" for 1 TON).` 
-          }],
+          content: [{ type: 'text', text: `NFT transfer error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
+
+  /**
+   * Tool: Deploy contract
+   */
+  server.registerTool(
+    'deploy_contract',
+    {
+      title: 'Deploy Contract',
+      description: 'Deploy a smart contract from code and data BOCs, or from code plus a template (jetton_minter, nft_collection) that builds the data cell. Builds the StateInit, predicts the address, checks whether it is already active and sends the non-bounceable deploy message for approval.',
+      inputSchema: {
+        code: z.string().describe('Base64 BOC of the contract code'),
+        data: z.string().optional().describe('Base64 BOC of the initial data. Required unless a template is used'),
+        template: z.enum(DEPLOY_TEMPLATES).optional().describe('Build the data cell of a standard contract: jetton_minter (TEP-74) or nft_collection (TEP-62)'),
+        owner_address: addressSchema().optional().describe('Template: jetton admin or collection owner. Defaults to your wallet'),
+        content_uri: z.string().optional().describe('Template: TEP-64 metadata URI of the jetton or collection'),
+        jetton_wallet_code: z.string().optional().describe('jetton_minter: base64 BOC of the jetton wallet code'),
+        nft_item_code: z.string().optional().describe('nft_collection: base64 BOC of the NFT item code'),
+        common_content_uri: z.string().optional().describe('nft_collection: base URI prepended to item contents. Default: ""'),
+        royalty_percent: z.number().min(0).max(100).optional().describe('nft_collection: royalty in percent, e.g. 5. Default: 0'),
+        royalty_address: addressSchema().optional().describe('nft_collection: royalty receiver. Defaults to the owner'),
+        workchain: z.union([z.literal(0), z.literal(-1)]).optional().describe('Workchain: 0 (basechain, default) or -1 (masterchain)'),
+        amount: z.string().optional().describe('TON sent with the deploy message, in nanoTON or with unit. Default: "0.05 TON"'),
+        predict_only: z.boolean().optional().describe('Only build the StateInit and report the address and its state, without sending'),
+        valid_until: z.number().optional().describe('Transaction expiration timestamp in Unix seconds. Defaults to 5 minutes from now'),
+        wait_for_confirmation: z.boolean().optional().describe('Wait until the transaction is finalized on-chain before returning'),
+        session: sessionSchema,
+      },
+    },
+    async ({ code, data, template, owner_address, content_uri, jetton_wallet_code, nft_item_code, common_content_uri, royalty_percent, royalty_address, workchain, amount, predict_only, valid_until, wait_for_confirmation, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        const account = connector?.connected ? connector.account : null;
 
-      // Handle comment - convert to payload if no payload provided
-      let finalPayload = payload;
-      if (comment && !payload) {
+        let codeCell: Cell;
+        let dataCell: Cell;
+        let deployAmount: bigint;
         try {
-          // Simple text comment payload (op code 0x00000000 + text)
-          const commentBuffer = Buffer.from(comment, 'utf-8');
-          const payloadBuffer = Buffer.concat([
-            Buffer.from([0x00, 0x00, 0x00, 0x00]), // op code for text comment
-            commentBuffer
-          ]);
-          finalPayload = payloadBuffer.toString('base64');
+          codeCell = parseCellBoc(code, 'code');
+          deployAmount = parseTonAmount(amount || '0.05 TON');
+
+          if (data && template) {
+            throw new Error('Use either "data" or "template", not both.');
+          }
+          if (data) {
+            dataCell = parseCellBoc(data, 'data');
+          } else if (template) {
+            if (!content_uri) {
+              throw new Error(`Template ${template} requires content_uri.`);
+            }
+            if (!owner_address && !account) {
+              throw new Error(`Template ${template} needs owner_address, or a connected wallet in session "${sessionId}" to use as owner.`);
+            }
+            const owner = owner_address ? parseNetworkAddress(owner_address, TON_NETWORK, 'owner address') : Address.parse(account!.address);
+
+            if (template === 'jetton_minter') {
+              if (!jetton_wallet_code) {
+                throw new Error('Template jetton_minter requires jetton_wallet_code.');
+              }
+              dataCell = buildJettonMinterData({
+                admin: owner,
+                contentUri: content_uri,
+                walletCode: parseCellBoc(jetton_wallet_code, 'jetton_wallet_code'),
+              });
+            } else {
+              if (!nft_item_code) {
+                throw new Error('Template nft_collection requires nft_item_code.');
+              }
+              dataCell = buildNftCollectionData({
+                owner,
+                contentUri: content_uri,
+                commonContentUri: common_content_uri ?? '',
+                itemCode: parseCellBoc(nft_item_code, 'nft_item_code'),
+                royalty: {
+                  numerator: Math.round((royalty_percent ?? 0) * 10),
+                  denominator: 1000,
+                  destination: royalty_address ? parseNetworkAddress(royalty_address, TON_NETWORK, 'royalty address') : owner,
+                },
+              });
+            }
+          } else {
+            throw new Error('Provide "data", or a "template" to build it.');
+          }
         } catch (error) {
           return {
-            content: [{ 
-              type: 'text', 
-              text: `Failed to encode comment: ${(error as Error).message}` 
-            }],
+            content: [{ type: 'text', text: (error as Error).message }],
             isError: true,
           };
         }
-      }
-
-      const validUntil = valid_until || Math.floor(Date.now() / 1000) + 300;
-      
-      // Build message
-      const message: any = {
-        address: to,
-        amount: amount,
-      };
 
-      if (finalPayload) {
-        message.payload = finalPayload;
-      }
+        const deployment = prepareDeployment(codeCell, dataCell, workchain ?? 0);
+        const state = await chainProvider.getAccountState(deployment.address.toRawString());
 
-      if (state_init) {
-        message.stateInit = state_init;
-      }
+        const details = {
+          address: deployment.address.toString({ bounceable: true, ...ADDRESS_FORMAT }),
+          nonBounceableAddress: deployment.address.toString({ bounceable: false, ...ADDRESS_FORMAT }),
+          rawAddress: deployment.address.toRawString(),
+          workchain: workchain ?? 0,
+          ...(template && { template }),
+          accountStatus: state.status,
+          balance: describeAmount(BigInt(state.balance), TON_UNIT),
+          alreadyDeployed: state.status === 'active',
+          stateInit: deployment.stateInitBoc,
+        };
 
-      const transaction = {
-        validUntil,
-        messages: [message],
-      };
+        if (predict_only) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Contract address predicted (nothing sent):\n\n${JSON.stringify(details, null, 2)}` 
+            }],
+          };
+        }
 
-      try {
-        const result = await connector.sendTransaction(transaction);
-        
-        let details = `Transaction sent successfully!\n\nBOC: ${result.boc}\n`;
-        if (comment) {
-          details += `Comment: "${comment}"\n`;
+        if (state.status === 'active') {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `A contract is already active at this address, so nothing was sent.\n\n${JSON.stringify(details, null, 2)}` 
+            }],
+          };
         }
-        if (finalPayload && !comment) {
-          details += `Custom payload included\n`;
+
+        if (state.status === 'frozen') {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `The account at ${details.address} is frozen and cannot be deployed with this StateInit.` 
+            }],
+            isError: true,
+          };
         }
-        if (state_init) {
-          details += `Contract deployment included\n`;
+
+        if (!connector || !account) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first, or predict_only to just compute the address.` 
+            }],
+            isError: true,
+          };
         }
-        details += `\nThe transaction has been approved and broadcast to the network.`;
-        
-        return {
-          content: [{ 
-            type: 'text', 
-            text: details
+
+        // Non-bounceable: if the deploy fails, the TON stays on the new account instead of bouncing back without the StateInit
+        const transaction = {
+          validUntil: valid_until || Math.floor(Date.now() / 1000) + 300,
+          network: NETWORK_CHAINS[TON_NETWORK],
+          messages: [{
+            address: details.nonBounceableAddress,
+            amount: deployAmount.toString(),
+            stateInit: deployment.stateInitBoc,
           }],
         };
-      } catch (error) {
-        if (error instanceof UserRejectsError) {
+
+        try {
+          const submitted = await submitTransaction(
+            connector,
+            chainProvider,
+            transaction,
+            {
+              confirm: wait_for_confirmation ? confirmationOptions() : undefined,
+              policy: spendingPolicy,
+              audit: { log: auditLog, session: sessionId },
+            }
+          );
+
           return {
             content: [{ 
               type: 'text', 
-              text: 'Transaction rejected by user in their wallet.' 
+              text: `Deploy message sent successfully from session "${sessionId}"!\n\nBOC: ${submitted.boc}\n\n${JSON.stringify({ ...details, amount: describeAmount(deployAmount, TON_UNIT) }, null, 2)}\n${describeSubmission(submitted)}` 
             }],
-            isError: true,
+            isError: submitted.confirmation?.status === 'failed',
           };
+        } catch (error) {
+          if (error instanceof UserRejectsError) {
+            return {
+              content: [{ 
+                type: 'text', 
+                text: 'Transaction rejected by user in their wallet.' 
+              }],
+              isError: true,
+            };
+          }
+          if (error instanceof PolicyViolationError) {
+            return policyViolationResult(error);
+          }
+          throw error;
         }
-        throw error;
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Deploy error: ${err.message}` }],
+          isError: true,
+        };
       }
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Transaction error: ${err.message}` }],
-        isError: true,
-      };
     }
-  }
-);
-
-/**
- * Tool: Build jetton transfer payload
- */
-server.registerTool(
-  'build_jetton_transfer_payload',
-  {
-    title: 'Build Jetton Transfer Payload',
-    description: 'Build a payload for jetton (token) transfers. Returns base64 BOC payload ready to use with send_transaction.',
-    inputSchema: {
-      recipient_address: z.string().describe('Recipient TON wallet address (where jettons will be sent)'),
-      jetton_amount: z.string().describe('Amount of jettons to transfer in smallest units (e.g., "1000000" for 1 USDT with 6 decimals)'),
-      response_address: z.string().optional().describe('Address to receive excess TON (defaults to sender). Usually your wallet address.'),
-      forward_ton_amount: z.string().optional().describe('Amount of TON to forward with transfer (in nanoTON). Default: "1"'),
-      forward_payload: z.string().optional().describe('Optional text comment for the transfer'),
-    },
-  },
-  async ({ recipient_address, jetton_amount, response_address, forward_ton_amount, forward_payload }) => {
-    try {
-      // Validate addresses
-      let recipientAddr: Address;
-      let responseAddr: Address | null = null;
+  );
 
+  /**
+   * Tool: Decode payload
+   */
+  server.registerTool(
+    'decode_payload',
+    {
+      title: 'Decode Payload',
+      description: 'Decode a base64 BOC payload before sending it. Recognises text and encrypted comments, jetton transfer/burn/notification, NFT transfer and excesses. Unknown bodies are returned as a raw cell tree.',
+      inputSchema: {
+        payload: z.string().describe('Base64-encoded BOC payload'),
+      },
+    },
+    async ({ payload }) => {
       try {
-        recipientAddr = Address.parse(recipient_address);
+        const decoded = decodePayload(payload);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(decoded, null, 2) }],
+        };
       } catch (error) {
+        const err = error as Error;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid recipient address: ${recipient_address}. Use format like EQD... or UQD...` 
-          }],
+          content: [{ type: 'text', text: `Error decoding payload: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      if (response_address) {
-        try {
-          responseAddr = Address.parse(response_address);
-        } catch (error) {
+  /**
+   * Tool: Sign proof
+   */
+  server.registerTool(
+    'sign_proof',
+    {
+      title: 'Sign Proof',
+      description: 'Get the ton_proof signed by the wallet at connect time. Request it with connect_wallet request_proof=true or proof_payload.',
+      inputSchema: {
+        payload: z.string().optional().describe('Expected proof payload. Defaults to the payload requested in connect_wallet'),
+        session: sessionSchema,
+      },
+    },
+    async ({ payload, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const walletSession = walletManager.findSession(sessionId);
+        const connector = walletSession?.connector;
+        if (!connector?.connected) {
           return {
             content: [{ 
               type: 'text', 
-              text: `Invalid response address: ${response_address}. Use format like EQD... or UQD...` 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
             }],
             isError: true,
           };
         }
-      }
 
-      // Validate jetton amount
-      if (!/^\d+$/.test(jetton_amount)) {
-        return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid jetton amount: "${jetton_amount}". Must be a numeric string.` 
-          }],
-          isError: true,
+        const tonProof = connector.wallet?.connectItems?.tonProof;
+        
+        if (!tonProof) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'No ton_proof was returned for this connection. ton_proof must be requested during connect: disconnect_wallet, then connect_wallet with request_proof=true or proof_payload.' 
+            }],
+            isError: true,
+          };
+        }
+
+        if (!('proof' in tonProof)) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `The wallet failed to sign ton_proof: ${tonProof.error.message || `error code ${tonProof.error.code}`}` 
+            }],
+            isError: true,
+          };
+        }
+
+        const expectedPayload = payload ?? walletSession?.proofPayload;
+        if (expectedPayload !== undefined && tonProof.proof.payload !== expectedPayload) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `ton_proof payload mismatch: expected "${expectedPayload}", wallet signed "${tonProof.proof.payload}".` 
+            }],
+            isError: true,
+          };
+        }
+
+        const account = connector.wallet!.account;
+        const output = {
+          address: account.address,
+          network: account.chain,
+          publicKey: account.publicKey,
+          walletStateInit: account.walletStateInit,
+          proof: tonProof.proof,
         };
-      }
 
-      const forwardAmount = forward_ton_amount || "1";
-      if (!/^\d+$/.test(forwardAmount)) {
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid forward TON amount: "${forwardAmount}". Must be a numeric string in nanoTON.` 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Proof signing error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      // Build jetton transfer payload
-      // Standard TEP-74 jetton transfer format
-      const body = beginCell()
-        .storeUint(0x0f8a7ea5, 32) // jetton transfer op code
-        .storeUint(0, 64) // query_id
-        .storeCoins(BigInt(jetton_amount)) // amount
-        .storeAddress(recipientAddr) // destination
-        .storeAddress(responseAddr) // response_destination (null if not provided)
-        .storeBit(0) // custom_payload (null)
-        .storeCoins(BigInt(forwardAmount)); // forward_ton_amount
-
-      // Add forward payload if comment provided
-      if (forward_payload) {
-        const commentCell = beginCell()
-          .storeUint(0, 32) // text comment op code
-          .storeStringTail(forward_payload)
-          .endCell();
-        
-        body.storeBit(1); // forward_payload present
-        body.storeRef(commentCell);
-      } else {
-        body.storeBit(0); // no forward_payload
-      }
+  /**
+   * Tool: Verify ton_proof
+   */
+  server.registerTool(
+    'verify_ton_proof',
+    {
+      title: 'Verify TON Proof',
+      description: 'Verify a ton_proof offline: ed25519 signature, domain, timestamp and the public key derived from the wallet stateInit. Uses the proof of the connected wallet unless one is passed explicitly.',
+      inputSchema: {
+        address: addressSchema().optional().describe('Wallet address the proof is for. Defaults to the connected wallet'),
+        state_init: z.string().optional().describe('Base64 wallet stateInit. Defaults to the connected wallet'),
+        public_key: z.string().optional().describe('Hex public key reported by the wallet, cross-checked against stateInit'),
+        proof: z.object({
+          timestamp: z.number(),
+          domain: z.object({
+            lengthBytes: z.number(),
+            value: z.string(),
+          }),
+          payload: z.string(),
+          signature: z.string(),
+        }).optional().describe('ton_proof object as returned by sign_proof. Defaults to the connected wallet proof'),
+        expected_payload: z.string().optional().describe('Payload (nonce) the proof must contain. Defaults to the payload requested in connect_wallet'),
+        allowed_domains: z.array(z.string()).optional().describe(`Domains the proof may be signed for. Default: ${PROOF_ALLOWED_DOMAINS.join(', ')}`),
+        max_age_seconds: z.number().int().positive().optional().describe(`Maximum proof age in seconds. Default: ${PROOF_MAX_AGE_SECONDS}`),
+        session: sessionSchema,
+      },
+    },
+    async ({ address, state_init, public_key, proof, expected_payload, allowed_domains, max_age_seconds, session }) => {
+      try {
+        const walletSession = walletManager.findSession(session);
+        const wallet = walletSession?.connector.connected ? walletSession.connector.wallet : null;
+        const connectedProof = wallet?.connectItems?.tonProof;
 
-      const payloadCell = body.endCell();
-      const payloadBase64 = payloadCell.toBoc().toString('base64');
+        const proofToCheck = proof ?? (connectedProof && 'proof' in connectedProof ? connectedProof.proof : undefined);
+        const proofAddress = address ?? wallet?.account.address;
+        const proofStateInit = state_init ?? wallet?.account.walletStateInit;
 
-      const result = {
-        payload: payloadBase64,
-        details: {
-          recipient: recipient_address,
-          jetton_amount: jetton_amount,
-          forward_ton_amount: forwardAmount,
-          response_destination: response_address || 'null (excess returned to sender)',
-          ...(forward_payload && { comment: forward_payload }),
+        if (!proofToCheck || !proofAddress || !proofStateInit) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'Nothing to verify. Pass proof, address and state_init, or connect a wallet with request_proof=true first.' 
+            }],
+            isError: true,
+          };
         }
-      };
-
-      return {
-        content: [{ 
-          type: 'text', 
-          text: `✅ Jetton Transfer Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(result.details, null, 2)}\n\n**Next Step:**\nUse send_transaction with:\n- to: <YOUR_JETTON_WALLET_ADDRESS> (not the recipient!)\n- amount: "50000000" (0.05 TON for gas)\n- payload: "${payloadBase64}"\n\n⚠️ Important: The 'to' address must be YOUR jetton wallet address, not the recipient's address!` 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Error building payload: ${err.message}` }],
-        isError: true,
-      };
-    }
-  }
-);
 
-/**
- * Tool: Build NFT transfer payload
- */
-server.registerTool(
-  'build_nft_transfer_payload',
-  {
-    title: 'Build NFT Transfer Payload',
-    description: 'Build a payload for NFT transfers. Returns base64 BOC payload ready to use with send_transaction.',
-    inputSchema: {
-      new_owner_address: z.string().describe('New owner TON wallet address (recipient)'),
-      response_address: z.string().optional().describe('Address to receive excess TON. Usually your wallet address.'),
-      forward_amount: z.string().optional().describe('Amount of TON to forward to new owner (in nanoTON). Default: "1"'),
-      forward_payload: z.string().optional().describe('Optional text comment for the transfer'),
-    },
-  },
-  async ({ new_owner_address, response_address, forward_amount, forward_payload }) => {
-    try {
-      // Validate addresses
-      let newOwnerAddr: Address;
-      let responseAddr: Address | null = null;
+        const result = verifyTonProof({
+          address: proofAddress,
+          proof: proofToCheck,
+          stateInit: proofStateInit,
+          publicKey: public_key ?? (address ? undefined : wallet?.account.publicKey),
+          allowedDomains: allowed_domains ?? PROOF_ALLOWED_DOMAINS,
+          maxAgeSeconds: max_age_seconds ?? PROOF_MAX_AGE_SECONDS,
+          expectedPayload: expected_payload ?? (proof ? undefined : walletSession?.proofPayload),
+        });
 
-      try {
-        newOwnerAddr = Address.parse(new_owner_address);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          isError: !result.valid,
+        };
       } catch (error) {
+        const err = error as Error;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid new owner address: ${new_owner_address}. Use format like EQD... or UQD...` 
-          }],
+          content: [{ type: 'text', text: `Proof verification error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      if (response_address) {
-        try {
-          responseAddr = Address.parse(response_address);
-        } catch (error) {
+  /**
+   * Tool: Sign data
+   */
+  server.registerTool(
+    'sign_data',
+    {
+      title: 'Sign Data',
+      description: 'Request the wallet to sign arbitrary data (text, binary or cell). The user approves the signature in their wallet. Useful for off-chain agreements and order intents.',
+      inputSchema: {
+        type: z.enum(['text', 'binary', 'cell']).describe('Type of data to sign'),
+        text: z.string().optional().describe('Text to sign (required if type is "text")'),
+        bytes: z.string().optional().describe('Base64-encoded bytes to sign (required if type is "binary")'),
+        cell: z.string().optional().describe('Base64-encoded BOC to sign (required if type is "cell")'),
+        schema: z.string().optional().describe('TL-B schema of the cell (required if type is "cell")'),
+        network: z.enum(['-239', '-3']).optional().describe(`Network: "-239" for mainnet, "-3" for testnet. Default: the configured network (${TON_NETWORK})`),
+        session: sessionSchema,
+      },
+    },
+    async ({ type, text, bytes, cell, schema, network, session }) => {
+      try {
+        const sessionId = WalletManager.resolveSessionId(session);
+        const connector = walletManager.findSession(sessionId)?.connector;
+        if (!connector?.connected) {
           return {
             content: [{ 
               type: 'text', 
-              text: `Invalid response address: ${response_address}. Use format like EQD... or UQD...` 
+              text: `Wallet not connected in session "${sessionId}". Use connect_wallet to establish a connection first.` 
             }],
             isError: true,
           };
         }
-      }
 
-      const forwardAmt = forward_amount || "1";
-      if (!/^\d+$/.test(forwardAmt)) {
+        const signDataFeature = connector.wallet?.device.features.find(
+          (feature) => typeof feature === 'object' && feature.name === 'SignData'
+        );
+        if (!signDataFeature || typeof signDataFeature !== 'object' || signDataFeature.name !== 'SignData') {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `The connected wallet (${connector.wallet?.device.appName || 'Unknown'}) does not support data signing.` 
+            }],
+            isError: true,
+          };
+        }
+
+        if (!signDataFeature.types.includes(type)) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `The connected wallet does not support signing "${type}" data. Supported types: ${signDataFeature.types.join(', ')}` 
+            }],
+            isError: true,
+          };
+        }
+
+        let payload: SignDataPayload;
+        if (type === 'text') {
+          if (text === undefined) {
+            return {
+              content: [{ type: 'text', text: 'Parameter "text" is required when type is "text".' }],
+              isError: true,
+            };
+          }
+          payload = { type, text };
+        } else if (type === 'binary') {
+          if (!bytes) {
+            return {
+              content: [{ type: 'text', text: 'Parameter "bytes" is required when type is "binary".' }],
+              isError: true,
+            };
+          }
+          payload = { type, bytes };
+        } else {
+          if (!cell || !schema) {
+            return {
+              content: [{ type: 'text', text: 'Parameters "cell" and "schema" are required when type is "cell".' }],
+              isError: true,
+            };
+          }
+          try {
+            Cell.fromBase64(cell);
+          } catch (error) {
+            return {
+              content: [{ type: 'text', text: `Invalid cell: ${(error as Error).message}` }],
+              isError: true,
+            };
+          }
+          payload = { type, cell, schema };
+        }
+
+        payload.network = network ?? NETWORK_CHAINS[TON_NETWORK];
+
+        const auditSignData = (outcome: AuditOutcome, details: Record<string, unknown> = {}) =>
+          auditLog.record({ event: 'sign_data', outcome, session: sessionId, wallet: connector.wallet?.account.address, details });
+        // Fails closed: nothing is sent to the wallet without its audit entry
+        await auditLog.recordStrict({ event: 'sign_data', outcome: 'requested', session: sessionId, wallet: connector.wallet?.account.address, details: { payload } });
+
+        try {
+          const result = await connector.signData(payload);
+          await auditSignData('approved', { signature: result.signature, timestamp: result.timestamp, domain: result.domain });
+
+          const output = {
+            signature: result.signature,
+            address: result.address,
+            timestamp: result.timestamp,
+            domain: result.domain,
+            payload: result.payload,
+          };
+
+          return {
+            content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+          };
+        } catch (error) {
+          if (error instanceof UserRejectsError) {
+            await auditSignData('rejected');
+            return {
+              content: [{ 
+                type: 'text', 
+                text: 'Signing rejected by user in their wallet.' 
+              }],
+              isError: true,
+            };
+          }
+          await auditSignData('error', { error: (error as Error).message });
+          throw error;
+        }
+      } catch (error) {
+        const err = error as Error;
         return {
-          content: [{ 
-            type: 'text', 
-            text: `Invalid forward amount: "${forwardAmt}". Must be a numeric string in nanoTON.` 
-          }],
+          content: [{ type: 'text', text: `Sign data error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
 
-      // Build NFT transfer payload
-      // Standard TEP-62 NFT transfer format
-      const body = beginCell()
-        .storeUint(0x5fcc3d14, 32) // NFT transfer op code
-        .storeUint(0, 64) // query_id
-        .storeAddress(newOwnerAddr) // new_owner
-        .storeAddress(responseAddr) // response_destination
-        .storeBit(0) // custom_payload (null)
-        .storeCoins(BigInt(forwardAmt)); // forward_amount
-
-      // Add forward payload if comment provided
-      if (forward_payload) {
-        const commentCell = beginCell()
-          .storeUint(0, 32) // text comment op code
-          .storeStringTail(forward_payload)
-          .endCell();
-        
-        body.storeBit(1); // forward_payload present
-        body.storeRef(commentCell);
-      } else {
-        body.storeBit(0); // no forward_payload
-      }
-
-      const payloadCell = body.endCell();
-      const payloadBase64 = payloadCell.toBoc().toString('base64');
+  /**
+   * Tool: Verify signed data
+   */
+  server.registerTool(
+    'verify_signed_data',
+    {
+      title: 'Verify Signed Data',
+      description: 'Verify a sign_data result locally: recompute the hash for text, binary or cell payloads, check the ed25519 signature and that the key belongs to the signer address (the stateInit hashes to it, or the deployed wallet reports the key).',
+      inputSchema: {
+        signature: z.string().describe('Base64 signature returned by sign_data'),
+        address: addressSchema().describe('Signer address returned by sign_data'),
+        timestamp: z.number().int().describe('Timestamp returned by sign_data'),
+        domain: z.string().describe('Domain returned by sign_data'),
+        payload: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('text'), text: z.string() }),
+          z.object({ type: z.literal('binary'), bytes: z.string() }),
+          z.object({ type: z.literal('cell'), cell: z.string(), schema: z.string() }),
+        ]).describe('Payload returned by sign_data'),
+        public_key: z.string().optional().describe('Hex public key of the signer. Without state_init it is checked against the deployed wallet\'s get_public_key. Defaults to the connected wallet key when the address matches'),
+        state_init: z.string().optional().describe('Base64 wallet stateInit to read the public key from'),
+        session: sessionSchema,
+      },
+    },
+    async ({ signature, address, timestamp, domain, payload, public_key, state_init, session }) => {
+      try {
+        let publicKey = public_key;
+        let stateInit = state_init;
 
-      const result = {
-        payload: payloadBase64,
-        details: {
-          new_owner: new_owner_address,
-          forward_amount: forwardAmt,
-          response_destination: response_address || 'null (excess returned to sender)',
-          ...(forward_payload && { comment: forward_payload }),
+        // Fall back to the connected wallet's key material when it signed the data
+        const account = walletManager.findSession(session)?.connector.account;
+        if (!publicKey && !stateInit && account && Address.parse(account.address).equals(Address.parse(address))) {
+          publicKey = account.publicKey;
+          stateInit = account.walletStateInit;
         }
-      };
 
-      return {
-        content: [{ 
-          type: 'text', 
-          text: `✅ NFT Transfer Payload Built!\n\n**Base64 Payload:**\n\`\`\`\n${payloadBase64}\n\`\`\`\n\n**Details:**\n${JSON.stringify(result.details, null, 2)}\n\n**Next Step:**\nUse send_transaction with:\n- to: <NFT_ITEM_ADDRESS> (the specific NFT contract address)\n- amount: "50000000" (0.05 TON for gas)\n- payload: "${payloadBase64}"\n\n⚠️ Important: The 'to' address must be the NFT item's contract address!` 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Error building NFT payload: ${err.message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+        const result = await verifySignedData({
+          signature,
+          address,
+          timestamp,
+          domain,
+          payload,
+          publicKey,
+          stateInit,
+        }, chainProvider);
 
-/**
- * Tool: Sign proof
- */
-server.registerTool(
-  'sign_proof',
-  {
-    title: 'Sign Proof',
-    description: 'Request the wallet to sign a proof payload for authentication.',
-    inputSchema: {
-      payload: z.string().describe('The payload to sign'),
-    },
-  },
-  async ({ payload }) => {
-    try {
-      if (!connector.connected) {
         return {
-          content: [{ 
-            type: 'text', 
-            text: 'Wallet not connected. Use connect_wallet to establish a connection first.' 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          isError: !result.valid,
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Signature verification error: ${err.message}` }],
           isError: true,
         };
       }
+    }
+  );
+
+  /**
+   * Tool: Get audit log
+   */
+  server.registerTool(
+    'get_audit_log',
+    {
+      title: 'Get Audit Log',
+      description: 'Query the audit log of wallet interactions (connects, disconnects, transaction requests, approvals, rejections, policy decisions, sign_data). Entries are hash-chained; the response says whether the chain is intact. Can export as CSV.',
+      inputSchema: {
+        from: z.string().optional().describe('Start of the time range (ISO date or Unix seconds)'),
+        to: z.string().optional().describe('End of the time range (ISO date or Unix seconds)'),
+        address: addressSchema().optional().describe('Only entries involving this address (wallet or recipient)'),
+        event: z.enum(AUDIT_EVENTS).optional().describe('Only entries of this event type'),
+        outcome: z.enum(AUDIT_OUTCOMES).optional().describe('Only entries with this outcome'),
+        session: z.string().optional().describe('Only entries from this wallet session'),
+        limit: z.number().int().positive().optional().describe('Return only the most recent N matching entries. Default: 100'),
+        format: z.enum(['json', 'csv']).optional().describe('Output format. Default: json'),
+      },
+    },
+    async ({ from, to, address, event, outcome, session, limit, format }) => {
+      try {
+        const entries = await auditLog.query({
+          from: from ? parseTime(from) : undefined,
+          to: to ? parseTime(to) : undefined,
+          address,
+          event,
+          outcome,
+          session,
+          limit: limit ?? 100,
+        });
+        const chain = await auditLog.verify();
+
+        if (format === 'csv') {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Audit log (${entries.length} entries, chain ${chain.valid ? 'intact' : `broken at entry ${chain.brokenAt}`}):\n\n${auditEntriesToCsv(entries)}` 
+            }],
+          };
+        }
 
-      const wallet = connector.wallet;
-      
-      if (!wallet?.connectItems?.tonProof) {
+        const result = {
+          storage: AUDIT_LOG_FILE ?? 'in-memory',
+          chain,
+          count: entries.length,
+          entries,
+        };
         return {
-          content: [{ 
-            type: 'text', 
-            text: 'The connected wallet does not support proof signing. This feature requires a wallet that implements ton_proof.' 
-          }],
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        const err = error as Error;
+        return {
+          content: [{ type: 'text', text: `Audit log error: ${err.message}` }],
           isError: true,
         };
       }
-
-      return {
-        content: [{ 
-          type: 'text', 
-          text: `Proof signing is supported by the wallet, but the TON Connect SDK requires proof to be configured during initial connection.\n\nTo use proof signing:\n1. Disconnect current wallet\n2. Reconnect with proof configuration\n3. The proof will be available in the connection response\n\nNote: ton_proof must be requested during the connect() call, not as a separate operation.` 
-        }],
-      };
-    } catch (error) {
-      const err = error as Error;
-      return {
-        content: [{ type: 'text', text: `Proof signing error: ${err.message}` }],
-        isError: true,
-      };
     }
-  }
-);
+  );
+
+  return server;
+}
+
+// Wallet managers of connected clients: one for stdio, one per HTTP session
+const walletManagers: Set<WalletManager> = new Set();
 
 // Graceful shutdown
 async function shutdown(): Promise<void> {
   try {
-    if (connector.connected) {
-      await connector.disconnect();
-    }
+    // Persistent stdio sessions must survive the restart, so only drop in-memory ones.
+    // HTTP sessions cannot be resumed by their clients, so they always end here.
+    const keepSessions = TRANSPORT_CONFIG.mode === 'stdio' && STORAGE_CONFIG.backend === 'file';
+    await Promise.all([...walletManagers].map((manager) => (keepSessions ? manager.shutdown(true) : manager.clear())));
     process.exit(0);
   } catch (error) {
     process.exit(1);
@@ -725,14 +3492,66 @@ async function shutdown(): Promise<void> {
 process.on('SIGINT', shutdown);
 process.on('SIGTERM', shutdown);
 
-// Start stdio transport
-const transport = new StdioServerTransport();
-await server.connect(transport);
+if (TRANSPORT_CONFIG.mode === 'http') {
+  // Start streamable HTTP transport: every MCP session gets its own wallet
+  // connections, storage namespace and audit scope
+  const token = TRANSPORT_CONFIG.token ?? randomBytes(32).toString('hex');
+  await startHttpServer({
+    host: TRANSPORT_CONFIG.host,
+    port: TRANSPORT_CONFIG.port,
+    token,
+    createSession: (sessionId) => {
+      const audit = auditLog.scoped(sessionId);
+      const walletManager = new WalletManager(new NamespacedStorage(storage, `client:${sessionId}:`), MANIFEST_URL, { network: TON_NETWORK, audit });
+      walletManagers.add(walletManager);
+      return {
+        server: createServer(walletManager, audit),
+        close: async () => {
+          walletManagers.delete(walletManager);
+          await walletManager.clear();
+        },
+      };
+    },
+  });
+
+  console.error(`🌐 HTTP transport: http://${TRANSPORT_CONFIG.host}:${TRANSPORT_CONFIG.port}${MCP_HTTP_PATH}`);
+  if (!TRANSPORT_CONFIG.token) {
+    console.error(`🔑 TON_MCP_HTTP_TOKEN not set, generated bearer token: ${token}`);
+  }
+} else {
+  const walletManager = new WalletManager(storage, MANIFEST_URL, { network: TON_NETWORK, audit: auditLog });
+  walletManagers.add(walletManager);
+
+  // Try to restore previous connections
+  try {
+    await walletManager.restore();
+  } catch (error) {
+    // Silently ignore restore errors
+  }
+
+  // Start stdio transport
+  const transport = new StdioServerTransport();
+  await createServer(walletManager, auditLog).connect(transport);
+}
 
 console.error('🚀 TON Connect MCP Server Ready!');
 console.error(`Manifest: ${MANIFEST_URL === DEFAULT_MANIFEST_URL ? 'Palette (default)' : MANIFEST_URL}`);
-console.error('✨ Tools: list_wallets, connect_wallet, disconnect_wallet, get_wallet_status,');
-console.error('         send_transaction, build_jetton_transfer_payload,');
-console.error('         build_nft_transfer_payload, sign_proof');
+console.error(`Storage: ${STORAGE_CONFIG.backend === 'file' ? `encrypted file (${STORAGE_CONFIG.dir})` : 'in-memory (default)'}`);
+console.error(`Network: ${TON_NETWORK} (API: ${TON_API_URL})`);
+console.error(`Spending policy: ${POLICY_FILE ?? 'none'}`);
+if (POLICY_FILE && STORAGE_CONFIG.backend !== 'file') {
+  // The memory backend covers sessions only; an in-memory ledger would reset the daily limits on restart
+  console.error(`Policy ledger: encrypted file in ${STORAGE_CONFIG.dir} (always on disk; TONCONNECT_STORAGE=memory keeps only sessions in memory)`);
+}
+console.error(`Audit log: ${AUDIT_LOG_FILE ?? 'in-memory'}`);
+console.error(`Address book: ${ADDRESS_BOOK_FILE}`);
+console.error('✨ Tools: list_wallets, connect_wallet, await_connection, disconnect_wallet, get_wallet_status, list_sessions,');
+console.error('         get_balance, get_account_state, save_address, list_addresses, remove_address, convert_address,');
+console.error('         send_transaction, estimate_transaction, get_transaction_status,');
+console.error('         get_transactions, watch_payments, create_payment_request, parse_payment_link, send_jetton,');
+console.error('         build_jetton_transfer_payload, build_jetton_burn_payload, build_jetton_mint_payload, build_jetton_admin_payload,');
+console.error('         build_nft_transfer_payload, list_nfts, get_nft_info, send_nft, deploy_contract,');
+console.error('         decode_payload, sign_proof, verify_ton_proof, sign_data, verify_signed_data, get_audit_log');
 console.error('📦 BOC Building: Enabled (@ton/ton included)');
+console.error(`📡 Resources: ${CURRENT_WALLET_URI}, ton://wallet/session/{session}, ton://payments/watch/{id}`);
 
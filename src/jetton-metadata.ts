@@ -0,0 +1,295 @@
+import { createHash } from 'node:crypto';
+import dns from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { Address, beginCell, Cell, Dictionary, type Slice } from '@ton/core';
+import type { ChainProvider } from './chain-provider.js';
+
+const OFFCHAIN_CONTENT_PREFIX = 0x01;
+const ONCHAIN_CONTENT_PREFIX = 0x00;
+const SNAKE_DATA_PREFIX = 0x00;
+const CHUNKED_DATA_PREFIX = 0x01;
+
+const DEFAULT_JETTON_DECIMALS = 9;
+const METADATA_FETCH_TIMEOUT_MS = 10000;
+const MAX_METADATA_BYTES = 256 * 1024;
+const MAX_METADATA_REDIRECTS = 3;
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+// Metadata URIs come from arbitrary contracts: never let them reach the server's own network
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+const METADATA_KEYS = ['uri', 'name', 'description', 'image', 'image_data', 'symbol', 'decimals'] as const;
+type MetadataKey = (typeof METADATA_KEYS)[number];
+
+/**
+ * TEP-64 token metadata, as stored in jetton masters and NFT collections/items
+ */
+export type TokenContent = Partial<Record<MetadataKey, string>> & {
+  source: 'onchain' | 'offchain' | 'semichain';
+  /** Why the off-chain part is missing, when parsed with `allowOffchainFailure` */
+  offchainError?: string;
+};
+
+export interface ParseContentOptions {
+  /** Keep the on-chain values when the off-chain URI cannot be fetched, instead of throwing */
+  allowOffchainFailure?: boolean;
+}
+
+export interface JettonMetadata {
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number;
+  description: string | null;
+  image: string | null;
+  totalSupply: string;
+  mintable: boolean;
+  admin: string | null;
+  /** Set when the off-chain metadata could not be fetched and on-chain values or defaults are used */
+  warning?: string;
+}
+
+function keyHash(key: string): bigint {
+  return BigInt('0x' + createHash('sha256').update(key).digest('hex'));
+}
+
+/**
+ * Read a value cell: 0x00 snake data or 0x01 chunked data
+ */
+function readContentValue(slice: Slice): string {
+  if (slice.remainingBits === 0 && slice.remainingRefs === 0) {
+    return '';
+  }
+
+  const prefix = slice.loadUint(8);
+  if (prefix === SNAKE_DATA_PREFIX) {
+    return slice.loadStringTail();
+  }
+  if (prefix === CHUNKED_DATA_PREFIX) {
+    const chunks = slice.loadDict(Dictionary.Keys.Uint(32), Dictionary.Values.Cell());
+    return chunks
+      .keys()
+      .sort((a, b) => a - b)
+      .map((key) => chunks.get(key)!.beginParse().loadStringTail())
+      .join('');
+  }
+  throw new Error(`Unknown TEP-64 data prefix: 0x${prefix.toString(16)}`);
+}
+
+/**
+ * Resolve ipfs:// links through a public gateway
+ */
+function toFetchableUrl(uri: string): string {
+  return uri.startsWith('ipfs://') ? `${IPFS_GATEWAY}${uri.slice('ipfs://'.length)}` : uri;
+}
+
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges by BlockList itself
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Only https URLs whose host resolves to public addresses may be fetched
+ */
+async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid metadata URI: ${url}`);
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new Error(`Metadata URI must use https or ipfs, got ${parsed.protocol.replace(':', '')}`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new Error(`Metadata host is not public: ${host}`);
+  }
+  const addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`Metadata host is not public: ${host}`);
+  }
+  return parsed;
+}
+
+/**
+ * Read a response body, failing once it grows past the limit
+ */
+async function readLimited(response: Response, limit: number): Promise<string> {
+  if (Number(response.headers.get('content-length')) > limit) {
+    throw new Error(`Metadata is larger than ${limit} bytes`);
+  }
+  if (!response.body) {
+    return '';
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.length;
+    if (size > limit) {
+      await response.body.cancel().catch(() => {});
+      throw new Error(`Metadata is larger than ${limit} bytes`);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Fetch metadata JSON. Redirects are followed by hand so every hop is checked.
+ */
+async function fetchOffchainContent(uri: string): Promise<Partial<Record<MetadataKey, string>>> {
+  const signal = AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS);
+  let url = toFetchableUrl(uri);
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+    response = await fetch(url, { signal, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    if (redirects === MAX_METADATA_REDIRECTS) {
+      throw new Error(`Failed to fetch metadata from ${uri}: too many redirects`);
+    }
+    url = new URL(location, url).toString();
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch metadata from ${uri}: ${response.status} ${response.statusText}`);
+  }
+
+  const json = JSON.parse(await readLimited(response, MAX_METADATA_BYTES)) as Record<string, unknown>;
+  const content: Partial<Record<MetadataKey, string>> = {};
+  for (const key of METADATA_KEYS) {
+    if (json[key] !== undefined && json[key] !== null) {
+      content[key] = String(json[key]);
+    }
+  }
+  return content;
+}
+
+/**
+ * Parse a TEP-64 content cell. Off-chain and semi-chain content is fetched
+ * from its URI; on-chain values take precedence over off-chain ones.
+ */
+export async function parseTokenContent(content: Cell, options: ParseContentOptions = {}): Promise<TokenContent> {
+  const slice = content.beginParse();
+  const prefix = slice.loadUint(8);
+
+  const fetchOffchain = async (uri: string): Promise<{ values: Partial<Record<MetadataKey, string>>; offchainError?: string }> => {
+    try {
+      return { values: await fetchOffchainContent(uri) };
+    } catch (error) {
+      if (!options.allowOffchainFailure) {
+        throw error;
+      }
+      return { values: {}, offchainError: (error as Error).message };
+    }
+  };
+
+  if (prefix === OFFCHAIN_CONTENT_PREFIX) {
+    const uri = slice.loadStringTail();
+    const { values, offchainError } = await fetchOffchain(uri);
+    return { ...values, uri, source: 'offchain', ...(offchainError && { offchainError }) };
+  }
+
+  if (prefix !== ONCHAIN_CONTENT_PREFIX) {
+    throw new Error(`Unknown TEP-64 content prefix: 0x${prefix.toString(16)}`);
+  }
+
+  const dict = slice.loadDict(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+  const onchain: Partial<Record<MetadataKey, string>> = {};
+  for (const key of METADATA_KEYS) {
+    const value = dict.get(keyHash(key));
+    if (value) {
+      onchain[key] = readContentValue(value.beginParse());
+    }
+  }
+
+  if (onchain.uri) {
+    const { values, offchainError } = await fetchOffchain(onchain.uri);
+    return { ...values, ...onchain, source: 'semichain', ...(offchainError && { offchainError }) };
+  }
+  return { ...onchain, source: 'onchain' };
+}
+
+/**
+ * Off-chain TEP-64 content cell pointing at a metadata JSON
+ */
+export function buildOffchainContent(uri: string): Cell {
+  return beginCell()
+    .storeUint(OFFCHAIN_CONTENT_PREFIX, 8) // off-chain content prefix
+    .storeStringTail(uri)
+    .endCell();
+}
+
+const metadataCache: Map<string, JettonMetadata> = new Map();
+
+/**
+ * Read jetton master data via get_jetton_data and parse its TEP-64 content.
+ * When the off-chain metadata cannot be fetched, the on-chain values and the
+ * default decimals are used with a warning, and the result is not cached.
+ * Other results are cached for the lifetime of the process.
+ */
+export async function getJettonMetadata(provider: ChainProvider, master: Address): Promise<JettonMetadata> {
+  const key = master.toRawString();
+  const cached = metadataCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const stack = await provider.runGetMethod(master.toString(), 'get_jetton_data');
+  const totalSupply = stack.readBigNumber();
+  const mintable = stack.readBoolean();
+  const admin = stack.readAddressOpt();
+  const content = await parseTokenContent(stack.readCell(), { allowOffchainFailure: true });
+
+  const decimals = content.decimals !== undefined ? Number(content.decimals) : DEFAULT_JETTON_DECIMALS;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Jetton ${master.toString()} has invalid decimals in metadata: "${content.decimals}"`);
+  }
+
+  const metadata: JettonMetadata = {
+    address: master.toString(),
+    name: content.name ?? null,
+    symbol: content.symbol ?? null,
+    decimals,
+    description: content.description ?? null,
+    image: content.image ?? null,
+    totalSupply: totalSupply.toString(),
+    mintable,
+    admin: admin?.toString() ?? null,
+  };
+  if (content.offchainError) {
+    const defaults = content.decimals === undefined ? ` and the default of ${DEFAULT_JETTON_DECIMALS} decimals` : '';
+    metadata.warning = `Off-chain metadata unavailable (${content.offchainError}), using the on-chain values${defaults}`;
+    console.error(`[Jettons] ${master.toString()}: ${metadata.warning}`);
+    return metadata;
+  }
+  metadataCache.set(key, metadata);
+  return metadata;
+}
@@ -0,0 +1,233 @@
+import { Address, beginCell, Builder, Cell } from '@ton/core';
+import { ChainProviderError, type ChainProvider } from './chain-provider.js';
+import type { TonNetwork } from './network.js';
+
+export const JETTON_TRANSFER_OP = 0x0f8a7ea5;
+export const JETTON_BURN_OP = 0x595f07bc;
+export const JETTON_INTERNAL_TRANSFER_OP = 0x178d4519;
+export const JETTON_TRANSFER_NOTIFICATION_OP = 0x7362d09c;
+export const EXCESSES_OP = 0xd53276db;
+
+/** Admin operations of the standard jetton minter (token-contract jetton-minter.fc) */
+export const JETTON_MINT_OP = 21;
+export const JETTON_CHANGE_ADMIN_OP = 3;
+export const JETTON_CHANGE_CONTENT_OP = 4;
+
+/**
+ * Well-known mainnet jetton masters, so agents can say "USDT" instead of an address
+ */
+export const KNOWN_JETTONS: Record<string, string> = {
+  USDT: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs',
+  NOT: 'EQAvlWFDxGF2lXm67y4yzC17wYKD9A0guwPkMs1gOsM__NOT',
+  DOGS: 'EQCvxJy4eG8hyHBFsZ7eePxrRsUQSFE_jpptRAYBmcG_DOGS',
+};
+
+export interface JettonTransferParams {
+  queryId?: bigint;
+  amount: bigint;
+  destination: Address;
+  responseDestination: Address | null;
+  forwardTonAmount: bigint;
+  /** Cell stored as the custom_payload ref, for jettons that require one */
+  customPayload?: Cell | null;
+  /** Cell stored as the forward_payload ref */
+  forwardPayload?: Cell | null;
+}
+
+export interface JettonBurnParams {
+  queryId?: bigint;
+  amount: bigint;
+  responseDestination: Address | null;
+  customPayload?: Cell | null;
+}
+
+export interface JettonMintParams {
+  queryId?: bigint;
+  /** Owner of the jetton wallet that receives the minted jettons */
+  destination: Address;
+  jettonAmount: bigint;
+  /** TON the minter attaches to the internal transfer; pays for the wallet deploy and forward */
+  tonAmount: bigint;
+  responseDestination: Address | null;
+  forwardTonAmount: bigint;
+  forwardPayload?: Cell | null;
+}
+
+/**
+ * Resolve a jetton master from its address or a known symbol.
+ * Known symbols are mainnet masters and are not available on testnet.
+ */
+export function resolveJettonMaster(jetton: string, network: TonNetwork = 'mainnet'): Address {
+  const known = KNOWN_JETTONS[jetton.trim().toUpperCase()];
+  if (known) {
+    if (network !== 'mainnet') {
+      throw new Error(`Jetton symbol "${jetton}" refers to a mainnet master. Use the jetton master address on ${network}.`);
+    }
+    return Address.parse(known);
+  }
+
+  try {
+    return Address.parse(jetton);
+  } catch (error) {
+    throw new Error(`Unknown jetton "${jetton}". Use a jetton master address or one of: ${Object.keys(KNOWN_JETTONS).join(', ')}`);
+  }
+}
+
+/**
+ * Ask the jetton master for the owner's jetton wallet address (get_wallet_address)
+ */
+export async function getJettonWalletAddress(provider: ChainProvider, master: Address, owner: Address): Promise<Address> {
+  const stack = await provider.runGetMethod(master.toString(), 'get_wallet_address', [
+    { type: 'slice', cell: beginCell().storeAddress(owner).endCell() },
+  ]);
+  return stack.readAddress();
+}
+
+/**
+ * Jetton balance of a jetton wallet (get_wallet_data). An undeployed wallet has no jettons.
+ */
+export async function getJettonBalance(provider: ChainProvider, jettonWallet: Address): Promise<bigint> {
+  try {
+    const stack = await provider.runGetMethod(jettonWallet.toString(), 'get_wallet_data');
+    return stack.readBigNumber();
+  } catch (error) {
+    if (error instanceof ChainProviderError && error.exitCode !== undefined) {
+      return 0n;
+    }
+    throw error;
+  }
+}
+
+export interface JettonWalletData {
+  balance: bigint;
+  owner: Address;
+  master: Address;
+}
+
+/**
+ * Owner and master of a jetton wallet (get_wallet_data)
+ */
+export async function getJettonWalletData(provider: ChainProvider, jettonWallet: Address): Promise<JettonWalletData> {
+  const stack = await provider.runGetMethod(jettonWallet.toString(), 'get_wallet_data');
+  return {
+    balance: stack.readBigNumber(),
+    owner: stack.readAddress(),
+    master: stack.readAddress(),
+  };
+}
+
+export interface JettonMinterData {
+  totalSupply: bigint;
+  mintable: boolean;
+  admin: Address | null;
+}
+
+/**
+ * Supply and admin of a jetton master (get_jetton_data), read fresh: unlike the
+ * cached metadata, the admin changes with change_admin
+ */
+export async function getJettonMinterData(provider: ChainProvider, master: Address): Promise<JettonMinterData> {
+  const stack = await provider.runGetMethod(master.toString(), 'get_jetton_data');
+  return {
+    totalSupply: stack.readBigNumber(),
+    mintable: stack.readBoolean(),
+    admin: stack.readAddressOpt(),
+  };
+}
+
+/**
+ * Standard TEP-74 jetton transfer body
+ */
+export function buildJettonTransferBody(params: JettonTransferParams): Cell {
+  const body = beginCell()
+    .storeUint(JETTON_TRANSFER_OP, 32) // jetton transfer op code
+    .storeUint(params.queryId ?? 0n, 64) // query_id
+    .storeCoins(params.amount) // amount
+    .storeAddress(params.destination) // destination
+    .storeAddress(params.responseDestination) // response_destination (null if not provided)
+    .storeMaybeRef(params.customPayload ?? null) // custom_payload
+    .storeCoins(params.forwardTonAmount); // forward_ton_amount
+
+  storeForwardPayload(body, params.forwardPayload);
+  return body.endCell();
+}
+
+/**
+ * forward_payload:(Either Cell ^Cell), always stored as a ref
+ */
+function storeForwardPayload(body: Builder, forwardPayload: Cell | null | undefined): void {
+  if (forwardPayload) {
+    body.storeBit(1); // forward_payload present
+    body.storeRef(forwardPayload);
+  } else {
+    body.storeBit(0); // no forward_payload
+  }
+}
+
+/**
+ * Standard TEP-74 burn body, sent to the owner's jetton wallet
+ */
+export function buildJettonBurnBody(params: JettonBurnParams): Cell {
+  if (params.amount <= 0n) {
+    throw new Error('Burn amount must be greater than zero.');
+  }
+  return beginCell()
+    .storeUint(JETTON_BURN_OP, 32) // burn op code
+    .storeUint(params.queryId ?? 0n, 64) // query_id
+    .storeCoins(params.amount) // amount
+    .storeAddress(params.responseDestination) // response_destination
+    .storeMaybeRef(params.customPayload ?? null) // custom_payload
+    .endCell();
+}
+
+/**
+ * Mint body for the standard jetton minter, sent by the admin to the master.
+ * The minter forwards the inner internal_transfer to the destination's jetton wallet.
+ */
+export function buildJettonMintBody(params: JettonMintParams): Cell {
+  if (params.jettonAmount <= 0n) {
+    throw new Error('Mint amount must be greater than zero.');
+  }
+  if (params.forwardTonAmount >= params.tonAmount) {
+    throw new Error('The TON attached to the mint must exceed the forward TON amount, or the jetton wallet cannot pay for its own fees.');
+  }
+
+  const internalTransfer = beginCell()
+    .storeUint(JETTON_INTERNAL_TRANSFER_OP, 32) // internal_transfer op code
+    .storeUint(params.queryId ?? 0n, 64) // query_id
+    .storeCoins(params.jettonAmount) // amount
+    .storeAddress(null) // from (minter)
+    .storeAddress(params.responseDestination) // response_address
+    .storeCoins(params.forwardTonAmount); // forward_ton_amount
+  storeForwardPayload(internalTransfer, params.forwardPayload);
+
+  return beginCell()
+    .storeUint(JETTON_MINT_OP, 32) // mint op code
+    .storeUint(params.queryId ?? 0n, 64) // query_id
+    .storeAddress(params.destination) // to_address
+    .storeCoins(params.tonAmount) // amount of TON sent to the jetton wallet
+    .storeRef(internalTransfer.endCell()) // master_msg
+    .endCell();
+}
+
+/**
+ * Hand the minter's admin rights to another address
+ */
+export function buildJettonChangeAdminBody(newAdmin: Address, queryId: bigint = 0n): Cell {
+  return beginCell()
+    .storeUint(JETTON_CHANGE_ADMIN_OP, 32) // change_admin op code
+    .storeUint(queryId, 64) // query_id
+    .storeAddress(newAdmin) // new_admin_address
+    .endCell();
+}
+
+/**
+ * Replace the minter's TEP-64 content cell
+ */
+export function buildJettonChangeContentBody(content: Cell, queryId: bigint = 0n): Cell {
+  return beginCell()
+    .storeUint(JETTON_CHANGE_CONTENT_OP, 32) // change_content op code
+    .storeUint(queryId, 64) // query_id
+    .storeRef(content) // content
+    .endCell();
+}
@@ -0,0 +1,121 @@
+import { CHAIN, type Wallet } from '@tonconnect/sdk';
+import { Address } from '@ton/core';
+
+/**
+ * Network the server works on. Wallet connections, transaction requests,
+ * address flags and chain reads are all checked against it.
+ */
+export type TonNetwork = 'mainnet' | 'testnet';
+
+export const NETWORK_CHAINS: Record<TonNetwork, CHAIN> = {
+  mainnet: CHAIN.MAINNET,
+  testnet: CHAIN.TESTNET,
+};
+
+export const DEFAULT_API_URLS: Record<TonNetwork, string> = {
+  mainnet: 'https://toncenter.com/api/v3',
+  testnet: 'https://testnet.toncenter.com/api/v3',
+};
+
+export function parseNetwork(value: string | undefined): TonNetwork {
+  if (!value) {
+    return 'mainnet';
+  }
+
+  const network = value.toLowerCase();
+  if (network !== 'mainnet' && network !== 'testnet') {
+    throw new Error(`Invalid TON_NETWORK value: "${value}". Use "mainnet" or "testnet".`);
+  }
+  return network;
+}
+
+export function chainName(chain: string): string {
+  if (chain === CHAIN.MAINNET) {
+    return 'mainnet';
+  }
+  if (chain === CHAIN.TESTNET) {
+    return 'testnet';
+  }
+  return `chain ${chain}`;
+}
+
+/**
+ * Describe why a connected wallet cannot be used on the network, or null if it can
+ */
+export function getNetworkMismatch(wallet: Wallet | null, network: TonNetwork): string | null {
+  if (!wallet || wallet.account.chain === NETWORK_CHAINS[network]) {
+    return null;
+  }
+  return `Wallet is connected to ${chainName(wallet.account.chain)}, but this server is configured for ${network} (TON_NETWORK).`;
+}
+
+/**
+ * Explain why a string is not a valid address, as precisely as the input allows
+ */
+function describeAddressError(value: string, error: unknown): string {
+  const reason = error instanceof Error ? error.message : String(error);
+  const hint = 'Use a user-friendly address like EQD... or UQD... (48 characters) or a raw address like 0:<64 hex characters>.';
+  if (/^-?\d+:/.test(value)) {
+    return 'Raw addresses are <workchain>:<64 hex characters>.';
+  }
+  if (value.length !== 48) {
+    return `It has ${value.length} characters, a user-friendly address has 48. ${hint}`;
+  }
+  if (!/^[A-Za-z0-9+/_-]+$/.test(value)) {
+    return `It contains characters that cannot appear in an address. ${hint}`;
+  }
+  if (/checksum/i.test(reason)) {
+    return 'The checksum does not match, so a character was probably mistyped or swapped. Copy the address again from its source.';
+  }
+  return `${reason}. ${hint}`;
+}
+
+export interface ParsedAddress {
+  address: Address;
+  /** Flags of a user-friendly address; null for raw addresses, which carry none */
+  flags: { isBounceable: boolean; isTestOnly: boolean } | null;
+}
+
+/**
+ * Parse an address in any format without checking it against a network
+ */
+export function parseAnyAddress(input: string, label = 'address'): ParsedAddress {
+  const value = input.trim();
+  if (Address.isRaw(value)) {
+    return { address: Address.parseRaw(value), flags: null };
+  }
+
+  try {
+    const { address, isBounceable, isTestOnly } = Address.parseFriendly(value);
+    return { address, flags: { isBounceable, isTestOnly } };
+  } catch (error) {
+    throw new Error(`Invalid ${label}: ${input}. ${describeAddressError(value, error)}`);
+  }
+}
+
+/**
+ * Why a user-friendly address does not belong to the network, or null if it does
+ */
+export function describeNetworkMismatch(parsed: ParsedAddress, network: TonNetwork): string | null {
+  if (!parsed.flags || parsed.flags.isTestOnly === (network === 'testnet')) {
+    return null;
+  }
+
+  const expected = parsed.address.toString({ bounceable: parsed.flags.isBounceable, testOnly: network === 'testnet' });
+  return parsed.flags.isTestOnly
+    ? `It is a testnet-only address, but this server is configured for mainnet. Use its mainnet form ${expected} if it is meant for mainnet.`
+    : `It is a mainnet address, but this server is configured for testnet. Use its testnet form ${expected} if it is meant for testnet.`;
+}
+
+/**
+ * Parse an address and check its testnet flag against the network, in both
+ * directions. Raw addresses (0:...) carry no flags and are accepted on both networks.
+ */
+export function parseNetworkAddress(input: string, network: TonNetwork, label = 'address'): Address {
+  const parsed = parseAnyAddress(input, label);
+  const mismatch = describeNetworkMismatch(parsed, network);
+  if (mismatch) {
+    throw new Error(`The ${label} ${input.trim()} does not match the network. ${mismatch}`);
+  }
+  return parsed.address;
+}
@@ -0,0 +1,154 @@
+import { Address, beginCell, Cell } from '@ton/core';
+import type { ChainProvider } from './chain-provider.js';
+import { parseTokenContent, type TokenContent } from './jetton-metadata.js';
+
+export const NFT_TRANSFER_OP = 0x5fcc3d14;
+export const NFT_OWNERSHIP_ASSIGNED_OP = 0x05138d91;
+
+export interface NftTransferParams {
+  queryId?: bigint;
+  newOwner: Address;
+  responseDestination: Address | null;
+  forwardAmount: bigint;
+  /** Cell stored as the forward_payload ref */
+  forwardPayload?: Cell | null;
+}
+
+/**
+ * Standard TEP-62 NFT transfer body
+ */
+export function buildNftTransferBody(params: NftTransferParams): Cell {
+  const body = beginCell()
+    .storeUint(NFT_TRANSFER_OP, 32) // NFT transfer op code
+    .storeUint(params.queryId ?? 0n, 64) // query_id
+    .storeAddress(params.newOwner) // new_owner
+    .storeAddress(params.responseDestination) // response_destination
+    .storeBit(0) // custom_payload (null)
+    .storeCoins(params.forwardAmount); // forward_amount
+
+  if (params.forwardPayload) {
+    body.storeBit(1); // forward_payload present
+    body.storeRef(params.forwardPayload);
+  } else {
+    body.storeBit(0); // no forward_payload
+  }
+
+  return body.endCell();
+}
+
+export interface NftItemData {
+  /** False until the collection has deployed and initialised the item */
+  initialized: boolean;
+  index: bigint;
+  collection: Address | null;
+  owner: Address | null;
+  /** Item content; relative to the collection's common content when there is a collection */
+  individualContent: Cell;
+}
+
+export interface NftCollectionData {
+  nextItemIndex: bigint;
+  content: Cell;
+  owner: Address | null;
+}
+
+export interface NftInfo {
+  address: string;
+  index: string;
+  initialized: boolean;
+  owner: string | null;
+  metadata: TokenContent | null;
+  collection: {
+    address: string;
+    owner: string | null;
+    /** -1 for collections with non-sequential indexes */
+    nextItemIndex: string;
+    metadata: TokenContent | null;
+  } | null;
+  /** Metadata that could not be parsed or fetched, e.g. an unreachable URI */
+  metadataErrors?: string[];
+}
+
+/**
+ * Item state (get_nft_data)
+ */
+export async function getNftData(provider: ChainProvider, item: Address): Promise<NftItemData> {
+  const stack = await provider.runGetMethod(item.toString(), 'get_nft_data');
+  return {
+    initialized: stack.readBoolean(),
+    index: stack.readBigNumber(),
+    collection: stack.readAddressOpt(),
+    owner: stack.readAddressOpt(),
+    individualContent: stack.readCell(),
+  };
+}
+
+/**
+ * Collection state (get_collection_data)
+ */
+export async function getCollectionData(provider: ChainProvider, collection: Address): Promise<NftCollectionData> {
+  const stack = await provider.runGetMethod(collection.toString(), 'get_collection_data');
+  return {
+    nextItemIndex: stack.readBigNumber(),
+    content: stack.readCell(),
+    owner: stack.readAddressOpt(),
+  };
+}
+
+/**
+ * Full item content: the collection joins its common content with the
+ * item's individual content (get_nft_content)
+ */
+export async function getNftContent(provider: ChainProvider, collection: Address, index: bigint, individualContent: Cell): Promise<Cell> {
+  const stack = await provider.runGetMethod(collection.toString(), 'get_nft_content', [
+    { type: 'int', value: index },
+    { type: 'cell', cell: individualContent },
+  ]);
+  return stack.readCell();
+}
+
+/**
+ * Item and collection state with parsed TEP-64 metadata. Metadata failures
+ * are reported next to the on-chain data instead of failing the lookup.
+ */
+export async function getNftInfo(provider: ChainProvider, item: Address, addressOptions: { testOnly?: boolean } = {}): Promise<NftInfo> {
+  const data = await getNftData(provider, item);
+  const metadataErrors: string[] = [];
+
+  const parseContent = async (load: () => Promise<Cell>, label: string): Promise<TokenContent | null> => {
+    try {
+      return await parseTokenContent(await load());
+    } catch (error) {
+      metadataErrors.push(`${label}: ${(error as Error).message}`);
+      return null;
+    }
+  };
+
+  let collection: NftInfo['collection'] = null;
+  let metadata: TokenContent | null = null;
+  if (data.collection) {
+    const collectionAddress = data.collection;
+    const collectionData = await getCollectionData(provider, collectionAddress);
+    collection = {
+      address: collectionAddress.toString(addressOptions),
+      owner: collectionData.owner?.toString(addressOptions) ?? null,
+      nextItemIndex: collectionData.nextItemIndex.toString(),
+      metadata: await parseContent(async () => collectionData.content, 'collection'),
+    };
+    if (data.initialized) {
+      metadata = await parseContent(() => getNftContent(provider, collectionAddress, data.index, data.individualContent), 'item');
+    }
+  } else if (data.initialized) {
+    metadata = await parseContent(async () => data.individualContent, 'item');
+  }
+
+  return {
+    address: item.toString(addressOptions),
+    index: data.index.toString(),
+    initialized: data.initialized,
+    owner: data.owner?.toString(addressOptions) ?? null,
+    metadata,
+    collection,
+    ...(metadataErrors.length > 0 && { metadataErrors }),
+  };
+}
@@ -0,0 +1,172 @@
+import { Address, Cell, ExternalAddress, type Slice } from '@ton/core';
+import { describeAmount, TON_UNIT, type AmountDetails } from './amounts.js';
+import {
+  EXCESSES_OP,
+  JETTON_BURN_OP,
+  JETTON_INTERNAL_TRANSFER_OP,
+  JETTON_TRANSFER_NOTIFICATION_OP,
+  JETTON_TRANSFER_OP,
+} from './jettons.js';
+import { NFT_OWNERSHIP_ASSIGNED_OP, NFT_TRANSFER_OP } from './nfts.js';
+import { ENCRYPTED_COMMENT_OP, loadBufferTail, TEXT_COMMENT_OP } from './payloads.js';
+
+/**
+ * Structured description of a message body. Jetton amounts are raw units:
+ * the body does not say which jetton it belongs to.
+ */
+export type DecodedPayload =
+  | { type: 'empty' }
+  | { type: 'text_comment'; comment: string }
+  | { type: 'encrypted_comment'; encryptedBytes: number }
+  | {
+      type: 'jetton_transfer';
+      queryId: string;
+      jettonAmount: string;
+      destination: string | null;
+      responseDestination: string | null;
+      customPayload: boolean;
+      forwardTonAmount: AmountDetails;
+      forwardPayload: DecodedPayload | null;
+    }
+  | { type: 'jetton_burn'; queryId: string; jettonAmount: string; responseDestination: string | null; customPayload: boolean }
+  | {
+      type: 'jetton_internal_transfer';
+      queryId: string;
+      jettonAmount: string;
+      from: string | null;
+      responseAddress: string | null;
+      forwardTonAmount: AmountDetails;
+      forwardPayload: DecodedPayload | null;
+    }
+  | { type: 'jetton_transfer_notification'; queryId: string; jettonAmount: string; sender: string | null; forwardPayload: DecodedPayload | null }
+  | { type: 'excesses'; queryId: string }
+  | {
+      type: 'nft_transfer';
+      queryId: string;
+      newOwner: string | null;
+      responseDestination: string | null;
+      customPayload: boolean;
+      forwardAmount: AmountDetails;
+      forwardPayload: DecodedPayload | null;
+    }
+  | { type: 'nft_ownership_assigned'; queryId: string; previousOwner: string | null; forwardPayload: DecodedPayload | null }
+  | { type: 'unknown'; opCode: string | null; error?: string; cell: string };
+
+function formatAddress(address: Address | ExternalAddress | null): string | null {
+  return address ? address.toString() : null;
+}
+
+/**
+ * forward_payload:(Either Cell ^Cell) - stored inline or in a ref
+ */
+function loadForwardPayload(slice: Slice): DecodedPayload | null {
+  if (slice.remainingBits === 0 && slice.remainingRefs === 0) {
+    return null;
+  }
+  if (slice.loadBit()) {
+    return decodeCell(slice.loadRef());
+  }
+  return slice.remainingBits === 0 && slice.remainingRefs === 0 ? null : decodeCell(slice.asCell());
+}
+
+function decodeKnownOp(op: number, slice: Slice): DecodedPayload | null {
+  switch (op) {
+    case TEXT_COMMENT_OP:
+      return { type: 'text_comment', comment: slice.loadStringTail() };
+    case ENCRYPTED_COMMENT_OP:
+      return { type: 'encrypted_comment', encryptedBytes: loadBufferTail(slice).length };
+    case JETTON_TRANSFER_OP:
+      return {
+        type: 'jetton_transfer',
+        queryId: slice.loadUintBig(64).toString(),
+        jettonAmount: slice.loadCoins().toString(),
+        destination: formatAddress(slice.loadAddressAny()),
+        responseDestination: formatAddress(slice.loadAddressAny()),
+        customPayload: slice.loadMaybeRef() !== null,
+        forwardTonAmount: describeAmount(slice.loadCoins(), TON_UNIT),
+        forwardPayload: loadForwardPayload(slice),
+      };
+    case JETTON_BURN_OP:
+      return {
+        type: 'jetton_burn',
+        queryId: slice.loadUintBig(64).toString(),
+        jettonAmount: slice.loadCoins().toString(),
+        responseDestination: formatAddress(slice.loadAddressAny()),
+        customPayload: slice.remainingBits > 0 && slice.loadMaybeRef() !== null,
+      };
+    case JETTON_INTERNAL_TRANSFER_OP:
+      return {
+        type: 'jetton_internal_transfer',
+        queryId: slice.loadUintBig(64).toString(),
+        jettonAmount: slice.loadCoins().toString(),
+        from: formatAddress(slice.loadAddressAny()),
+        responseAddress: formatAddress(slice.loadAddressAny()),
+        forwardTonAmount: describeAmount(slice.loadCoins(), TON_UNIT),
+        forwardPayload: loadForwardPayload(slice),
+      };
+    case JETTON_TRANSFER_NOTIFICATION_OP:
+      return {
+        type: 'jetton_transfer_notification',
+        queryId: slice.loadUintBig(64).toString(),
+        jettonAmount: slice.loadCoins().toString(),
+        sender: formatAddress(slice.loadAddressAny()),
+        forwardPayload: loadForwardPayload(slice),
+      };
+    case EXCESSES_OP:
+      return { type: 'excesses', queryId: slice.loadUintBig(64).toString() };
+    case NFT_TRANSFER_OP:
+      return {
+        type: 'nft_transfer',
+        queryId: slice.loadUintBig(64).toString(),
+        newOwner: formatAddress(slice.loadAddressAny()),
+        responseDestination: formatAddress(slice.loadAddressAny()),
+        customPayload: slice.loadMaybeRef() !== null,
+        forwardAmount: describeAmount(slice.loadCoins(), TON_UNIT),
+        forwardPayload: loadForwardPayload(slice),
+      };
+    case NFT_OWNERSHIP_ASSIGNED_OP:
+      return {
+        type: 'nft_ownership_assigned',
+        queryId: slice.loadUintBig(64).toString(),
+        previousOwner: formatAddress(slice.loadAddressAny()),
+        forwardPayload: loadForwardPayload(slice),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a message body cell. Unknown or malformed bodies fall back to a
+ * dump of the cell tree.
+ */
+export function decodeCell(cell: Cell): DecodedPayload {
+  const slice = cell.beginParse();
+  if (slice.remainingBits === 0 && slice.remainingRefs === 0) {
+    return { type: 'empty' };
+  }
+  if (slice.remainingBits < 32) {
+    return { type: 'unknown', opCode: null, cell: cell.toString() };
+  }
+
+  const op = slice.loadUint(32);
+  const opCode = `0x${op.toString(16).padStart(8, '0')}`;
+  try {
+    return decodeKnownOp(op, slice) ?? { type: 'unknown', opCode, cell: cell.toString() };
+  } catch (error) {
+    return { type: 'unknown', opCode, error: `Malformed body: ${(error as Error).message}`, cell: cell.toString() };
+  }
+}
+
+/**
+ * Decode a base64-encoded BOC payload
+ */
+export function decodePayload(boc: string): DecodedPayload {
+  let cell: Cell;
+  try {
+    cell = Cell.fromBase64(boc);
+  } catch (error) {
+    throw new Error(`Invalid BOC: ${(error as Error).message}`);
+  }
+  return decodeCell(cell);
+}
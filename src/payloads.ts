@@ -0,0 +1,121 @@
+import { createCipheriv, createHash, createHmac, randomBytes } from 'node:crypto';
+import { keyPairFromSeed } from '@ton/crypto';
+import { Address, beginCell, Builder, Cell, type Slice } from '@ton/core';
+import nacl from 'tweetnacl';
+
+/**
+ * Message body encoding shared by every tool that attaches a comment or payload
+ */
+
+export const TEXT_COMMENT_OP = 0x00000000;
+export const ENCRYPTED_COMMENT_OP = 0x2167da4b;
+
+/**
+ * Store bytes as snake data: fill the current cell, continue in a chain of refs
+ */
+export function storeBufferTail(builder: Builder, data: Buffer): Builder {
+  const bytes = Math.floor(builder.availableBits / 8);
+  if (data.length <= bytes) {
+    return builder.storeBuffer(data);
+  }
+
+  builder.storeBuffer(data.subarray(0, bytes));
+  return builder.storeRef(storeBufferTail(beginCell(), data.subarray(bytes)).endCell());
+}
+
+/**
+ * Read snake data written by storeBufferTail
+ */
+export function loadBufferTail(slice: Slice): Buffer {
+  const chunks: Buffer[] = [];
+  let current: Slice | null = slice;
+  while (current) {
+    if (current.remainingBits % 8 !== 0) {
+      throw new Error('Snake data is not byte-aligned');
+    }
+    chunks.push(current.loadBuffer(current.remainingBits / 8));
+    current = current.remainingRefs > 0 ? current.loadRef().beginParse() : null;
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Plain text comment (op 0). Long comments continue in cell refs.
+ */
+export function buildTextComment(text: string): Cell {
+  return beginCell()
+    .storeUint(TEXT_COMMENT_OP, 32) // text comment op code
+    .storeStringTail(text)
+    .endCell();
+}
+
+const ED25519_P = 2n ** 255n - 19n;
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Convert an Ed25519 public key to its X25519 (Montgomery) form: u = (1 + y) / (1 - y)
+ */
+function ed25519PublicKeyToX25519(publicKey: Buffer): Uint8Array {
+  const bytes = Buffer.from(publicKey);
+  bytes[31] &= 0x7f;
+  const y = BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'));
+  const u = (((1n + y) % ED25519_P) * modPow((ED25519_P + 1n - y) % ED25519_P, ED25519_P - 2n, ED25519_P)) % ED25519_P;
+  return Uint8Array.from(Buffer.from(u.toString(16).padStart(64, '0'), 'hex').reverse());
+}
+
+/**
+ * Random prefix so that prefix + data is a multiple of 16 bytes, at least 16 bytes long.
+ * The first byte holds the prefix length.
+ */
+function randomPrefix(dataLength: number): Buffer {
+  const prefixLength = ((16 + 15 + dataLength) & -16) - dataLength;
+  const prefix = randomBytes(prefixLength);
+  prefix[0] = prefixLength;
+  return prefix;
+}
+
+/**
+ * Encrypted comment (op 0x2167da4b) readable only by the owner of recipientPublicKey.
+ * Uses an ephemeral key pair; the recipient recovers its public key from the
+ * XOR-ed key in the message and decrypts with the sender address as salt.
+ */
+export function buildEncryptedComment(text: string, recipientPublicKey: Buffer, senderAddress: Address): Cell {
+  if (recipientPublicKey.length !== 32) {
+    throw new Error('Recipient public key must be 32 bytes (64 hex characters)');
+  }
+
+  const ephemeral = keyPairFromSeed(randomBytes(32));
+  const scalar = createHash('sha512').update(ephemeral.secretKey.subarray(0, 32)).digest().subarray(0, 32);
+  const sharedKey = Buffer.from(nacl.scalarMult(scalar, ed25519PublicKeyToX25519(recipientPublicKey)));
+
+  const data = Buffer.from(text, 'utf-8');
+  const combined = Buffer.concat([randomPrefix(data.length), data]);
+  const salt = Buffer.from(senderAddress.toString({ bounceable: true, urlSafe: true }), 'utf-8');
+  const msgKey = createHmac('sha512', salt).update(combined).digest().subarray(0, 16);
+
+  const x = createHmac('sha512', sharedKey).update(msgKey).digest();
+  const cipher = createCipheriv('aes-256-cbc', x.subarray(0, 32), x.subarray(32, 48));
+  cipher.setAutoPadding(false);
+  const encrypted = Buffer.concat([cipher.update(combined), cipher.final()]);
+
+  const publicKeyXor = Buffer.alloc(32);
+  for (let i = 0; i < 32; i++) {
+    publicKeyXor[i] = ephemeral.publicKey[i] ^ recipientPublicKey[i];
+  }
+
+  const builder = beginCell().storeUint(ENCRYPTED_COMMENT_OP, 32);
+  return storeBufferTail(builder, Buffer.concat([publicKeyXor, msgKey, encrypted])).endCell();
+}
@@ -0,0 +1,154 @@
+import { Address, Cell } from '@ton/core';
+import { parseNetworkAddress, type TonNetwork } from './network.js';
+
+/**
+ * Payment request links: `ton://transfer/<address>?amount=&text=|bin=&init=&jetton=&exp=`
+ * and the same request as a wallet universal link (https://app.tonkeeper.com/transfer/...).
+ * Amounts are in nanoTON, or in the jetton's smallest units when `jetton` is set.
+ */
+
+export const TON_TRANSFER_PREFIX = 'ton://transfer/';
+export const TONKEEPER_TRANSFER_PREFIX = 'https://app.tonkeeper.com/transfer/';
+
+/** Universal links of wallets that accept the ton://transfer parameters */
+const UNIVERSAL_TRANSFER_PREFIXES = [TONKEEPER_TRANSFER_PREFIX, 'https://tonhub.com/transfer/', 'https://tonkeeper.com/transfer/'];
+
+const KNOWN_PARAMS = new Set(['amount', 'text', 'bin', 'init', 'jetton', 'exp']);
+
+export interface PaymentRequest {
+  /** Recipient in the user-friendly form it appears in the link */
+  address: string;
+  amount?: bigint;
+  /** Jetton master for token payments */
+  jetton?: Address;
+  text?: string;
+  /** Binary payload; TON payments only */
+  bin?: Cell;
+  /** StateInit to deploy with the payment */
+  init?: Cell;
+  /** Unix seconds after which the request must not be paid */
+  expiresAt?: number;
+}
+
+export interface PaymentLinks {
+  ton: string;
+  tonkeeper: string;
+}
+
+function toBase64Url(cell: Cell): string {
+  return cell.toBoc().toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function parseBocParam(value: string, name: string): Cell {
+  try {
+    // URL decoding turns an unescaped "+" of standard base64 into a space
+    return Cell.fromBoc(Buffer.from(value.replace(/ /g, '+'), 'base64'))[0];
+  } catch (error) {
+    throw new Error(`Invalid "${name}" parameter: not a valid BOC`);
+  }
+}
+
+function validateRequest(request: PaymentRequest): void {
+  if (request.text !== undefined && request.bin) {
+    throw new Error('A payment request carries either a text comment or a binary payload, not both.');
+  }
+  if (request.jetton && (request.bin || request.init)) {
+    throw new Error('Jetton payment requests support a text comment only, no binary payload or state init.');
+  }
+}
+
+/**
+ * ton:// link and Tonkeeper universal link for a payment request. The jetton
+ * master is written in the form of the network, so the link parses back on it.
+ */
+export function buildPaymentLinks(request: PaymentRequest, network: TonNetwork = 'mainnet'): PaymentLinks {
+  validateRequest(request);
+
+  const params: string[] = [];
+  if (request.amount !== undefined) {
+    params.push(`amount=${request.amount}`);
+  }
+  if (request.jetton) {
+    params.push(`jetton=${request.jetton.toString({ urlSafe: true, testOnly: network === 'testnet' })}`);
+  }
+  if (request.text !== undefined) {
+    params.push(`text=${encodeURIComponent(request.text)}`);
+  }
+  if (request.bin) {
+    params.push(`bin=${toBase64Url(request.bin)}`);
+  }
+  if (request.init) {
+    params.push(`init=${toBase64Url(request.init)}`);
+  }
+  if (request.expiresAt !== undefined) {
+    params.push(`exp=${request.expiresAt}`);
+  }
+
+  const path = `${request.address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  return {
+    ton: TON_TRANSFER_PREFIX + path,
+    tonkeeper: TONKEEPER_TRANSFER_PREFIX + path,
+  };
+}
+
+/**
+ * Parse and validate a ton://transfer or wallet universal link.
+ * Unknown parameters, malformed amounts and expired requests are rejected.
+ */
+export function parsePaymentLink(link: string, network: TonNetwork): PaymentRequest {
+  const value = link.trim();
+  const prefix = [TON_TRANSFER_PREFIX, ...UNIVERSAL_TRANSFER_PREFIXES].find((candidate) => value.toLowerCase().startsWith(candidate));
+  if (!prefix) {
+    throw new Error(`Unsupported payment link. Expected ${TON_TRANSFER_PREFIX}<address> or ${TONKEEPER_TRANSFER_PREFIX}<address>.`);
+  }
+
+  const rest = value.slice(prefix.length);
+  const queryStart = rest.indexOf('?');
+  const address = decodeURIComponent(queryStart === -1 ? rest : rest.slice(0, queryStart)).replace(/\/+$/, '');
+  const query = new URLSearchParams(queryStart === -1 ? '' : rest.slice(queryStart + 1));
+  parseNetworkAddress(address, network, 'payment link address');
+
+  for (const name of query.keys()) {
+    if (!KNOWN_PARAMS.has(name)) {
+      throw new Error(`Unsupported payment link parameter "${name}".`);
+    }
+  }
+
+  const request: PaymentRequest = { address };
+  const amount = query.get('amount');
+  if (amount !== null) {
+    if (!/^\d+$/.test(amount)) {
+      throw new Error(`Invalid "amount" parameter: "${amount}". Payment links carry amounts in smallest units.`);
+    }
+    request.amount = BigInt(amount);
+  }
+  const jetton = query.get('jetton');
+  if (jetton !== null) {
+    request.jetton = parseNetworkAddress(jetton, network, 'jetton address');
+  }
+  const text = query.get('text');
+  if (text !== null) {
+    request.text = text;
+  }
+  const bin = query.get('bin');
+  if (bin !== null) {
+    request.bin = parseBocParam(bin, 'bin');
+  }
+  const init = query.get('init');
+  if (init !== null) {
+    request.init = parseBocParam(init, 'init');
+  }
+  const exp = query.get('exp');
+  if (exp !== null) {
+    if (!/^\d+$/.test(exp)) {
+      throw new Error(`Invalid "exp" parameter: "${exp}". Use Unix seconds.`);
+    }
+    request.expiresAt = Number(exp);
+    if (request.expiresAt <= Math.floor(Date.now() / 1000)) {
+      throw new Error(`This payment request expired at ${new Date(request.expiresAt * 1000).toISOString()}.`);
+    }
+  }
+
+  validateRequest(request);
+  return request;
+}
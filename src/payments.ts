@@ -0,0 +1,414 @@
+import { randomUUID } from 'node:crypto';
+import { Address, Cell } from '@ton/core';
+import type { ChainMessage, ChainProvider, ChainTransaction } from './chain-provider.js';
+import { describeAmount, formatAmount, TON_UNIT, type AmountDetails, type AmountUnit } from './amounts.js';
+import { decodeCell, type DecodedPayload } from './payload-decoder.js';
+import { getJettonWalletAddress, getJettonWalletData } from './jettons.js';
+import { getJettonMetadata } from './jetton-metadata.js';
+
+/**
+ * Transaction history and incoming payment detection. Jetton payments are
+ * recognised by their transfer notification (TEP-74) and only trusted when
+ * the notifying contract is the owner's real jetton wallet.
+ */
+
+interface AddressOptions {
+  testOnly?: boolean;
+}
+
+export interface MessageSummary {
+  /** Sender for incoming messages, destination for outgoing ones */
+  address: string | null;
+  value: AmountDetails | null;
+  bounced: boolean;
+  comment: string | null;
+  payload: DecodedPayload | null;
+}
+
+export interface JettonTransferSummary {
+  jettonWallet: string;
+  master: string | null;
+  symbol: string | null;
+  amount: { raw: string; formatted: string | null };
+  sender: string | null;
+  comment: string | null;
+  /** The notification came from the owner's jetton wallet of that master; unverified ones may be fake */
+  verified: boolean;
+}
+
+export interface TransactionSummary {
+  hash: string;
+  lt: string;
+  time: string;
+  success: boolean;
+  fees: AmountDetails;
+  incoming: MessageSummary | null;
+  outgoing: MessageSummary[];
+  /** Incoming jetton transfer, from the transfer notification */
+  jettonTransfer?: JettonTransferSummary;
+}
+
+function formatChainAddress(address: string | null, addressOptions: AddressOptions): string | null {
+  if (!address) {
+    return null;
+  }
+  try {
+    return Address.parse(address).toString(addressOptions);
+  } catch (error) {
+    return address;
+  }
+}
+
+function decodeBody(body: string | null): DecodedPayload | null {
+  if (!body) {
+    return null;
+  }
+  try {
+    return decodeCell(Cell.fromBase64(body));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Text comment of a payload, including comments forwarded with jettons and NFTs
+ */
+export function payloadComment(payload: DecodedPayload | null): string | null {
+  if (!payload) {
+    return null;
+  }
+  switch (payload.type) {
+    case 'text_comment':
+      return payload.comment;
+    case 'jetton_transfer_notification':
+    case 'nft_ownership_assigned':
+      return payload.forwardPayload?.type === 'text_comment' ? payload.forwardPayload.comment : null;
+    default:
+      return null;
+  }
+}
+
+function summarizeMessage(message: ChainMessage, direction: 'in' | 'out', addressOptions: AddressOptions): MessageSummary {
+  const payload = decodeBody(message.body);
+  return {
+    address: formatChainAddress(direction === 'in' ? message.source : message.destination, addressOptions),
+    value: message.value !== null ? describeAmount(BigInt(message.value), TON_UNIT) : null,
+    bounced: Boolean(message.bounced),
+    comment: payloadComment(payload),
+    payload,
+  };
+}
+
+function isSuccessful(tx: ChainTransaction): boolean {
+  return !tx.aborted && tx.computePhase.success !== false && tx.actionPhase?.success !== false;
+}
+
+interface ResolvedJettonWallet {
+  master: Address | null;
+  unit: AmountUnit | null;
+  verified: boolean;
+}
+
+/**
+ * Master and metadata of a jetton wallet that notified the owner, verified by
+ * asking the master for the owner's jetton wallet address
+ */
+async function resolveJettonWallet(provider: ChainProvider, owner: Address, jettonWallet: Address): Promise<ResolvedJettonWallet> {
+  let master: Address;
+  let verified: boolean;
+  try {
+    master = (await getJettonWalletData(provider, jettonWallet)).master;
+    verified = (await getJettonWalletAddress(provider, master, owner)).equals(jettonWallet);
+  } catch (error) {
+    // Not a standard jetton wallet
+    return { master: null, unit: null, verified: false };
+  }
+
+  try {
+    const metadata = await getJettonMetadata(provider, master);
+    return { master, unit: { symbol: metadata.symbol || 'JETTON', decimals: metadata.decimals }, verified };
+  } catch (error) {
+    // The amount stays raw
+    return { master, unit: null, verified };
+  }
+}
+
+/**
+ * One page of an account's history, newest first, with decoded comments and
+ * incoming jetton transfers
+ */
+export async function getTransactionHistory(
+  provider: ChainProvider,
+  account: Address,
+  options: { limit?: number; beforeLt?: string; addressOptions?: AddressOptions } = {}
+): Promise<TransactionSummary[]> {
+  const addressOptions = options.addressOptions ?? {};
+  const transactions = await provider.getTransactions(account.toRawString(), {
+    limit: options.limit,
+    endLt: options.beforeLt ? (BigInt(options.beforeLt) - 1n).toString() : undefined,
+  });
+
+  const jettonWallets: Map<string, Promise<ResolvedJettonWallet>> = new Map();
+  const summaries: TransactionSummary[] = [];
+  for (const tx of transactions) {
+    const incoming = tx.inMessage ? summarizeMessage(tx.inMessage, 'in', addressOptions) : null;
+    const summary: TransactionSummary = {
+      hash: tx.hash,
+      lt: tx.lt,
+      time: new Date(tx.now * 1000).toISOString(),
+      success: isSuccessful(tx),
+      fees: describeAmount(BigInt(tx.totalFees), TON_UNIT),
+      incoming,
+      outgoing: tx.outMessages.map((message) => summarizeMessage(message, 'out', addressOptions)),
+    };
+
+    const payload = incoming?.payload;
+    if (payload?.type === 'jetton_transfer_notification' && tx.inMessage?.source) {
+      const source = Address.parse(tx.inMessage.source);
+      const key = source.toRawString();
+      if (!jettonWallets.has(key)) {
+        jettonWallets.set(key, resolveJettonWallet(provider, account, source));
+      }
+      const jetton = await jettonWallets.get(key)!;
+      const raw = BigInt(payload.jettonAmount);
+      summary.jettonTransfer = {
+        jettonWallet: source.toString(addressOptions),
+        master: jetton.master?.toString(addressOptions) ?? null,
+        symbol: jetton.unit?.symbol ?? null,
+        amount: { raw: raw.toString(), formatted: jetton.unit ? formatAmount(raw, jetton.unit) : null },
+        sender: formatChainAddress(payload.sender, addressOptions),
+        comment: payloadComment(payload),
+        verified: jetton.verified,
+      };
+    }
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+/** Transactions scanned per poll when looking back to the start of a watch */
+const MAX_SCANNED_TRANSACTIONS = 200;
+const SCAN_PAGE_SIZE = 50;
+const MAX_WATCHES = 20;
+
+export interface PaymentCriteria {
+  account: Address;
+  /** Minimum amount, in nanoTON or in the jetton's smallest units */
+  minAmount: bigint;
+  unit: AmountUnit;
+  /** Expected jetton, with the owner's jetton wallet the notification must come from */
+  jetton: { master: Address; wallet: Address } | null;
+  /** Exact comment (memo) the payment must carry */
+  comment: string | null;
+  /** Only payments at or after this time (Unix seconds) */
+  since: number;
+}
+
+export interface PaymentMatch {
+  transactionHash: string;
+  lt: string;
+  time: string;
+  from: string | null;
+  amount: AmountDetails;
+  comment: string | null;
+}
+
+/**
+ * First payment (oldest) matching the criteria, scanning back to `since`
+ */
+export async function findPayment(provider: ChainProvider, criteria: PaymentCriteria, addressOptions: AddressOptions = {}): Promise<PaymentMatch | null> {
+  let match: PaymentMatch | null = null;
+  for (let offset = 0; offset < MAX_SCANNED_TRANSACTIONS; offset += SCAN_PAGE_SIZE) {
+    const transactions = await provider.getTransactions(criteria.account.toRawString(), { limit: SCAN_PAGE_SIZE, offset });
+    for (const tx of transactions) {
+      if (tx.now < criteria.since) {
+        return match;
+      }
+      match = matchPayment(tx, criteria, addressOptions) ?? match;
+    }
+    if (transactions.length < SCAN_PAGE_SIZE) {
+      break;
+    }
+  }
+  return match;
+}
+
+function matchPayment(tx: ChainTransaction, criteria: PaymentCriteria, addressOptions: AddressOptions): PaymentMatch | null {
+  const message = tx.inMessage;
+  if (!message?.source || message.bounced || tx.aborted) {
+    return null;
+  }
+
+  const payload = decodeBody(message.body);
+  let amount: bigint;
+  let from: string | null;
+  if (criteria.jetton) {
+    // Anyone can send a notification op; only the owner's jetton wallet is trusted
+    if (payload?.type !== 'jetton_transfer_notification' || !Address.parse(message.source).equals(criteria.jetton.wallet)) {
+      return null;
+    }
+    amount = BigInt(payload.jettonAmount);
+    from = payload.sender;
+  } else {
+    if (message.value === null || (payload && payload.type !== 'empty' && payload.type !== 'text_comment')) {
+      return null;
+    }
+    amount = BigInt(message.value);
+    from = message.source;
+  }
+
+  const comment = payloadComment(payload);
+  if (amount < criteria.minAmount || (criteria.comment !== null && comment?.trim() !== criteria.comment.trim())) {
+    return null;
+  }
+  return {
+    transactionHash: tx.hash,
+    lt: tx.lt,
+    time: new Date(tx.now * 1000).toISOString(),
+    from: formatChainAddress(from, addressOptions),
+    amount: describeAmount(amount, criteria.unit),
+    comment,
+  };
+}
+
+export type PaymentWatchStatus = 'watching' | 'received' | 'expired';
+
+export interface PaymentWatch {
+  id: string;
+  status: PaymentWatchStatus;
+  account: string;
+  amount: AmountDetails;
+  jetton: string | null;
+  comment: string | null;
+  since: string;
+  expiresAt: string;
+  payment: PaymentMatch | null;
+  /** Last failed poll, retried on the next one */
+  lastError: string | null;
+}
+
+export type PaymentWatchListener = (watch: PaymentWatch) => void;
+
+/**
+ * Polls for payments in the background until they arrive or the watch expires.
+ * Listeners hear about every status change.
+ */
+export class PaymentWatcher {
+  private watches: Map<string, { watch: PaymentWatch; criteria: PaymentCriteria; timer?: NodeJS.Timeout }> = new Map();
+  private listeners: Set<PaymentWatchListener> = new Set();
+
+  constructor(
+    private readonly provider: ChainProvider,
+    private readonly pollIntervalMs: number,
+    private readonly addressOptions: AddressOptions = {}
+  ) {}
+
+  watch(criteria: PaymentCriteria, timeoutMs: number): PaymentWatch {
+    if ([...this.watches.values()].filter((entry) => entry.watch.status === 'watching').length >= MAX_WATCHES) {
+      throw new Error(`Too many active payment watches (maximum ${MAX_WATCHES}). Wait for some to finish.`);
+    }
+
+    const watch: PaymentWatch = {
+      id: randomUUID(),
+      status: 'watching',
+      account: criteria.account.toString(this.addressOptions),
+      amount: describeAmount(criteria.minAmount, criteria.unit),
+      jetton: criteria.jetton?.master.toString(this.addressOptions) ?? null,
+      comment: criteria.comment,
+      since: new Date(criteria.since * 1000).toISOString(),
+      expiresAt: new Date(Date.now() + timeoutMs).toISOString(),
+      payment: null,
+      lastError: null,
+    };
+    this.watches.set(watch.id, { watch, criteria });
+    void this.poll(watch.id);
+    return watch;
+  }
+
+  get(id: string): PaymentWatch | undefined {
+    return this.watches.get(id)?.watch;
+  }
+
+  list(): PaymentWatch[] {
+    return [...this.watches.values()].map((entry) => entry.watch);
+  }
+
+  /**
+   * Resolve once the watch leaves the watching state, or after waitMs
+   */
+  wait(id: string, waitMs: number): Promise<PaymentWatch | undefined> {
+    return new Promise((resolve) => {
+      const watch = this.get(id);
+      if (!watch || watch.status !== 'watching') {
+        resolve(watch);
+        return;
+      }
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(this.get(id));
+      };
+      const timer = setTimeout(done, waitMs);
+      const unsubscribe = this.onUpdate((update) => {
+        if (update.id === id && update.status !== 'watching') {
+          done();
+        }
+      });
+    });
+  }
+
+  onUpdate(listener: PaymentWatchListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop polling, e.g. when the client goes away
+   */
+  stop(): void {
+    for (const entry of this.watches.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.watches.clear();
+  }
+
+  private async poll(id: string): Promise<void> {
+    const entry = this.watches.get(id);
+    if (!entry) {
+      return;
+    }
+
+    let payment: PaymentMatch | null = null;
+    try {
+      payment = await findPayment(this.provider, entry.criteria, this.addressOptions);
+      entry.watch.lastError = null;
+    } catch (error) {
+      entry.watch.lastError = (error as Error).message;
+    }
+
+    // Stopped while polling
+    if (!this.watches.has(id)) {
+      return;
+    }
+    if (payment) {
+      this.update(entry.watch, { status: 'received', payment });
+      return;
+    }
+    if (Date.now() >= Date.parse(entry.watch.expiresAt)) {
+      this.update(entry.watch, { status: 'expired' });
+      return;
+    }
+    entry.timer = setTimeout(() => void this.poll(id), this.pollIntervalMs);
+  }
+
+  private update(watch: PaymentWatch, changes: Partial<PaymentWatch>): void {
+    Object.assign(watch, changes);
+    for (const listener of this.listeners) {
+      try {
+        listener(watch);
+      } catch (error) {
+        // A failing listener must not stop other watches
+      }
+    }
+  }
+}
@@ -0,0 +1,455 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile } from 'node:fs/promises';
+import { dirname, extname } from 'node:path';
+import type { IStorage, SendTransactionRequest } from '@tonconnect/sdk';
+import { Address, Cell } from '@ton/core';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { formatAmount, parseAmount, parseTonAmount, TON_UNIT, type AmountUnit } from './amounts.js';
+import type { ChainProvider } from './chain-provider.js';
+import { getJettonMetadata } from './jetton-metadata.js';
+import { getJettonWalletData, resolveJettonMaster } from './jettons.js';
+import { getNftData } from './nfts.js';
+import { decodeCell } from './payload-decoder.js';
+import { withFileLock } from './storage.js';
+
+/**
+ * Spending policy checked before a transaction reaches the wallet.
+ * Loaded from a JSON or YAML file; every rule is optional.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEDGER_KEY = 'ledger';
+const TON_ASSET = 'TON';
+
+const limitsSchema = z.object({
+  max_transaction: z.string().optional(),
+  daily_limit: z.string().optional(),
+}).strict();
+
+const policySchema = z.object({
+  max_transaction_ton: z.string().optional(),
+  daily_limit_ton: z.string().optional(),
+  jettons: z.record(limitsSchema).optional(),
+  allowed_addresses: z.array(z.string()).optional(),
+  denied_addresses: z.array(z.string()).optional(),
+  forbidden_op_codes: z.array(z.union([z.string(), z.number().int()])).optional(),
+  max_valid_until_seconds: z.number().int().positive().optional(),
+}).strict();
+
+export type PolicyFile = z.infer<typeof policySchema>;
+
+export interface SpendingPolicyOptions {
+  /** Lockfile held while the ledger is updated, for servers sharing one ledger */
+  lockPath?: string;
+}
+
+/**
+ * Raised when a request breaks a policy rule. `rule` is the policy file key that blocked it.
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    readonly rule: string,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { error: 'policy_violation', rule: this.rule, message: this.message, details: this.details };
+  }
+}
+
+interface JettonLimits {
+  /** Policy file key, used in rule names */
+  key: string;
+  master: Address;
+  maxTransaction?: string;
+  dailyLimit?: string;
+}
+
+interface LedgerEntry {
+  timestamp: number;
+  /** 'TON' or the raw jetton master address */
+  asset: string;
+  amount: string;
+  /** Set while the request waits for the wallet; the amount already counts */
+  reservation?: string;
+}
+
+/**
+ * Amounts a checked transaction spends. A reserved approval already counts
+ * towards the daily limits until it is recorded or released.
+ */
+export interface PolicyApproval {
+  spending: Map<string, bigint>;
+  reservation?: string;
+}
+
+function parseOpCode(value: string | number): number {
+  const op = typeof value === 'number' ? value : Number(value.trim());
+  if (!Number.isInteger(op) || op < 0 || op > 0xffffffff) {
+    throw new Error(`Invalid op-code in policy: "${value}"`);
+  }
+  return op;
+}
+
+function parseAddressList(rule: string, addresses: string[] | undefined): Address[] | undefined {
+  return addresses?.map((address) => {
+    try {
+      return Address.parse(address);
+    } catch (error) {
+      throw new Error(`Invalid address in policy ${rule}: "${address}"`);
+    }
+  });
+}
+
+function formatOpCode(op: number): string {
+  return `0x${op.toString(16).padStart(8, '0')}`;
+}
+
+export class SpendingPolicy {
+  private readonly maxTransactionTon?: bigint;
+  private readonly dailyLimitTon?: bigint;
+  private readonly jettons: JettonLimits[];
+  private readonly allowed?: Address[];
+  private readonly denied?: Address[];
+  private readonly forbiddenOps: Set<number>;
+  /** Serializes ledger updates, so concurrent requests cannot pass the same remaining limit */
+  private ledgerLock: Promise<void> = Promise.resolve();
+  private readonly lockPath?: string;
+
+  constructor(
+    private readonly policy: PolicyFile,
+    private readonly storage: IStorage,
+    private readonly provider: ChainProvider,
+    options: SpendingPolicyOptions = {}
+  ) {
+    this.lockPath = options.lockPath;
+    this.maxTransactionTon = policy.max_transaction_ton !== undefined ? parseTonAmount(policy.max_transaction_ton) : undefined;
+    this.dailyLimitTon = policy.daily_limit_ton !== undefined ? parseTonAmount(policy.daily_limit_ton) : undefined;
+    this.jettons = Object.entries(policy.jettons ?? {}).map(([key, limits]) => ({
+      key,
+      master: resolveJettonMaster(key, provider.network),
+      maxTransaction: limits.max_transaction,
+      dailyLimit: limits.daily_limit,
+    }));
+    this.allowed = parseAddressList('allowed_addresses', policy.allowed_addresses);
+    this.denied = parseAddressList('denied_addresses', policy.denied_addresses);
+    this.forbiddenOps = new Set((policy.forbidden_op_codes ?? []).map(parseOpCode));
+  }
+
+  /**
+   * Load a policy from a .json, .yaml or .yml file
+   */
+  static async load(path: string, storage: IStorage, provider: ChainProvider, options: SpendingPolicyOptions = {}): Promise<SpendingPolicy> {
+    const text = await readFile(path, 'utf-8');
+    const extension = extname(path).toLowerCase();
+    const raw = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+
+    const result = policySchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`Invalid policy file ${path}: ${result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+    }
+    return new SpendingPolicy(result.data, storage, provider, options);
+  }
+
+  /**
+   * The policy as loaded, for display
+   */
+  describe(): PolicyFile {
+    return this.policy;
+  }
+
+  /**
+   * Check a request against every rule without counting it. Throws PolicyViolationError on the first rule it breaks.
+   */
+  async check(transaction: SendTransactionRequest, sender: Address | null): Promise<PolicyApproval> {
+    const spending = await this.checkMessages(transaction, sender);
+    const units = await this.jettonUnits(spending);
+    this.checkLimits(spending, units, await this.loadLedger());
+    return { spending };
+  }
+
+  /**
+   * Check a request and reserve its amounts in the ledger, so requests waiting for
+   * the wallet at the same time cannot together exceed the daily limits.
+   * Every reservation must end in record() or release().
+   */
+  async reserve(transaction: SendTransactionRequest, sender: Address | null): Promise<PolicyApproval> {
+    const spending = await this.checkMessages(transaction, sender);
+    const units = await this.jettonUnits(spending);
+    const reservation = randomUUID();
+
+    await this.updateLedger((ledger) => {
+      this.checkLimits(spending, units, ledger);
+      const timestamp = Date.now();
+      for (const [asset, amount] of spending) {
+        if (amount > 0n) {
+          ledger.push({ timestamp, asset, amount: amount.toString(), reservation });
+        }
+      }
+      return ledger;
+    });
+    return { spending, reservation };
+  }
+
+  /**
+   * Count an approved transaction towards the daily limits
+   */
+  async record(approval: PolicyApproval): Promise<void> {
+    await this.updateLedger((ledger) => {
+      if (approval.reservation) {
+        return ledger.map((entry) =>
+          entry.reservation === approval.reservation ? { timestamp: entry.timestamp, asset: entry.asset, amount: entry.amount } : entry
+        );
+      }
+
+      const timestamp = Date.now();
+      for (const [asset, amount] of approval.spending) {
+        if (amount > 0n) {
+          ledger.push({ timestamp, asset, amount: amount.toString() });
+        }
+      }
+      return ledger;
+    });
+  }
+
+  /**
+   * Drop the reservation of a request the wallet rejected or that failed
+   */
+  async release(approval: PolicyApproval): Promise<void> {
+    if (!approval.reservation) {
+      return;
+    }
+    await this.updateLedger((ledger) => ledger.filter((entry) => entry.reservation !== approval.reservation));
+  }
+
+  /**
+   * Per-message rules: valid_until horizon, op-codes and addresses. Returns what the request spends.
+   */
+  private async checkMessages(transaction: SendTransactionRequest, sender: Address | null): Promise<Map<string, bigint>> {
+    const maxValidUntil = this.policy.max_valid_until_seconds;
+    if (maxValidUntil !== undefined) {
+      const horizon = transaction.validUntil - Math.floor(Date.now() / 1000);
+      if (horizon > maxValidUntil) {
+        throw new PolicyViolationError('max_valid_until_seconds', `valid_until is ${horizon}s in the future, the policy allows at most ${maxValidUntil}s`, {
+          validUntil: transaction.validUntil,
+          maxValidUntilSeconds: maxValidUntil,
+        });
+      }
+    }
+
+    const spending = new Map<string, bigint>();
+    const addSpending = (asset: string, amount: bigint) => spending.set(asset, (spending.get(asset) ?? 0n) + amount);
+
+    for (const [index, message] of transaction.messages.entries()) {
+      const destination = Address.parse(message.address);
+      addSpending(TON_ASSET, BigInt(message.amount));
+
+      const body = message.payload ? Cell.fromBase64(message.payload) : null;
+      const bodySlice = body?.beginParse();
+      if (bodySlice && bodySlice.remainingBits >= 32) {
+        const op = bodySlice.loadUint(32);
+        if (this.forbiddenOps.has(op)) {
+          throw new PolicyViolationError('forbidden_op_codes', `Message ${index + 1} uses forbidden op-code ${formatOpCode(op)}`, {
+            message: index + 1,
+            opCode: formatOpCode(op),
+          });
+        }
+      }
+
+      // A jetton or NFT transfer is checked against its real recipient only when the
+      // message goes to the sender's own jetton wallet or NFT item. Otherwise the body
+      // proves nothing and the message destination is what receives the TON.
+      let transferRecipient: Address | null = null;
+      let verified = false;
+      const decoded = body ? decodeCell(body) : null;
+      if (decoded?.type === 'jetton_transfer' && decoded.destination) {
+        transferRecipient = Address.parse(decoded.destination);
+        if (this.allowed || this.jettons.length > 0) {
+          const master = await this.ownJettonMaster(destination, sender, index);
+          if (master) {
+            verified = true;
+            addSpending(master.toRawString(), BigInt(decoded.jettonAmount));
+          }
+        }
+      } else if (decoded?.type === 'nft_transfer' && decoded.newOwner) {
+        transferRecipient = Address.parse(decoded.newOwner);
+        if (this.allowed) {
+          verified = await this.ownsNft(destination, sender);
+        }
+      }
+
+      this.checkAddresses(index, destination, transferRecipient, verified);
+    }
+
+    return spending;
+  }
+
+  private checkAddresses(index: number, destination: Address, transferRecipient: Address | null, verified: boolean): void {
+    for (const address of transferRecipient ? [destination, transferRecipient] : [destination]) {
+      if (this.denied?.some((denied) => denied.equals(address))) {
+        throw new PolicyViolationError('denied_addresses', `Message ${index + 1} sends to denied address ${address.toString()}`, {
+          message: index + 1,
+          address: address.toString(),
+        });
+      }
+    }
+
+    const recipient = verified && transferRecipient ? transferRecipient : destination;
+    if (this.allowed && !this.allowed.some((allowed) => allowed.equals(recipient))) {
+      throw new PolicyViolationError('allowed_addresses', `Message ${index + 1} recipient ${recipient.toString()} is not in the allowlist`, {
+        message: index + 1,
+        address: recipient.toString(),
+        ...(transferRecipient && !verified && { reason: 'the message does not go to a jetton wallet or NFT item of the sender' }),
+      });
+    }
+  }
+
+  /**
+   * Jetton master of a transfer, when the message goes to one of the sender's jetton wallets.
+   * With jetton limits configured an unidentified jetton fails closed, since it could bypass them.
+   */
+  private async ownJettonMaster(jettonWallet: Address, sender: Address | null, index: number): Promise<Address | null> {
+    try {
+      if (!sender) {
+        throw new Error('no connected wallet to check the jetton wallet owner against');
+      }
+      const data = await getJettonWalletData(this.provider, jettonWallet);
+      if (!data.owner.equals(sender)) {
+        throw new Error(`jetton wallet belongs to ${data.owner.toString()}, not the connected wallet`);
+      }
+      return data.master;
+    } catch (error) {
+      if (this.jettons.length === 0) {
+        return null;
+      }
+      throw new PolicyViolationError('jettons', `Message ${index + 1} is a jetton transfer whose jetton could not be identified: ${(error as Error).message}`, {
+        message: index + 1,
+        jettonWallet: jettonWallet.toString(),
+      });
+    }
+  }
+
+  /**
+   * Whether the message goes to an NFT item the sender owns
+   */
+  private async ownsNft(item: Address, sender: Address | null): Promise<boolean> {
+    if (!sender) {
+      return false;
+    }
+    try {
+      const data = await getNftData(this.provider, item);
+      return data.owner !== null && data.owner.equals(sender);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Units of the limited jettons a request spends, read before the ledger is locked
+   */
+  private async jettonUnits(spending: Map<string, bigint>): Promise<Map<string, AmountUnit>> {
+    const units = new Map<string, AmountUnit>();
+    for (const limits of this.jettons) {
+      if (spending.has(limits.master.toRawString())) {
+        const metadata = await getJettonMetadata(this.provider, limits.master);
+        units.set(limits.key, { symbol: metadata.symbol ?? limits.key, decimals: metadata.decimals });
+      }
+    }
+    return units;
+  }
+
+  private checkLimits(spending: Map<string, bigint>, units: Map<string, AmountUnit>, ledger: LedgerEntry[]): void {
+    this.checkTonLimits(spending.get(TON_ASSET) ?? 0n, ledger);
+    for (const limits of this.jettons) {
+      const amount = spending.get(limits.master.toRawString());
+      const unit = units.get(limits.key);
+      if (amount !== undefined && unit) {
+        this.checkJettonLimits(limits, unit, amount, ledger);
+      }
+    }
+  }
+
+  private checkTonLimits(amount: bigint, ledger: LedgerEntry[]): void {
+    if (this.maxTransactionTon !== undefined && amount > this.maxTransactionTon) {
+      throw new PolicyViolationError('max_transaction_ton', `Transaction sends ${formatAmount(amount, TON_UNIT)}, the limit is ${formatAmount(this.maxTransactionTon, TON_UNIT)}`, {
+        amount: amount.toString(),
+        limit: this.maxTransactionTon.toString(),
+      });
+    }
+
+    if (this.dailyLimitTon !== undefined) {
+      const spent = spentToday(ledger, TON_ASSET);
+      if (spent + amount > this.dailyLimitTon) {
+        throw new PolicyViolationError('daily_limit_ton', `Transaction would bring 24h spending to ${formatAmount(spent + amount, TON_UNIT)}, the limit is ${formatAmount(this.dailyLimitTon, TON_UNIT)}`, {
+          amount: amount.toString(),
+          spentLast24h: spent.toString(),
+          limit: this.dailyLimitTon.toString(),
+        });
+      }
+    }
+  }
+
+  private checkJettonLimits(limits: JettonLimits, unit: AmountUnit, amount: bigint, ledger: LedgerEntry[]): void {
+    if (limits.maxTransaction !== undefined) {
+      const max = parseAmount(limits.maxTransaction, unit);
+      if (amount > max) {
+        throw new PolicyViolationError(`jettons.${limits.key}.max_transaction`, `Transaction sends ${formatAmount(amount, unit)}, the limit is ${formatAmount(max, unit)}`, {
+          jetton: limits.master.toString(),
+          amount: amount.toString(),
+          limit: max.toString(),
+        });
+      }
+    }
+
+    if (limits.dailyLimit !== undefined) {
+      const max = parseAmount(limits.dailyLimit, unit);
+      const spent = spentToday(ledger, limits.master.toRawString());
+      if (spent + amount > max) {
+        throw new PolicyViolationError(`jettons.${limits.key}.daily_limit`, `Transaction would bring 24h spending to ${formatAmount(spent + amount, unit)}, the limit is ${formatAmount(max, unit)}`, {
+          jetton: limits.master.toString(),
+          amount: amount.toString(),
+          spentLast24h: spent.toString(),
+          limit: max.toString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Spending entries from the last 24 hours, reservations included
+   */
+  private async loadLedger(): Promise<LedgerEntry[]> {
+    const stored = await this.storage.getItem(LEDGER_KEY);
+    const entries: LedgerEntry[] = stored ? JSON.parse(stored) : [];
+    const since = Date.now() - DAY_MS;
+    return entries.filter((entry) => entry.timestamp > since);
+  }
+
+  /**
+   * Read-modify-write the ledger, one update at a time in this process and, with a lockfile, across processes
+   */
+  private updateLedger(mutate: (ledger: LedgerEntry[]) => LedgerEntry[]): Promise<void> {
+    const apply = async () => {
+      const ledger = mutate(await this.loadLedger());
+      await this.storage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+    };
+    const update = this.ledgerLock.then(async () => {
+      if (!this.lockPath) {
+        return apply();
+      }
+      await mkdir(dirname(this.lockPath), { recursive: true, mode: 0o700 });
+      return withFileLock(this.lockPath, apply);
+    });
+    this.ledgerLock = update.catch(() => {});
+    return update;
+  }
+}
+
+function spentToday(ledger: LedgerEntry[], asset: string): bigint {
+  return ledger.filter((entry) => entry.asset === asset).reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+}
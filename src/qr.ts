@@ -0,0 +1,23 @@
+import QRCode from 'qrcode';
+
+/**
+ * QR codes for links the user has to open on another device (phone wallet).
+ * Generated locally - links never leave the machine.
+ */
+
+const QR_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 2 };
+
+/**
+ * PNG QR code as base64, ready for an MCP image content block
+ */
+export async function renderQrPng(text: string): Promise<string> {
+  const png = await QRCode.toBuffer(text, { ...QR_OPTIONS, type: 'png', width: 400 });
+  return png.toString('base64');
+}
+
+/**
+ * QR code drawn with Unicode half blocks, for terminals and plain-text clients
+ */
+export async function renderQrText(text: string): Promise<string> {
+  return await QRCode.toString(text, { ...QR_OPTIONS, type: 'utf8' });
+}
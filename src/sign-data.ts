@@ -0,0 +1,181 @@
+import { createHash } from 'node:crypto';
+import { signVerify } from '@ton/crypto';
+import { Address, beginCell, Cell, contractAddress } from '@ton/ton';
+import type { SignDataPayload } from '@tonconnect/sdk';
+import type { ChainProvider } from './chain-provider.js';
+import { getPublicKeyFromStateInit, parseStateInit, readWalletPublicKey } from './wallet-versions.js';
+
+const SIGN_DATA_PREFIX = 'ton-connect/sign-data/';
+const SIGN_DATA_CELL_OP = 0x75569022;
+
+export interface VerifySignedDataParams {
+  /** Base64 ed25519 signature returned by the wallet */
+  signature: string;
+  /** Signer address in any format */
+  address: string;
+  timestamp: number;
+  domain: string;
+  payload: SignDataPayload;
+  /** Hex public key. Read from stateInit when omitted */
+  publicKey?: string;
+  /** Base64 wallet stateInit */
+  stateInit?: string;
+}
+
+/**
+ * How the public key was tied to the signer address: the stateInit hashes to
+ * the address, or the deployed wallet reports the key through get_public_key
+ */
+export type AddressBinding = 'state_init' | 'get_public_key' | 'unverified';
+
+export interface VerifySignedDataResult {
+  /** The signature is valid and the key belongs to the address */
+  valid: boolean;
+  hash: string;
+  publicKey: string | null;
+  addressBinding: AddressBinding;
+  errors: string[];
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC32 (IEEE) used as the schema hash for cell payloads
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Domain in reversed DNS-like form: "app.example.com" -> "com\0example\0app\0"
+ */
+function encodeDomainDnsLike(domain: string): Buffer {
+  const parts = domain.split('.').reverse();
+  return Buffer.concat(parts.map((part) => Buffer.concat([Buffer.from(part, 'utf-8'), Buffer.from([0])])));
+}
+
+/**
+ * Hash the wallet signs for a signData request, as defined by the TON Connect spec.
+ * Text and binary payloads are hashed as a byte message, cell payloads as a cell.
+ */
+export function computeSignDataHash(
+  address: Address,
+  domain: string,
+  timestamp: number,
+  payload: SignDataPayload
+): Buffer {
+  if (payload.type === 'cell') {
+    const cell = beginCell()
+      .storeUint(SIGN_DATA_CELL_OP, 32)
+      .storeUint(crc32(Buffer.from(payload.schema, 'utf-8')), 32)
+      .storeUint(timestamp, 64)
+      .storeAddress(address)
+      .storeStringRefTail(encodeDomainDnsLike(domain).toString('utf-8'))
+      .storeRef(Cell.fromBase64(payload.cell))
+      .endCell();
+    return cell.hash();
+  }
+
+  const workchain = Buffer.alloc(4);
+  workchain.writeInt32BE(address.workChain);
+
+  const domainBuffer = Buffer.from(domain, 'utf-8');
+  const domainLength = Buffer.alloc(4);
+  domainLength.writeUInt32BE(domainBuffer.length);
+
+  const timestampBuffer = Buffer.alloc(8);
+  timestampBuffer.writeBigUInt64BE(BigInt(timestamp));
+
+  const content = payload.type === 'text'
+    ? Buffer.from(payload.text, 'utf-8')
+    : Buffer.from(payload.bytes, 'base64');
+  const contentLength = Buffer.alloc(4);
+  contentLength.writeUInt32BE(content.length);
+
+  const message = Buffer.concat([
+    Buffer.from([0xff, 0xff]),
+    Buffer.from(SIGN_DATA_PREFIX, 'utf-8'),
+    workchain,
+    address.hash,
+    domainLength,
+    domainBuffer,
+    timestampBuffer,
+    Buffer.from(payload.type === 'text' ? 'txt' : 'bin', 'utf-8'),
+    contentLength,
+    content,
+  ]);
+  return createHash('sha256').update(message).digest();
+}
+
+/**
+ * Recompute the signData hash and check the ed25519 signature locally. The key
+ * must belong to the address: a stateInit has to hash to it, and a bare public
+ * key is compared with the deployed wallet's get_public_key when a provider is given.
+ */
+export async function verifySignedData(params: VerifySignedDataParams, provider?: ChainProvider): Promise<VerifySignedDataResult> {
+  const errors: string[] = [];
+  const address = Address.parse(params.address);
+  const hash = computeSignDataHash(address, params.domain, params.timestamp, params.payload);
+
+  let publicKey: Buffer | null = params.publicKey ? Buffer.from(params.publicKey, 'hex') : null;
+  let addressBinding: AddressBinding = 'unverified';
+  if (params.stateInit) {
+    const stateInit = parseStateInit(params.stateInit);
+    if (contractAddress(address.workChain, stateInit).equals(address)) {
+      addressBinding = 'state_init';
+    } else {
+      errors.push('stateInit does not match the signer address');
+    }
+
+    const stateInitKey = getPublicKeyFromStateInit(stateInit);
+    if (!stateInitKey) {
+      errors.push('Unable to read a public key from stateInit (unknown wallet contract)');
+    } else if (publicKey && !publicKey.equals(stateInitKey)) {
+      errors.push('Public key does not match the wallet stateInit');
+    } else {
+      publicKey = stateInitKey;
+    }
+  } else if (publicKey && provider) {
+    try {
+      if ((await readWalletPublicKey(provider, address)).equals(publicKey)) {
+        addressBinding = 'get_public_key';
+      } else {
+        errors.push('Public key does not match the key the wallet contract reports (get_public_key)');
+      }
+    } catch (error) {
+      errors.push(`Unable to read the wallet's public key on-chain (${(error as Error).message}). Pass state_init to tie the key to the address`);
+    }
+  } else if (publicKey) {
+    errors.push('The public key is not tied to the address. Pass state_init to verify who signed');
+  }
+
+  if (!publicKey) {
+    errors.push('No public key available: pass public_key or state_init');
+  } else if (publicKey.length !== 32) {
+    errors.push('Public key must be 32 bytes');
+  } else if (!signVerify(hash, Buffer.from(params.signature, 'base64'), publicKey)) {
+    errors.push('Signature is invalid');
+  }
+
+  return {
+    valid: errors.length === 0,
+    hash: hash.toString('hex'),
+    publicKey: publicKey?.toString('hex') ?? null,
+    addressBinding,
+    errors,
+  };
+}
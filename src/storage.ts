@@ -1,4 +1,8 @@
 import type { IStorage } from '@tonconnect/sdk';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { StorageConfig } from './config.js';
 
 /**
  * Simple in-memory storage implementation for TON Connect
@@ -24,3 +28,244 @@ export class MemoryStorage implements IStorage {
   }
 }
 
+const STORAGE_FILE_NAME = 'sessions.enc';
+const KEY_FILE_NAME = 'storage.key';
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 25;
+
+interface EncryptedFile {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Turn the configured key into 32 bytes for AES-256-GCM.
+ * 64 hex chars are used as-is, anything else is treated as a passphrase.
+ */
+function deriveKey(secret: string): Buffer {
+  if (/^[0-9a-fA-F]{64}$/.test(secret)) {
+    return Buffer.from(secret, 'hex');
+  }
+  return scryptSync(secret, 'ton-connect-mcp', 32);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Read a keyfile. Another process that just created it with 'wx' may not have
+ * written the key yet, so an empty file is read again until the lock timeout.
+ */
+async function readKeyFile(keyFile: string): Promise<string> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    const secret = (await readFile(keyFile, 'utf-8')).trim();
+    if (secret) {
+      return secret;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Keyfile is empty: ${keyFile}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Run fn while holding an exclusive lockfile, shared between server processes
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // A crashed process may have left its lock behind
+    try {
+      const lockStat = await stat(lockPath);
+      if (Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) {
+        await unlink(lockPath).catch(() => {});
+        continue;
+      }
+    } catch {
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock: ${lockPath}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
+
+/**
+ * File-backed storage that survives server restarts.
+ * All items live in a single AES-256-GCM encrypted file, written atomically
+ * (temp file + rename) under an exclusive lockfile so that several server
+ * processes sharing a directory don't overwrite each other's sessions.
+ */
+export class FileStorage implements IStorage {
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private key: Buffer | null = null;
+
+  constructor(private readonly config: StorageConfig) {
+    this.filePath = join(config.dir, STORAGE_FILE_NAME);
+    this.lockPath = `${this.filePath}.lock`;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.update((items) => {
+      items[key] = value;
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const items = await this.read();
+    return items[key] ?? null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.update((items) => {
+      delete items[key];
+    });
+  }
+
+  private async getKey(): Promise<Buffer> {
+    if (this.key) {
+      return this.key;
+    }
+
+    if (this.config.key) {
+      this.key = deriveKey(this.config.key);
+      return this.key;
+    }
+
+    const keyFile = this.config.keyFile || join(this.config.dir, KEY_FILE_NAME);
+    try {
+      this.key = deriveKey(await readKeyFile(keyFile));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+
+      // 'wx' fails if another process created the keyfile first - use theirs
+      const generated = randomBytes(32).toString('hex');
+      try {
+        await writeFile(keyFile, generated, { flag: 'wx', mode: 0o600 });
+        this.key = Buffer.from(generated, 'hex');
+      } catch (writeError) {
+        if ((writeError as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw writeError;
+        }
+        this.key = deriveKey(await readKeyFile(keyFile));
+      }
+    }
+    return this.key;
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as EncryptedFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported storage file version: ${file.version}`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', await this.getKey(), Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    try {
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Unable to decrypt ${this.filePath}. Check TONCONNECT_STORAGE_KEY or the keyfile.`);
+    }
+  }
+
+  private async write(items: Record<string, string>): Promise<void> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.getKey(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(items), 'utf-8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    const tmpPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(file), { mode: 0o600 });
+    await rename(tmpPath, this.filePath);
+  }
+
+  /**
+   * Read-modify-write under the lockfile
+   */
+  private async update(mutate: (items: Record<string, string>) => void): Promise<void> {
+    await mkdir(this.config.dir, { recursive: true, mode: 0o700 });
+    await withFileLock(this.lockPath, async () => {
+      const items = await this.read();
+      mutate(items);
+      await this.write(items);
+    });
+  }
+}
+
+/**
+ * Prefixes every key so several TON Connect instances can share one backend
+ */
+export class NamespacedStorage implements IStorage {
+  constructor(
+    private readonly storage: IStorage,
+    private readonly prefix: string
+  ) {}
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.storage.setItem(this.prefix + key, value);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return await this.storage.getItem(this.prefix + key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * Create the storage backend selected in configuration
+ */
+export function createStorage(config: StorageConfig): IStorage {
+  if (config.backend === 'file') {
+    return new FileStorage(config);
+  }
+  return new MemoryStorage();
+}
@@ -0,0 +1,155 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { signVerify } from '@ton/crypto';
+import { Address, contractAddress } from '@ton/ton';
+import type { TonProofItemReplySuccess } from '@tonconnect/sdk';
+import { detectWalletVersion, getPublicKeyFromStateInit, parseStateInit } from './wallet-versions.js';
+
+export type TonProof = TonProofItemReplySuccess['proof'];
+
+const TON_PROOF_PREFIX = 'ton-proof-item-v2/';
+const TON_CONNECT_PREFIX = 'ton-connect';
+
+// Wallets should sign within seconds of the request; allow a little clock drift
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+export interface VerifyTonProofParams {
+  /** Wallet address in any format */
+  address: string;
+  proof: TonProof;
+  /** Base64 wallet stateInit (`account.walletStateInit`) */
+  stateInit: string;
+  /** Hex public key reported by the wallet, cross-checked when given */
+  publicKey?: string;
+  allowedDomains: string[];
+  maxAgeSeconds: number;
+  /** Payload (nonce) the proof must carry */
+  expectedPayload?: string;
+  /** Unix seconds, defaults to now */
+  now?: number;
+}
+
+export interface VerifyTonProofResult {
+  valid: boolean;
+  address: string;
+  walletVersion: string | null;
+  publicKey: string | null;
+  checks: {
+    stateInitMatchesAddress: boolean;
+    publicKeyFound: boolean;
+    domainAllowed: boolean;
+    timestampInWindow: boolean;
+    payloadMatches: boolean;
+    signatureValid: boolean;
+  };
+  errors: string[];
+}
+
+/**
+ * Random nonce to send as the ton_proof payload
+ */
+export function generateProofPayload(): string {
+  return randomBytes(32).toString('hex');
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * Build the message a wallet signs for ton_proof:
+ * "ton-proof-item-v2/" ++ workchain ++ address hash ++ domain length ++ domain ++ timestamp ++ payload
+ */
+export function createTonProofMessage(address: Address, proof: TonProof): Buffer {
+  const workchain = Buffer.alloc(4);
+  workchain.writeInt32BE(address.workChain);
+
+  const domainLength = Buffer.alloc(4);
+  domainLength.writeUInt32LE(proof.domain.lengthBytes);
+
+  const timestamp = Buffer.alloc(8);
+  timestamp.writeBigUInt64LE(BigInt(proof.timestamp));
+
+  return Buffer.concat([
+    Buffer.from(TON_PROOF_PREFIX, 'utf-8'),
+    workchain,
+    address.hash,
+    domainLength,
+    Buffer.from(proof.domain.value, 'utf-8'),
+    timestamp,
+    Buffer.from(proof.payload, 'utf-8'),
+  ]);
+}
+
+/**
+ * Verify a ton_proof offline: the stateInit must hash to the address, the
+ * signature must come from the key stored in the stateInit, and domain,
+ * timestamp and payload must be the ones this server expects.
+ */
+export function verifyTonProof(params: VerifyTonProofParams): VerifyTonProofResult {
+  const { proof } = params;
+  const errors: string[] = [];
+  const address = Address.parse(params.address);
+  const stateInit = parseStateInit(params.stateInit);
+
+  const stateInitMatchesAddress = contractAddress(address.workChain, stateInit).equals(address);
+  if (!stateInitMatchesAddress) {
+    errors.push('stateInit does not match the wallet address');
+  }
+
+  const walletVersion = stateInit.code ? detectWalletVersion(stateInit.code) : null;
+  const publicKey = getPublicKeyFromStateInit(stateInit);
+  if (!publicKey) {
+    errors.push('Unable to read a public key from stateInit (unknown wallet contract)');
+  } else if (params.publicKey && params.publicKey.toLowerCase() !== publicKey.toString('hex')) {
+    errors.push('Public key reported by the wallet does not match its stateInit');
+  }
+
+  const domainAllowed =
+    proof.domain.lengthBytes === Buffer.byteLength(proof.domain.value, 'utf-8') &&
+    params.allowedDomains.includes(proof.domain.value);
+  if (!domainAllowed) {
+    errors.push(`Domain "${proof.domain.value}" is not allowed (expected: ${params.allowedDomains.join(', ')})`);
+  }
+
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+  const timestampInWindow =
+    proof.timestamp <= now + MAX_CLOCK_SKEW_SECONDS && now - proof.timestamp <= params.maxAgeSeconds;
+  if (!timestampInWindow) {
+    errors.push(`Proof timestamp ${proof.timestamp} is outside the ${params.maxAgeSeconds}s window`);
+  }
+
+  const payloadMatches = params.expectedPayload === undefined || proof.payload === params.expectedPayload;
+  if (!payloadMatches) {
+    errors.push('Proof payload does not match the expected nonce');
+  }
+
+  let signatureValid = false;
+  if (publicKey) {
+    const message = createTonProofMessage(address, proof);
+    const fullMessage = Buffer.concat([
+      Buffer.from([0xff, 0xff]),
+      Buffer.from(TON_CONNECT_PREFIX, 'utf-8'),
+      sha256(message),
+    ]);
+    signatureValid = signVerify(sha256(fullMessage), Buffer.from(proof.signature, 'base64'), publicKey);
+    if (!signatureValid) {
+      errors.push('Signature is invalid');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    address: address.toRawString(),
+    walletVersion,
+    publicKey: publicKey?.toString('hex') ?? null,
+    checks: {
+      stateInitMatchesAddress,
+      publicKeyFound: publicKey !== null,
+      domainAllowed,
+      timestampInWindow,
+      payloadMatches,
+      signatureValid,
+    },
+    errors,
+  };
+}
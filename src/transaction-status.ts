@@ -0,0 +1,167 @@
+import { beginCell, Cell, loadMessage, storeMessage, type Message } from '@ton/ton';
+import type { ChainProvider, ChainTransaction } from './chain-provider.js';
+
+export interface ExternalMessageHashes {
+  /** Hash of the message cell exactly as signed by the wallet */
+  hash: string;
+  /** TEP-467 normalized hash, stable regardless of how the message was relayed */
+  normalizedHash: string;
+}
+
+export type TransactionState = 'pending' | 'confirmed' | 'failed';
+
+export interface OutMessageStatus {
+  destination: string | null;
+  value: string | null;
+  bounce: boolean | null;
+  /** Destination transaction found */
+  delivered: boolean;
+  /** Destination transaction failed and the funds were bounced back */
+  bounced: boolean;
+  exitCode: number | null;
+}
+
+export interface TransactionStatus {
+  status: TransactionState;
+  finalized: boolean;
+  messageHash: string;
+  normalizedHash: string;
+  transaction?: {
+    hash: string;
+    lt: string;
+    account: string;
+    time: string;
+    aborted: boolean;
+    computeExitCode: number | null;
+    computeSkipped: boolean;
+    actionResultCode: number | null;
+    totalFees: string;
+  };
+  outMessages?: OutMessageStatus[];
+  /** Why the status could not be read; the transaction may still land */
+  error?: string;
+}
+
+export interface WaitOptions {
+  timeoutMs: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Hashes of the external message a wallet returned as `boc` from sendTransaction
+ */
+export function getExternalMessageHashes(boc: string): ExternalMessageHashes {
+  const cell = Cell.fromBase64(boc);
+  const message = loadMessage(cell.beginParse());
+  if (message.info.type !== 'external-in') {
+    throw new Error(`Expected an external-in message, got "${message.info.type}"`);
+  }
+
+  const normalized: Message = {
+    info: {
+      type: 'external-in',
+      src: null,
+      dest: message.info.dest,
+      importFee: 0n,
+    },
+    init: null,
+    body: message.body,
+  };
+  const normalizedCell = beginCell().store(storeMessage(normalized, { forceRef: true })).endCell();
+
+  return {
+    hash: cell.hash().toString('hex'),
+    normalizedHash: normalizedCell.hash().toString('hex'),
+  };
+}
+
+function isSuccessful(tx: ChainTransaction): boolean {
+  return !tx.aborted && tx.computePhase.success !== false && tx.actionPhase?.success !== false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Look up the transaction created by an external message and the transactions
+ * its outgoing messages triggered
+ */
+export async function getTransactionStatus(
+  provider: ChainProvider,
+  hashes: ExternalMessageHashes
+): Promise<TransactionStatus> {
+  let transactions = await provider.getTransactionsByMessage(hashes.normalizedHash, 'in');
+  if (transactions.length === 0) {
+    transactions = await provider.getTransactionsByMessage(hashes.hash, 'in');
+  }
+
+  const tx = transactions[0];
+  if (!tx) {
+    return {
+      status: 'pending',
+      finalized: false,
+      messageHash: hashes.hash,
+      normalizedHash: hashes.normalizedHash,
+    };
+  }
+
+  const outMessages: OutMessageStatus[] = [];
+  let finalized = tx.finalized;
+  for (const out of tx.outMessages) {
+    const [child] = await provider.getTransactionsByMessage(out.hash, 'in');
+    finalized = finalized && (child?.finalized ?? false);
+    outMessages.push({
+      destination: out.destination,
+      value: out.value,
+      bounce: out.bounce,
+      delivered: Boolean(child),
+      bounced: Boolean(child && !isSuccessful(child) && out.bounce),
+      exitCode: child?.computePhase.exitCode ?? null,
+    });
+  }
+
+  const failed = !isSuccessful(tx) || outMessages.some((out) => out.bounced);
+
+  return {
+    status: failed ? 'failed' : 'confirmed',
+    finalized,
+    messageHash: hashes.hash,
+    normalizedHash: hashes.normalizedHash,
+    transaction: {
+      hash: tx.hash,
+      lt: tx.lt,
+      account: tx.account,
+      time: new Date(tx.now * 1000).toISOString(),
+      aborted: tx.aborted,
+      computeExitCode: tx.computePhase.exitCode,
+      computeSkipped: tx.computePhase.skipped,
+      actionResultCode: tx.actionPhase?.resultCode ?? null,
+      totalFees: tx.totalFees,
+    },
+    outMessages,
+  };
+}
+
+/**
+ * Poll until the transaction and everything it triggered is finalized, or time out.
+ * Returns the last seen status either way.
+ */
+export async function waitForTransaction(
+  provider: ChainProvider,
+  hashes: ExternalMessageHashes,
+  options: WaitOptions
+): Promise<TransactionStatus> {
+  const deadline = Date.now() + options.timeoutMs;
+
+  while (true) {
+    const status = await getTransactionStatus(provider, hashes);
+    if (status.status !== 'pending' && status.finalized) {
+      return status;
+    }
+    if (Date.now() + options.pollIntervalMs > deadline) {
+      return status;
+    }
+    await sleep(options.pollIntervalMs);
+  }
+}
@@ -0,0 +1,307 @@
+import type TonConnect from '@tonconnect/sdk';
+import { UserRejectsError, type SendTransactionRequest, type SendTransactionResponse, type Wallet } from '@tonconnect/sdk';
+import { Address } from '@ton/core';
+import { describeAmount, parseTonAmount, TON_UNIT, type AmountDetails } from './amounts.js';
+import type { ChainProvider } from './chain-provider.js';
+import { buildEncryptedComment, buildTextComment } from './payloads.js';
+import { decodePayload, type DecodedPayload } from './payload-decoder.js';
+import { PolicyViolationError, type PolicyApproval, type SpendingPolicy } from './policy.js';
+import type { AuditLog, AuditOutcome, AuditRecord } from './audit-log.js';
+import { parseNetworkAddress, type TonNetwork } from './network.js';
+import {
+  getExternalMessageHashes,
+  waitForTransaction,
+  type ExternalMessageHashes,
+  type TransactionStatus,
+  type WaitOptions,
+} from './transaction-status.js';
+
+// TON Connect guarantees at least 4 messages per request
+export const DEFAULT_MAX_MESSAGES = 4;
+
+/**
+ * One outgoing message as accepted by send_transaction
+ */
+export interface TransactionMessageInput {
+  to: string;
+  amount: string;
+  payload?: string;
+  state_init?: string;
+  comment?: string;
+  /** Recipient's Ed25519 public key (hex); when set, the comment is sent encrypted */
+  encryption_public_key?: string;
+}
+
+export type TransactionMessage = SendTransactionRequest['messages'][number];
+
+/**
+ * Human-readable description of a message, echoed back to the agent
+ */
+export interface MessageSummary {
+  index: number;
+  to: string;
+  amount: AmountDetails;
+  comment?: string;
+  encryptedComment?: boolean;
+  customPayload?: DecodedPayload;
+  stateInit?: boolean;
+}
+
+/**
+ * Maximum number of messages the wallet accepts in one request,
+ * taken from its SendTransaction feature
+ */
+export function getMaxMessages(wallet: Wallet | null): number {
+  const feature = wallet?.device.features.find(
+    (f) => typeof f === 'object' && f.name === 'SendTransaction'
+  );
+  if (feature && typeof feature === 'object' && feature.name === 'SendTransaction') {
+    return feature.maxMessages;
+  }
+  return DEFAULT_MAX_MESSAGES;
+}
+
+/**
+ * Encode the message comment as a BOC, encrypted when a recipient public key is given
+ */
+function encodeComment(input: TransactionMessageInput, sender?: Address): string {
+  const comment = input.comment ?? '';
+  if (!input.encryption_public_key) {
+    return buildTextComment(comment).toBoc().toString('base64');
+  }
+
+  if (!/^[0-9a-fA-F]{64}$/.test(input.encryption_public_key)) {
+    throw new Error('encryption_public_key must be a 32-byte hex string');
+  }
+  if (!sender) {
+    throw new Error('Encrypted comments require the sender wallet address');
+  }
+  return buildEncryptedComment(comment, Buffer.from(input.encryption_public_key, 'hex'), sender)
+    .toBoc()
+    .toString('base64');
+}
+
+export interface PrepareOptions {
+  /** Sender wallet, needed for encrypted comments */
+  sender?: Address;
+  /** Recipient address flags are checked against this network */
+  network?: TonNetwork;
+}
+
+/**
+ * Validate a message and convert it into the TON Connect format
+ */
+export function prepareMessage(input: TransactionMessageInput, index: number, options: PrepareOptions = {}): TransactionMessage {
+  const { sender, network = 'mainnet' } = options;
+  let amount: bigint;
+  let payload = input.payload;
+  try {
+    parseNetworkAddress(input.to, network, 'recipient address');
+    amount = parseTonAmount(input.amount);
+    if (input.encryption_public_key && !input.comment) {
+      throw new Error('encryption_public_key requires a comment to encrypt');
+    }
+    if (input.comment && input.payload) {
+      throw new Error('Use either comment or payload, not both');
+    }
+    if (input.comment) {
+      payload = encodeComment(input, sender);
+    } else if (input.payload) {
+      decodePayload(input.payload); // reject malformed BOCs before they reach the wallet
+    }
+  } catch (error) {
+    throw new Error(`Message ${index + 1}: ${(error as Error).message}`);
+  }
+
+  const message: TransactionMessage = {
+    address: input.to,
+    amount: amount.toString(),
+  };
+
+  if (payload) {
+    message.payload = payload;
+  }
+
+  if (input.state_init) {
+    message.stateInit = input.state_init;
+  }
+
+  return message;
+}
+
+export function summarizeMessage(input: TransactionMessageInput, index: number): MessageSummary {
+  return {
+    index: index + 1,
+    to: input.to,
+    amount: describeAmount(parseTonAmount(input.amount), TON_UNIT),
+    ...(input.comment && { comment: input.comment }),
+    ...(input.encryption_public_key && { encryptedComment: true }),
+    ...(input.payload && { customPayload: decodePayload(input.payload) }),
+    ...(input.state_init && { stateInit: true }),
+  };
+}
+
+/**
+ * Sum of all message amounts in nanoTON
+ */
+export function totalAmount(messages: TransactionMessage[]): bigint {
+  return messages.reduce((sum, message) => sum + BigInt(message.amount), 0n);
+}
+
+export interface SubmittedTransaction {
+  boc: string;
+  /** Null when the wallet returned a BOC that is not an external message */
+  hashes: ExternalMessageHashes | null;
+  /** Present when confirmation was requested */
+  confirmation?: TransactionStatus;
+  /** Bookkeeping that failed after the wallet sent the transaction */
+  warnings?: string[];
+}
+
+export interface SubmitOptions {
+  /** Wait for the transaction on-chain */
+  confirm?: WaitOptions;
+  /** Checked before the request reaches the wallet */
+  policy?: SpendingPolicy;
+  /** Records the request, the policy decision and the wallet's answer */
+  audit?: { log: AuditLog; session: string };
+  /** Called once the checks passed, right before the wallet is asked to approve */
+  onPending?: () => Promise<void>;
+}
+
+/**
+ * Ask the wallet to sign and send the transaction, then optionally wait for it on-chain.
+ * UserRejectsError from the wallet, PolicyViolationError and AuditLogError are passed through to the caller.
+ */
+export async function submitTransaction(
+  connector: TonConnect,
+  provider: ChainProvider,
+  transaction: SendTransactionRequest,
+  options: SubmitOptions = {}
+): Promise<SubmittedTransaction> {
+  const { confirm, policy, audit, onPending } = options;
+  const sender = connector.wallet ? Address.parse(connector.wallet.account.address) : null;
+  // Entries written before the wallet is asked are strict and fail closed; outcomes afterwards are best effort
+  const record = async (event: 'transaction' | 'policy', outcome: AuditOutcome, details: Record<string, unknown> = {}, strict = false) => {
+    if (!audit) {
+      return;
+    }
+    const entry: AuditRecord = {
+      event,
+      outcome,
+      session: audit.session,
+      wallet: sender?.toString() ?? null,
+      addresses: transaction.messages.map((message) => message.address),
+      details,
+    };
+    await (strict ? audit.log.recordStrict(entry) : audit.log.record(entry));
+  };
+
+  await record('transaction', 'requested', {
+    validUntil: transaction.validUntil,
+    messages: transaction.messages.map((message) => ({
+      to: message.address,
+      amount: message.amount,
+      ...(message.payload && { payload: message.payload }),
+      ...(message.stateInit && { stateInit: message.stateInit }),
+    })),
+  }, true);
+
+  let approval: PolicyApproval | null = null;
+  if (policy) {
+    try {
+      approval = await policy.reserve(transaction, sender);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await record('policy', 'denied', { rule: error.rule, message: error.message, ...error.details });
+      }
+      throw error;
+    }
+
+    try {
+      await record('policy', 'allowed', {}, true);
+    } catch (error) {
+      await policy.release(approval);
+      throw error;
+    }
+  }
+
+  await onPending?.();
+
+  let result: SendTransactionResponse;
+  try {
+    result = await connector.sendTransaction(transaction);
+  } catch (error) {
+    if (policy && approval) {
+      await policy.release(approval);
+    }
+    const rejected = error instanceof UserRejectsError;
+    await record('transaction', rejected ? 'rejected' : 'error', rejected ? {} : { error: (error as Error).message });
+    throw error;
+  }
+  // The wallet has sent the transaction: from here on failures are reported next to the BOC, never thrown
+  const warnings: string[] = [];
+  if (policy && approval) {
+    try {
+      await policy.record(approval);
+    } catch (error) {
+      warnings.push(`The spending policy ledger could not be updated, the amounts stay reserved: ${(error as Error).message}`);
+    }
+  }
+  let hashes: ExternalMessageHashes | null = null;
+  try {
+    hashes = getExternalMessageHashes(result.boc);
+  } catch (error) {
+    warnings.push(`Unable to read the message hash from the returned BOC: ${(error as Error).message}`);
+  }
+  await record('transaction', 'approved', {
+    boc: result.boc,
+    hash: hashes?.hash ?? null,
+    normalizedHash: hashes?.normalizedHash ?? null,
+    ...(warnings.length > 0 && { warnings }),
+  });
+
+  const submitted: SubmittedTransaction = { boc: result.boc, hashes, ...(warnings.length > 0 && { warnings }) };
+  if (!confirm || !hashes) {
+    return submitted;
+  }
+
+  // A failed lookup must not lose the BOC either
+  try {
+    submitted.confirmation = await waitForTransaction(provider, hashes, confirm);
+  } catch (error) {
+    submitted.confirmation = {
+      status: 'pending',
+      finalized: false,
+      messageHash: hashes.hash,
+      normalizedHash: hashes.normalizedHash,
+      error: `Confirmation check failed: ${(error as Error).message}`,
+    };
+  }
+  return submitted;
+}
+
+/**
+ * Text describing how to track a submitted transaction, or its confirmation status
+ */
+export function describeSubmission(submitted: SubmittedTransaction): string {
+  let text = submitted.hashes
+    ? `Message hash: ${submitted.hashes.hash}\nNormalized hash: ${submitted.hashes.normalizedHash}\n`
+    : '';
+  for (const warning of submitted.warnings ?? []) {
+    text += `⚠️ ${warning}\n`;
+  }
+
+  if (!submitted.confirmation) {
+    text += `\nThe transaction has been approved by the wallet. Use get_transaction_status with the BOC or message hash to track it on-chain.`;
+    return text;
+  }
+
+  text += `\nConfirmation:\n${JSON.stringify(submitted.confirmation, null, 2)}\n`;
+  if (submitted.confirmation.error) {
+    text += `\nThe transaction was approved but its status could not be checked. Use get_transaction_status to keep tracking it.`;
+  } else if (submitted.confirmation.status === 'pending') {
+    text += `\nThe transaction was approved but not found on-chain yet. Use get_transaction_status to keep tracking it.`;
+  }
+  return text;
+}
@@ -0,0 +1,75 @@
+import { Address, type Cell, type MessageRelaxed, SendMode } from '@ton/core';
+import { WalletContractV3R1, WalletContractV3R2, WalletContractV4, WalletContractV5R1 } from '@ton/ton';
+import type { TonNetwork } from './network.js';
+import type { WalletVersionName } from './wallet-versions.js';
+
+/**
+ * Standard wallet contracts that can be rebuilt to sign transfers, newest first.
+ * Detecting the version of a deployed contract is done in wallet-versions.ts.
+ */
+
+export const STANDARD_WALLET_VERSIONS = ['v5r1', 'v4r2', 'v3r2', 'v3r1'] as const satisfies readonly WalletVersionName[];
+export type StandardWalletVersion = (typeof STANDARD_WALLET_VERSIONS)[number];
+
+export function isStandardWalletVersion(version: WalletVersionName | null): version is StandardWalletVersion {
+  return version !== null && (STANDARD_WALLET_VERSIONS as readonly string[]).includes(version);
+}
+
+const NETWORK_GLOBAL_IDS: Record<TonNetwork, number> = {
+  mainnet: -239,
+  testnet: -3,
+};
+
+type WalletContract = WalletContractV3R1 | WalletContractV3R2 | WalletContractV4 | WalletContractV5R1;
+
+function createWalletContract(version: StandardWalletVersion, publicKey: Buffer, workchain: number, network: TonNetwork): WalletContract {
+  switch (version) {
+    case 'v3r1':
+      return WalletContractV3R1.create({ workchain, publicKey });
+    case 'v3r2':
+      return WalletContractV3R2.create({ workchain, publicKey });
+    case 'v4r2':
+      return WalletContractV4.create({ workchain, publicKey });
+    case 'v5r1':
+      return WalletContractV5R1.create({
+        publicKey,
+        walletId: {
+          networkGlobalId: NETWORK_GLOBAL_IDS[network],
+          context: { workchain, walletVersion: 'v5r1', subwalletNumber: 0 },
+        },
+      });
+  }
+}
+
+/**
+ * A standard wallet with a known public key, able to build transfer bodies
+ */
+export interface StandardWallet {
+  version: StandardWalletVersion;
+  address: Address;
+  init: { code: Cell; data: Cell };
+  createTransfer(args: { seqno: number; secretKey: Buffer; messages: MessageRelaxed[]; timeout?: number }): Cell;
+}
+
+/**
+ * Rebuild the wallet contract behind an address. Returns null when the
+ * address is not the default wallet of that version for the key
+ * (e.g. a custom subwallet id).
+ */
+export function findStandardWallet(address: Address, publicKey: Buffer, version: StandardWalletVersion, network: TonNetwork): StandardWallet | null {
+  const contract = createWalletContract(version, publicKey, address.workChain, network);
+  if (!contract.address.equals(address)) {
+    return null;
+  }
+
+  // TON Connect wallets pay fees separately and ignore errors of single messages
+  const sendMode = SendMode.PAY_GAS_SEPARATELY | SendMode.IGNORE_ERRORS;
+  return {
+    version,
+    address: contract.address,
+    init: contract.init,
+    createTransfer: (args) => contract instanceof WalletContractV5R1
+      ? contract.createTransfer({ ...args, sendMode })
+      : contract.createTransfer({ ...args, sendMode }),
+  };
+}
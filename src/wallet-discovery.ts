@@ -0,0 +1,287 @@
+import type { Feature, WalletInfo } from '@tonconnect/sdk';
+
+/**
+ * Wallet registry lookups: the TON Connect wallets list is fetched once per TTL,
+ * kept when a refresh fails, and replaced by a bundled list when the registry
+ * has never been reachable.
+ */
+
+export const DEFAULT_WALLETS_LIST_URL = 'https://config.ton.org/wallets-v2.json';
+
+export const WALLET_PLATFORMS = ['ios', 'android', 'macos', 'windows', 'linux', 'chrome', 'firefox', 'safari'] as const;
+export type WalletPlatform = (typeof WALLET_PLATFORMS)[number];
+
+export const WALLET_FEATURES = ['SendTransaction', 'SignData'] as const;
+export type WalletFeature = (typeof WALLET_FEATURES)[number];
+
+/**
+ * Universal link understood by any TON Connect wallet, used for custom bridges
+ * when no wallet-specific link is known
+ */
+export const GENERIC_UNIVERSAL_LINK = 'tc://';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Registry entry as published in wallets-v2.json
+ */
+interface WalletConfigDTO {
+  app_name: string;
+  name: string;
+  image: string;
+  about_url: string;
+  tondns?: string;
+  universal_url?: string;
+  deepLink?: string;
+  bridge: ({ type: 'sse'; url: string } | { type: 'js'; key: string })[];
+  platforms: WalletPlatform[];
+  features?: Feature[];
+}
+
+/**
+ * Wallets that work without the registry, from wallets-v2.json
+ */
+const BUNDLED_WALLETS: WalletConfigDTO[] = [
+  {
+    app_name: 'telegram-wallet',
+    name: 'Wallet',
+    image: 'https://wallet.tg/images/logo-288.png',
+    about_url: 'https://wallet.tg/',
+    universal_url: 'https://t.me/wallet?attach=wallet',
+    bridge: [{ type: 'sse', url: 'https://walletbot.me/tonconnect-bridge/bridge' }],
+    platforms: ['ios', 'android', 'macos', 'windows', 'linux'],
+    features: [
+      { name: 'SendTransaction', maxMessages: 255, extraCurrencySupported: true },
+      { name: 'SignData', types: ['text', 'binary', 'cell'] },
+    ],
+  },
+  {
+    app_name: 'tonkeeper',
+    name: 'Tonkeeper',
+    image: 'https://tonkeeper.com/assets/tonconnect-icon.png',
+    tondns: 'tonkeeper.ton',
+    about_url: 'https://tonkeeper.com',
+    universal_url: 'https://app.tonkeeper.com/ton-connect',
+    deepLink: 'tonkeeper-tc://',
+    bridge: [
+      { type: 'sse', url: 'https://bridge.tonapi.io/bridge' },
+      { type: 'js', key: 'tonkeeper' },
+    ],
+    platforms: ['ios', 'android', 'chrome', 'firefox', 'macos'],
+    features: [
+      { name: 'SendTransaction', maxMessages: 255, extraCurrencySupported: true },
+      { name: 'SignData', types: ['text', 'binary', 'cell'] },
+    ],
+  },
+  {
+    app_name: 'mytonwallet',
+    name: 'MyTonWallet',
+    image: 'https://static.mytonwallet.io/icon-256.png',
+    about_url: 'https://mytonwallet.io',
+    universal_url: 'https://connect.mytonwallet.org',
+    deepLink: 'mytonwallet-tc://',
+    bridge: [
+      { type: 'js', key: 'mytonwallet' },
+      { type: 'sse', url: 'https://tonconnectbridge.mytonwallet.org/bridge/' },
+    ],
+    platforms: ['chrome', 'windows', 'macos', 'linux', 'ios', 'android', 'firefox'],
+    features: [
+      { name: 'SendTransaction', maxMessages: 255, extraCurrencySupported: false },
+      { name: 'SignData', types: ['text', 'binary', 'cell'] },
+    ],
+  },
+  {
+    app_name: 'tonhub',
+    name: 'Tonhub',
+    image: 'https://tonhub.com/tonconnect_logo.png',
+    about_url: 'https://tonhub.com',
+    universal_url: 'https://tonhub.com/ton-connect',
+    bridge: [
+      { type: 'js', key: 'tonhub' },
+      { type: 'sse', url: 'https://connect.tonhubapi.com/tonconnect' },
+    ],
+    platforms: ['ios', 'android'],
+    features: [{ name: 'SendTransaction', maxMessages: 4, extraCurrencySupported: false }],
+  },
+];
+
+export type WalletListSource = 'registry' | 'cache' | 'stale-cache' | 'bundled';
+
+export interface WalletList {
+  wallets: WalletInfo[];
+  source: WalletListSource;
+  /** When the registry was last fetched, null for the bundled list */
+  fetchedAt: number | null;
+  /** Why the registry could not be used */
+  error?: string;
+}
+
+function isWalletConfigDTO(value: unknown): value is WalletConfigDTO {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const dto = value as Partial<WalletConfigDTO>;
+  if (typeof dto.name !== 'string' || typeof dto.app_name !== 'string' || !Array.isArray(dto.platforms) || !Array.isArray(dto.bridge)) {
+    return false;
+  }
+  const sse = dto.bridge.find((bridge) => bridge?.type === 'sse');
+  // The SSE bridge is what a server can connect through; it needs a universal link
+  return !sse || (typeof sse.url === 'string' && typeof dto.universal_url === 'string');
+}
+
+/**
+ * Same shape TonConnect.getWallets() returns. Nothing is injected in Node, so
+ * JS bridges are listed but never marked injected.
+ */
+function toWalletInfo(dto: WalletConfigDTO): WalletInfo {
+  const wallet: Record<string, unknown> = {
+    name: dto.name,
+    appName: dto.app_name,
+    imageUrl: dto.image,
+    aboutUrl: dto.about_url,
+    tondns: dto.tondns,
+    platforms: dto.platforms,
+    features: dto.features,
+  };
+  for (const bridge of dto.bridge) {
+    if (bridge.type === 'sse') {
+      wallet.bridgeUrl = bridge.url;
+      wallet.universalLink = dto.universal_url;
+      wallet.deepLink = dto.deepLink;
+    }
+    if (bridge.type === 'js') {
+      wallet.jsBridgeKey = bridge.key;
+      wallet.injected = false;
+      wallet.embedded = false;
+    }
+  }
+  return wallet as unknown as WalletInfo;
+}
+
+/**
+ * Cached TON Connect wallet registry
+ */
+export class WalletRegistry {
+  private cache: { wallets: WalletInfo[]; fetchedAt: number } | null = null;
+  private pending: Promise<WalletInfo[]> | null = null;
+
+  constructor(
+    private readonly sourceUrl: string = DEFAULT_WALLETS_LIST_URL,
+    private readonly ttlMs: number = 3600 * 1000
+  ) {}
+
+  async getWallets(): Promise<WalletList> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < this.ttlMs) {
+      return { wallets: this.cache.wallets, source: 'cache', fetchedAt: this.cache.fetchedAt };
+    }
+
+    try {
+      const wallets = await this.refresh();
+      return { wallets, source: 'registry', fetchedAt: this.cache!.fetchedAt };
+    } catch (error) {
+      const message = (error as Error).message;
+      if (this.cache) {
+        return { wallets: this.cache.wallets, source: 'stale-cache', fetchedAt: this.cache.fetchedAt, error: message };
+      }
+      return { wallets: BUNDLED_WALLETS.map(toWalletInfo), source: 'bundled', fetchedAt: null, error: message };
+    }
+  }
+
+  /**
+   * Fetch the registry now. Concurrent callers share one request.
+   */
+  refresh(): Promise<WalletInfo[]> {
+    if (!this.pending) {
+      this.pending = this.fetchWallets().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchWallets(): Promise<WalletInfo[]> {
+    const response = await fetch(this.sourceUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Wallet registry responded with HTTP ${response.status}`);
+    }
+
+    const list: unknown = await response.json();
+    if (!Array.isArray(list)) {
+      throw new Error('Wallet registry returned an invalid list');
+    }
+    const wallets = list.filter(isWalletConfigDTO).map(toWalletInfo);
+    if (wallets.length === 0) {
+      throw new Error('Wallet registry returned no usable wallets');
+    }
+
+    this.cache = { wallets, fetchedAt: Date.now() };
+    return wallets;
+  }
+}
+
+export function walletSupportsPlatform(wallet: WalletInfo, platform: WalletPlatform): boolean {
+  return wallet.platforms.includes(platform);
+}
+
+/**
+ * Wallets that list no features predate the feature list and only send transactions
+ */
+export function walletSupportsFeature(wallet: WalletInfo, feature: WalletFeature): boolean {
+  if (!wallet.features) {
+    return feature === 'SendTransaction';
+  }
+  return wallet.features.some((item) => (typeof item === 'string' ? item === feature : item.name === feature));
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export interface WalletMatch {
+  /** Set only for an unambiguous match on name or app name */
+  wallet?: WalletInfo;
+  /** Closest names when nothing matched, best first */
+  suggestions: string[];
+}
+
+/**
+ * Find a wallet by name or app name, ignoring case, spaces and punctuation.
+ * Typos are never connected to; they produce suggestions instead.
+ */
+export function findWallet(wallets: WalletInfo[], query: string): WalletMatch {
+  const target = normalizeName(query);
+  const wallet = wallets.find((w) => normalizeName(w.name) === target || normalizeName(w.appName) === target);
+  if (wallet) {
+    return { wallet, suggestions: [] };
+  }
+
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+  const suggestions = wallets
+    .map((w) => {
+      const names = [normalizeName(w.name), normalizeName(w.appName)];
+      const distance = names.some((name) => target && (name.includes(target) || target.includes(name)))
+        ? 0
+        : Math.min(...names.map((name) => levenshtein(target, name)));
+      return { name: w.name, distance };
+    })
+    .filter((candidate) => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((candidate) => candidate.name);
+
+  return { suggestions };
+}
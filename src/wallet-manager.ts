@@ -1,8 +1,283 @@
-import TonConnect, { type WalletInfo } from '@tonconnect/sdk';
+import TonConnect, { UserRejectsError, WalletWrongNetworkError, type Feature, type IStorage, type Wallet } from '@tonconnect/sdk';
+import type { AuditLog } from './audit-log.js';
+import { NETWORK_CHAINS, type TonNetwork } from './network.js';
+import { NamespacedStorage } from './storage.js';
+
+export const DEFAULT_SESSION = 'default';
+
+const SESSION_INDEX_KEY = 'ton-connect-mcp:sessions';
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_SESSION_EVENTS = 20;
+
+export type ConnectionStatus = 'idle' | 'pending' | 'connected' | 'disconnected' | 'error';
+
+/**
+ * A step in a session's connection lifecycle
+ */
+export interface ConnectionEvent {
+  session: string;
+  status: ConnectionStatus;
+  timestamp: number;
+  /** Wallet app name: the one being connected while pending, the connected one afterwards */
+  wallet?: string;
+  address?: string;
+  chain?: string;
+  features?: Feature[];
+  error?: string;
+}
+
+export type ConnectionListener = (event: ConnectionEvent) => void;
+
+/**
+ * A named wallet connection with its own TON Connect instance
+ */
+export interface WalletSession {
+  id: string;
+  connector: TonConnect;
+  createdAt: number;
+  /** ton_proof payload requested in the last connect call */
+  proofPayload?: string;
+  /** Latest connection event */
+  state: ConnectionEvent;
+  /** Recent connection events, oldest first */
+  events: ConnectionEvent[];
+}
+
+export interface WalletManagerOptions {
+  /** Connections from other networks are refused */
+  network?: TonNetwork;
+  audit?: AuditLog;
+}
+
+function describeWallet(wallet: Wallet): Pick<ConnectionEvent, 'wallet' | 'address' | 'chain' | 'features'> {
+  return {
+    wallet: wallet.device.appName,
+    address: wallet.account.address,
+    chain: wallet.account.chain,
+    features: wallet.device.features,
+  };
+}
+
+interface SessionIndexEntry {
+  id: string;
+  createdAt: number;
+}
 
 /**
- * Simple helper to get wallet list
+ * Holds several named wallet connections side by side.
+ * Each session gets its own storage namespace, and the list of session
+ * names is kept in the base storage so they can be restored on startup.
  */
-export async function getWallets(): Promise<WalletInfo[]> {
-  return await TonConnect.getWallets();
+export class WalletManager {
+  private sessions: Map<string, WalletSession> = new Map();
+  private listeners: Set<ConnectionListener> = new Set();
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly manifestUrl: string,
+    private readonly options: WalletManagerOptions = {}
+  ) {}
+
+  /**
+   * Validate a user-supplied session name, falling back to the default session
+   */
+  static resolveSessionId(id?: string): string {
+    const sessionId = id?.trim() || DEFAULT_SESSION;
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session name: "${sessionId}". Use 1-64 letters, digits, "_" or "-".`);
+    }
+    return sessionId;
+  }
+
+  /**
+   * Recreate sessions recorded in storage and restore their wallet connections
+   */
+  async restore(): Promise<void> {
+    const entries = await this.readIndex();
+
+    for (const entry of entries) {
+      const session = this.createSession(entry.id, entry.createdAt);
+      try {
+        await session.connector.restoreConnection();
+      } catch (error) {
+        // Silently ignore restore errors
+      }
+    }
+  }
+
+  /**
+   * Get an existing session or create it
+   */
+  async getSession(id?: string): Promise<WalletSession> {
+    const sessionId = WalletManager.resolveSessionId(id);
+    const existing = this.sessions.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const session = this.createSession(sessionId, Date.now());
+    await this.writeIndex();
+    return session;
+  }
+
+  /**
+   * Get an existing session without creating one
+   */
+  findSession(id?: string): WalletSession | undefined {
+    return this.sessions.get(WalletManager.resolveSessionId(id));
+  }
+
+  listSessions(): WalletSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Subscribe to connection events of all sessions. Returns an unsubscribe function.
+   */
+  onConnectionEvent(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Record that a connection link was handed out and the wallet's approval is awaited
+   */
+  markPending(session: WalletSession, walletName: string): void {
+    this.emit(session, { status: 'pending', wallet: walletName });
+  }
+
+  /**
+   * Disconnect the wallet and forget the session entirely
+   */
+  async removeSession(id?: string): Promise<void> {
+    const session = this.findSession(id);
+    if (!session) {
+      return;
+    }
+
+    if (session.connector.connected) {
+      await session.connector.disconnect();
+    }
+    this.sessions.delete(session.id);
+    await this.writeIndex();
+  }
+
+  /**
+   * Disconnect and forget every session, when the client owning them goes away
+   */
+  async clear(): Promise<void> {
+    for (const session of this.listSessions()) {
+      await this.removeSession(session.id);
+    }
+  }
+
+  /**
+   * Stop all sessions on shutdown. Persistent sessions are only paused so
+   * they can be restored next time; in-memory ones are disconnected.
+   */
+  async shutdown(keepSessions: boolean): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (keepSessions) {
+        session.connector.pauseConnection();
+      } else if (session.connector.connected) {
+        await session.connector.disconnect();
+      }
+    }
+  }
+
+  private createSession(id: string, createdAt: number): WalletSession {
+    const connector = new TonConnect({
+      manifestUrl: this.manifestUrl,
+      storage: new NamespacedStorage(this.storage, `session:${id}:`),
+    });
+    if (this.options.network) {
+      connector.setConnectionNetwork(NETWORK_CHAINS[this.options.network]);
+    }
+
+    const state: ConnectionEvent = { session: id, status: 'idle', timestamp: Date.now() };
+    const session: WalletSession = { id, connector, createdAt, state, events: [state] };
+
+    // Set up event listeners to prevent unhandled events from being logged
+    let lastAddress: string | null = null;
+    connector.onStatusChange((walletInfo) => {
+      // Log to stderr only if needed for debugging
+      if (process.env.DEBUG_TON_CONNECT) {
+        console.error(`[TON Connect] Session "${id}" status changed:`, walletInfo ? 'connected' : 'disconnected');
+      }
+
+      if (walletInfo) {
+        lastAddress = walletInfo.account.address;
+        this.emit(session, { status: 'connected', ...describeWallet(walletInfo) });
+        void this.options.audit?.record({
+          event: 'connect',
+          outcome: 'connected',
+          session: id,
+          wallet: walletInfo.account.address,
+          details: { wallet: walletInfo.device.appName, chain: walletInfo.account.chain },
+        });
+      } else if (lastAddress) {
+        this.emit(session, { status: 'disconnected', address: lastAddress });
+        void this.options.audit?.record({ event: 'disconnect', outcome: 'disconnected', session: id, wallet: lastAddress });
+        lastAddress = null;
+      }
+    }, (error) => {
+      if (error instanceof UserRejectsError) {
+        this.emit(session, { status: 'error', error: 'The user declined the connection in the wallet.' });
+        return;
+      }
+
+      // The SDK refuses wallets on another network than the one requested at connect time
+      if (error instanceof WalletWrongNetworkError) {
+        this.emit(session, { status: 'error', error: `Connection refused: the wallet is not on ${this.options.network}.` });
+        void this.options.audit?.record({
+          event: 'connect',
+          outcome: 'denied',
+          session: id,
+          details: { reason: 'wrong_network', expected: this.options.network },
+        });
+        return;
+      }
+
+      this.emit(session, { status: 'error', error: error.message });
+    });
+
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  private emit(session: WalletSession, event: Omit<ConnectionEvent, 'session' | 'timestamp'>): void {
+    const full: ConnectionEvent = { ...event, session: session.id, timestamp: Date.now() };
+    session.state = full;
+    session.events = [...session.events, full].slice(-MAX_SESSION_EVENTS);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(full);
+      } catch (error) {
+        // A failing listener must not break the connection flow
+      }
+    }
+  }
+
+  private async readIndex(): Promise<SessionIndexEntry[]> {
+    const raw = await this.storage.getItem(SESSION_INDEX_KEY);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      const entries = JSON.parse(raw) as SessionIndexEntry[];
+      return entries.filter((entry) => SESSION_ID_PATTERN.test(entry.id));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async writeIndex(): Promise<void> {
+    const entries: SessionIndexEntry[] = this.listSessions().map((session) => ({
+      id: session.id,
+      createdAt: session.createdAt,
+    }));
+    await this.storage.setItem(SESSION_INDEX_KEY, JSON.stringify(entries));
+  }
 }
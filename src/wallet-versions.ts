@@ -0,0 +1,98 @@
+import {
+  Cell,
+  loadStateInit,
+  WalletContractV1R1,
+  WalletContractV1R2,
+  WalletContractV1R3,
+  WalletContractV2R1,
+  WalletContractV2R2,
+  WalletContractV3R1,
+  WalletContractV3R2,
+  WalletContractV4,
+  WalletContractV5Beta,
+  WalletContractV5R1,
+  type Address,
+  type StateInit,
+} from '@ton/ton';
+import type { ChainProvider } from './chain-provider.js';
+
+export type WalletVersionName = 'v1r1' | 'v1r2' | 'v1r3' | 'v2r1' | 'v2r2' | 'v3r1' | 'v3r2' | 'v4r2' | 'v5beta' | 'v5r1';
+
+/**
+ * Standard wallet contract: its code and the bit offset of the public key in its data cell
+ */
+interface WalletVersion {
+  name: WalletVersionName;
+  code: Cell;
+  publicKeyOffset: number;
+}
+
+// Code cells are taken from @ton/ton wallet contracts, the key does not affect them
+const DUMMY_KEY = Buffer.alloc(32);
+
+const WALLET_VERSIONS: WalletVersion[] = [
+  { name: 'v1r1', code: WalletContractV1R1.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 32 },
+  { name: 'v1r2', code: WalletContractV1R2.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 32 },
+  { name: 'v1r3', code: WalletContractV1R3.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 32 },
+  { name: 'v2r1', code: WalletContractV2R1.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 32 },
+  { name: 'v2r2', code: WalletContractV2R2.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 32 },
+  { name: 'v3r1', code: WalletContractV3R1.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 64 },
+  { name: 'v3r2', code: WalletContractV3R2.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 64 },
+  { name: 'v4r2', code: WalletContractV4.create({ workchain: 0, publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 64 },
+  // seqno(33) + wallet_id(80)
+  { name: 'v5beta', code: WalletContractV5Beta.create({ publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 113 },
+  // is_signature_allowed(1) + seqno(32) + wallet_id(32)
+  { name: 'v5r1', code: WalletContractV5R1.create({ publicKey: DUMMY_KEY }).init.code, publicKeyOffset: 65 },
+];
+
+/**
+ * Identify a standard wallet contract by its code hash
+ */
+export function detectWalletVersion(code: Cell): WalletVersionName | null {
+  return WALLET_VERSIONS.find((version) => version.code.equals(code))?.name ?? null;
+}
+
+const CODE_HASHES: Map<string, WalletVersionName> = new Map(
+  WALLET_VERSIONS.map((version) => [version.code.hash().toString('hex'), version.name])
+);
+
+/**
+ * Identify a standard wallet contract by the hex code hash reported by the chain API
+ */
+export function detectWalletVersionByCodeHash(codeHash: string | null): WalletVersionName | null {
+  return codeHash ? CODE_HASHES.get(codeHash.toLowerCase()) ?? null : null;
+}
+
+/**
+ * Parse a base64 stateInit BOC as returned by TON Connect in `account.walletStateInit`
+ */
+export function parseStateInit(stateInitBase64: string): StateInit {
+  return loadStateInit(Cell.fromBase64(stateInitBase64).beginParse());
+}
+
+/**
+ * Read the owner's public key from a standard wallet stateInit.
+ * Returns null for unknown contracts.
+ */
+export function getPublicKeyFromStateInit(stateInit: StateInit): Buffer | null {
+  if (!stateInit.code || !stateInit.data) {
+    return null;
+  }
+
+  const version = WALLET_VERSIONS.find((v) => v.code.equals(stateInit.code!));
+  if (!version) {
+    return null;
+  }
+
+  const slice = stateInit.data.beginParse();
+  slice.skip(version.publicKeyOffset);
+  return slice.loadBuffer(32);
+}
+
+/**
+ * Public key of a deployed wallet, read with its get_public_key get-method
+ */
+export async function readWalletPublicKey(provider: ChainProvider, wallet: Address): Promise<Buffer> {
+  const stack = await provider.runGetMethod(wallet.toString(), 'get_public_key');
+  return Buffer.from(stack.readBigNumber().toString(16).padStart(64, '0'), 'hex');
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { AddressBook } from '../src/address-book.js';
+import { testAddress } from './fake-provider.js';
+
+const dir = await mkdtemp(join(tmpdir(), 'ton-address-book-'));
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('read-only address book', () => {
+  it('resolves saved labels but refuses to change them', async () => {
+    const filePath = join(dir, 'address-book.json');
+    const treasury = testAddress(1).toString();
+    await new AddressBook(filePath).save({ label: 'treasury', address: treasury }, 'mainnet');
+
+    const book = new AddressBook(filePath, { readOnly: true });
+    await book.load();
+    assert.equal(book.get('@treasury')?.address, treasury);
+
+    await assert.rejects(book.save({ label: 'treasury', address: testAddress(2).toString() }, 'mainnet'), /read-only/);
+    await assert.rejects(book.remove('treasury'), /read-only/);
+
+    assert.equal(book.get('@treasury')?.address, treasury);
+    const file = JSON.parse(await readFile(filePath, 'utf-8'));
+    assert.deepEqual(file.entries.map((entry: { address: string }) => entry.address), [treasury]);
+  });
+});
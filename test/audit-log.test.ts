@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { AuditLog, auditEntriesToCsv, type AuditRecord } from '../src/audit-log.js';
+import { testAddress } from './fake-provider.js';
+
+function transaction(session: string, details: Record<string, unknown> = {}): AuditRecord {
+  return { event: 'transaction', outcome: 'requested', session, wallet: testAddress(1).toString(), addresses: [testAddress(2).toString()], details };
+}
+
+/**
+ * Minimal RFC 4180 reader, enough to check the export round-trips
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'audit-'));
+    path = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('chains every entry to the previous one', async () => {
+    const log = new AuditLog(path);
+    const first = await log.append(transaction('a'));
+    const second = await log.append(transaction('a'));
+
+    assert.equal(second.seq, first.seq + 1);
+    assert.equal(second.prevHash, first.hash);
+    assert.deepEqual(await log.verify(), { valid: true, entries: 2 });
+  });
+
+  it('detects an edited line', async () => {
+    const log = new AuditLog(path);
+    for (let i = 0; i < 3; i++) {
+      await log.append(transaction('a', { amount: '1000' }));
+    }
+
+    const lines = (await readFile(path, 'utf-8')).split('\n');
+    lines[1] = lines[1].replace('"amount":"1000"', '"amount":"9000"');
+    await writeFile(path, lines.join('\n'));
+    assert.deepEqual(await log.verify(), { valid: false, entries: 3, brokenAt: 2 });
+  });
+
+  it('detects a deleted line', async () => {
+    const log = new AuditLog(path);
+    for (let i = 0; i < 3; i++) {
+      await log.append(transaction('a'));
+    }
+
+    const lines = (await readFile(path, 'utf-8')).split('\n');
+    lines.splice(1, 1);
+    await writeFile(path, lines.join('\n'));
+    assert.deepEqual(await log.verify(), { valid: false, entries: 2, brokenAt: 3 });
+  });
+
+  it('continues the chain across instances sharing the file', async () => {
+    await new AuditLog(path).append(transaction('a'));
+    const entry = await new AuditLog(path).append(transaction('b'));
+    assert.equal(entry.seq, 2);
+    assert.equal((await new AuditLog(path).verify()).valid, true);
+  });
+
+  it('filters by address in any format', async () => {
+    const log = new AuditLog();
+    await log.append(transaction('a'));
+    await log.append({ event: 'connect', outcome: 'connected', session: 'b', wallet: testAddress(3).toString() });
+
+    assert.equal((await log.query({ address: testAddress(2).toRawString() })).length, 1);
+    assert.equal((await log.query({ address: testAddress(3).toString({ bounceable: false }) }))[0].session, 'b');
+    assert.equal((await log.query({ event: 'connect' })).length, 1);
+  });
+});
+
+describe('AuditLog scoped views', () => {
+  it('only show their own entries but share the hash chain', async () => {
+    const log = new AuditLog();
+    const alice = log.scoped('alice');
+    const bob = log.scoped('bob');
+    await alice.append(transaction('default'));
+    await bob.append(transaction('default'));
+    await alice.append(transaction('treasury'));
+
+    assert.deepEqual((await alice.query()).map((entry) => entry.session), ['alice:default', 'alice:treasury']);
+    assert.deepEqual((await bob.query()).map((entry) => entry.seq), [2]);
+    assert.deepEqual((await alice.query({ session: 'treasury' })).map((entry) => entry.seq), [3]);
+    assert.deepEqual((await alice.query({ limit: 1 })).map((entry) => entry.seq), [3]);
+    assert.deepEqual(await bob.verify(), { valid: true, entries: 3 });
+  });
+
+  it('do not match a scope that only shares a prefix', async () => {
+    const log = new AuditLog();
+    await log.scoped('ab').append(transaction('default'));
+    assert.deepEqual(await log.scoped('a').query(), []);
+  });
+});
+
+describe('auditEntriesToCsv', () => {
+  it('quotes fields with commas, quotes and newlines', async () => {
+    const log = new AuditLog();
+    await log.append(transaction('desk, 2nd "floor"\nleft', { comment: 'rent, march' }));
+    await log.append(transaction('plain'));
+    const entries = await log.query();
+
+    const csv = auditEntriesToCsv(entries);
+    assert.ok(csv.includes('"desk, 2nd ""floor""\nleft"'));
+
+    const [header, first, second] = parseCsv(csv);
+    assert.equal(header.length, 10);
+    assert.equal(first.length, 10);
+    assert.equal(first[4], 'desk, 2nd "floor"\nleft');
+    assert.deepEqual(JSON.parse(first[7]), { comment: 'rent, march' });
+    assert.equal(first[6], testAddress(2).toRawString());
+    assert.equal(second[4], 'plain');
+    assert.equal(second[9], entries[1].hash);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { beginCell, type Address } from '@ton/core';
+import { WalletContractV2R2, WalletContractV4 } from '@ton/ton';
+import { getAccountBalances, getAccountStateInfo } from '../src/balances.js';
+import { FakeChainProvider, onchainContent, testAddress } from './fake-provider.js';
+
+const owner = testAddress(1);
+
+function setJettonMaster(provider: FakeChainProvider, master: Address, content: Record<string, string>): void {
+  provider.setGetMethod(master, 'get_jetton_data', [
+    { type: 'int', value: 1_000_000n },
+    { type: 'int', value: -1n },
+    { type: 'slice', cell: beginCell().storeAddress(null).endCell() },
+    { type: 'cell', cell: onchainContent(content) },
+    { type: 'cell', cell: beginCell().endCell() },
+  ]);
+}
+
+describe('getAccountBalances', () => {
+  it('formats TON and jetton balances with the jetton metadata', async () => {
+    const provider = new FakeChainProvider();
+    const master = testAddress(10);
+    provider.setAccount(owner, { balance: '1500000000' });
+    setJettonMaster(provider, master, { symbol: 'USDT', name: 'Tether USD', decimals: '6' });
+    provider.jettonWallets.set(owner.toRawString(), [
+      { address: testAddress(11).toRawString(), balance: '2500000', jetton: master.toRawString(), owner: owner.toRawString() },
+    ]);
+
+    const balances = await getAccountBalances(provider, owner);
+    assert.equal(balances.status, 'active');
+    assert.equal(balances.ton.raw, '1500000000');
+    assert.equal(balances.jettons.length, 1);
+    assert.equal(balances.jettons[0].symbol, 'USDT');
+    assert.equal(balances.jettons[0].decimals, 6);
+    assert.equal(balances.jettons[0].balance.raw, '2500000');
+    assert.match(balances.jettons[0].balance.formatted ?? '', /^2\.5 USDT$/);
+    assert.equal(balances.jettonsTruncated, false);
+  });
+
+  it('leaves out zero balances unless asked for', async () => {
+    const provider = new FakeChainProvider();
+    const master = testAddress(12);
+    setJettonMaster(provider, master, { symbol: 'ZERO' });
+    provider.jettonWallets.set(owner.toRawString(), [
+      { address: testAddress(13).toRawString(), balance: '0', jetton: master.toRawString(), owner: owner.toRawString() },
+    ]);
+
+    assert.equal((await getAccountBalances(provider, owner)).jettons.length, 0);
+    assert.equal((await getAccountBalances(provider, owner, { includeZero: true })).jettons.length, 1);
+  });
+
+  it('reports unreadable metadata next to the raw balance', async () => {
+    const provider = new FakeChainProvider();
+    provider.jettonWallets.set(owner.toRawString(), [
+      { address: testAddress(15).toRawString(), balance: '42', jetton: testAddress(14).toRawString(), owner: owner.toRawString() },
+    ]);
+
+    const [jetton] = (await getAccountBalances(provider, owner)).jettons;
+    assert.deepEqual(jetton.balance, { raw: '42', formatted: null });
+    assert.match(jetton.metadataError ?? '', /exit code 11/);
+  });
+
+  it('fails when the account cannot be read', async () => {
+    const provider = new FakeChainProvider();
+    provider.failNext = new Error('API unavailable');
+    await assert.rejects(getAccountBalances(provider, owner), /API unavailable/);
+  });
+});
+
+describe('getAccountStateInfo', () => {
+  it('recognises a standard wallet by its code', async () => {
+    const provider = new FakeChainProvider();
+    const code = WalletContractV4.create({ workchain: 0, publicKey: Buffer.alloc(32) }).init.code;
+    provider.setAccount(owner, {
+      balance: '3000000000',
+      lastTransactionLt: '100',
+      codeHash: code.hash().toString('hex'),
+      code: code.toBoc().toString('base64'),
+    });
+
+    const info = await getAccountStateInfo(provider, owner, { testOnly: true });
+    assert.equal(info.address, owner.toString({ testOnly: true }));
+    assert.equal(info.status, 'active');
+    assert.equal(info.balance.raw, '3000000000');
+    assert.equal(info.lastTransactionLt, '100');
+    assert.equal(info.walletVersion, 'v4r2');
+  });
+
+  it('recognises older wallets too', async () => {
+    const provider = new FakeChainProvider();
+    const code = WalletContractV2R2.create({ workchain: 0, publicKey: Buffer.alloc(32) }).init.code;
+    provider.setAccount(owner, { codeHash: code.hash().toString('hex').toUpperCase(), code: code.toBoc().toString('base64') });
+    assert.equal((await getAccountStateInfo(provider, owner)).walletVersion, 'v2r2');
+  });
+
+  it('reports other contracts without a wallet version', async () => {
+    const provider = new FakeChainProvider();
+    const code = beginCell().storeUint(1, 8).endCell();
+    provider.setAccount(owner, { codeHash: code.hash().toString('hex'), code: code.toBoc().toString('base64') });
+    assert.equal((await getAccountStateInfo(provider, owner)).walletVersion, null);
+  });
+
+  it('reports an account that was never deployed', async () => {
+    const info = await getAccountStateInfo(new FakeChainProvider(), owner);
+    assert.equal(info.status, 'nonexist');
+    assert.equal(info.balance.raw, '0');
+    assert.equal(info.walletVersion, null);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { beginCell } from '@ton/core';
+import { CachedChainProvider, ChainProviderError, ToncenterProvider } from '../src/chain-provider.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const TTL_MS = 10000;
+const account = testAddress(1);
+
+describe('CachedChainProvider', () => {
+  let provider: FakeChainProvider;
+  let cached: CachedChainProvider;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    provider = new FakeChainProvider();
+    provider.setAccount(account, { balance: '1000' });
+    cached = new CachedChainProvider(provider, TTL_MS);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('serves repeated reads from the cache until the TTL passes', async () => {
+    assert.equal((await cached.getAccountState(account.toString())).balance, '1000');
+    provider.setAccount(account, { balance: '2000' });
+
+    mock.timers.tick(TTL_MS - 1);
+    assert.equal((await cached.getAccountState(account.toString())).balance, '1000');
+    assert.equal(provider.callCount('getAccountState'), 1);
+
+    mock.timers.tick(1);
+    assert.equal((await cached.getAccountState(account.toString())).balance, '2000');
+    assert.equal(provider.callCount('getAccountState'), 2);
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    await Promise.all([cached.getAccountState(account.toString()), cached.getAccountState(account.toString())]);
+    assert.equal(provider.callCount('getAccountState'), 1);
+  });
+
+  it('keys list reads by their paging options', async () => {
+    await cached.getJettonWallets(account.toRawString(), { limit: 10 });
+    await cached.getJettonWallets(account.toRawString(), { limit: 10 });
+    await cached.getJettonWallets(account.toRawString(), { limit: 20 });
+    assert.equal(provider.callCount('getJettonWallets'), 2);
+  });
+
+  it('does not cache failures', async () => {
+    provider.failNext = new Error('rate limited');
+    await assert.rejects(cached.getAccountState(account.toString()), /rate limited/);
+
+    assert.equal((await cached.getAccountState(account.toString())).balance, '1000');
+    assert.equal(provider.callCount('getAccountState'), 2);
+  });
+
+  it('does not cache get-methods', async () => {
+    provider.setGetMethod(account, 'seqno', [{ type: 'int', value: 7n }]);
+    await cached.runGetMethod(account.toString(), 'seqno');
+    await cached.runGetMethod(account.toString(), 'seqno');
+    assert.equal(provider.callCount('runGetMethod'), 2);
+  });
+
+  it('passes every read through when the TTL is 0', async () => {
+    const uncached = new CachedChainProvider(provider, 0);
+    await uncached.getAccountState(account.toString());
+    await uncached.getAccountState(account.toString());
+    assert.equal(provider.callCount('getAccountState'), 2);
+  });
+});
+
+describe('ToncenterProvider', () => {
+  const toncenter = new ToncenterProvider('https://toncenter.test/api/v3/', 'secret');
+  let requests: { url: string; init?: RequestInit }[];
+
+  function respond(body: unknown, status = 200): void {
+    requests = [];
+    mock.method(globalThis, 'fetch', async (url: string, init?: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(JSON.stringify(body), { status, statusText: status === 200 ? 'OK' : 'Error' });
+    });
+  }
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('maps account state and sends the API key with a timeout', async () => {
+    const code = beginCell().storeUint(1, 8).endCell();
+    respond({ status: 'active', balance: '5000', code: code.toBoc().toString('base64'), last_transaction_lt: 42, frozen_hash: null });
+
+    const state = await toncenter.getAccountState(account.toString());
+    assert.equal(state.status, 'active');
+    assert.equal(state.balance, '5000');
+    assert.equal(state.lastTransactionLt, '42');
+    assert.equal(state.codeHash, code.hash().toString('hex'));
+    assert.match(requests[0].url, /^https:\/\/toncenter\.test\/api\/v3\/addressInformation\?/);
+    assert.deepEqual(requests[0].init?.headers, { accept: 'application/json', 'X-API-Key': 'secret' });
+    assert.ok(requests[0].init?.signal instanceof AbortSignal);
+  });
+
+  it('reads get-method stacks, including nested tuples', async () => {
+    respond({
+      exit_code: 0,
+      stack: [
+        { type: 'num', value: '-0x10' },
+        { type: 'tuple', value: [{ type: 'null' }, { type: 'cell', value: beginCell().endCell().toBoc().toString('base64') }] },
+      ],
+    });
+
+    const stack = await toncenter.runGetMethod(account.toString(), 'get_data', [{ type: 'int', value: 255n }]);
+    assert.equal(stack.readBigNumber(), -16n);
+    assert.equal(stack.readTuple().remaining, 2);
+    assert.deepEqual(JSON.parse(String(requests[0].init?.body)).stack, [{ type: 'num', value: '0xff' }]);
+  });
+
+  it('reports get-method exit codes', async () => {
+    respond({ exit_code: 11, stack: [] });
+    await assert.rejects(
+      toncenter.runGetMethod(account.toString(), 'seqno'),
+      (error) => error instanceof ChainProviderError && error.exitCode === 11
+    );
+  });
+
+  it('rejects malformed responses', async () => {
+    respond({ transactions: [{ hash: 'abc', lt: '1', account: account.toRawString() }] });
+    await assert.rejects(toncenter.getTransactions(account.toString()), /Unexpected TON API response from \/transactions: transactions\.0\.now: Required/);
+
+    respond({ exit_code: 0, stack: [{ type: 'cont', value: '' }] });
+    await assert.rejects(toncenter.runGetMethod(account.toString(), 'seqno'), /stack\.0\.type: Invalid discriminator value/);
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    respond({ error: 'rate limit' }, 429);
+    await assert.rejects(
+      toncenter.getJettonWallets(account.toString()),
+      (error) => error instanceof ChainProviderError && error.status === 429
+    );
+  });
+
+  it('reports timeouts', async () => {
+    mock.method(globalThis, 'fetch', async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+    await assert.rejects(toncenter.getNftItems(account.toString()), /\/nft\/items timed out after 15 seconds/);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { keyPairFromSeed } from '@ton/crypto';
+import { WalletContractV4 } from '@ton/ton';
+import type { SendTransactionRequest } from '@tonconnect/sdk';
+import { emulateTransaction } from '../src/emulation.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+const wallet = WalletContractV4.create({ workchain: 0, publicKey: keyPair.publicKey });
+
+// Non-bounceable, so a transfer to an account that does not exist yet just credits it
+const recipient = testAddress(2).toString({ bounceable: false });
+
+function request(count: number, amount = '1000000000'): SendTransactionRequest {
+  return {
+    validUntil: Math.floor(Date.now() / 1000) + 300,
+    messages: Array.from({ length: count }, () => ({ address: recipient, amount })),
+  };
+}
+
+/**
+ * Deployed v4r2 wallet whose key is only known through its get_public_key get-method
+ */
+function providerWithWallet(balance: string): FakeChainProvider {
+  const provider = new FakeChainProvider();
+  provider.setAccount(wallet.address, {
+    balance,
+    codeHash: wallet.init.code.hash().toString('hex'),
+    code: wallet.init.code.toBoc().toString('base64'),
+    data: wallet.init.data.toBoc().toString('base64'),
+  });
+  provider.setGetMethod(wallet.address, 'seqno', [{ type: 'int', value: 0n }]);
+  provider.setGetMethod(wallet.address, 'get_public_key', [{ type: 'int', value: BigInt('0x' + keyPair.publicKey.toString('hex')) }]);
+  return provider;
+}
+
+describe('emulateTransaction', () => {
+  it("runs a standard wallet's external message and everything it sends", async () => {
+    const provider = providerWithWallet('5000000000');
+    const result = await emulateTransaction(provider, request(1), { sender: wallet.address });
+
+    assert.deepEqual(result.warnings, []);
+    assert.equal(result.success, true);
+    assert.equal(result.walletVersion, 'v4r2');
+    assert.equal(result.outMessages.length, 1);
+    assert.equal(result.outMessages[0].amount.raw, '1000000000');
+    assert.deepEqual(result.transactions.map((tx) => tx.account), [wallet.address.toString(), testAddress(2).toString()]);
+    assert.ok(BigInt(result.totalFees.raw) > 0n);
+
+    const senderChange = result.balanceChanges.find((change) => change.address === wallet.address.toString());
+    // The wallet pays the amount plus its own fees
+    assert.ok(senderChange && BigInt(senderChange.change.raw) < -1_000_000_000n);
+    assert.equal(provider.callCount('runGetMethod'), 2);
+  });
+
+  it('reports messages the wallet cannot afford', async () => {
+    const result = await emulateTransaction(providerWithWallet('1500000000'), request(2), { sender: wallet.address });
+
+    assert.equal(result.success, false);
+    assert.equal(result.outMessages.length, 1);
+    assert.ok(result.warnings.includes('Only 1 of 2 messages would be sent; the wallet balance is probably insufficient.'));
+  });
+
+  it('emulates the messages directly for a sender that is not a standard wallet', async () => {
+    const sender = testAddress(1);
+    const result = await emulateTransaction(new FakeChainProvider(), request(2), { sender });
+
+    assert.equal(result.walletVersion, null);
+    assert.equal(result.success, true);
+    assert.equal(result.outMessages.length, 2);
+    assert.equal(result.transactions.length, 2);
+    assert.ok(result.transactions.every((tx) => tx.account === testAddress(2).toString() && tx.computeSkipped === 'no-state'));
+    assert.match(result.warnings[0], /not a standard wallet/);
+  });
+
+  it('stops after the maximum number of transactions', async () => {
+    const result = await emulateTransaction(new FakeChainProvider(), request(70, '1'), { sender: testAddress(1) });
+
+    assert.equal(result.transactions.length, 64);
+    assert.ok(result.warnings.includes('Emulation stopped after 64 transactions; the message chain may continue.'));
+  });
+});
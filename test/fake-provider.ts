@@ -0,0 +1,129 @@
+import { createHash } from 'node:crypto';
+import { Address, beginCell, Cell, Dictionary, TupleReader, type TupleItem } from '@ton/core';
+import {
+  ChainProviderError,
+  type ChainAccountState,
+  type ChainJettonWallet,
+  type ChainNftItem,
+  type ChainProvider,
+  type ChainTransaction,
+} from '../src/chain-provider.js';
+import type { TonNetwork } from '../src/network.js';
+
+/**
+ * In-memory ChainProvider for tests. Accounts and get-method results are keyed
+ * by raw address; every call is counted so tests can assert on cache hits.
+ */
+export class FakeChainProvider implements ChainProvider {
+  readonly calls: Map<string, number> = new Map();
+  readonly accounts: Map<string, ChainAccountState> = new Map();
+  readonly jettonWallets: Map<string, ChainJettonWallet[]> = new Map();
+  readonly nftItems: Map<string, ChainNftItem[]> = new Map();
+  readonly transactions: Map<string, ChainTransaction[]> = new Map();
+  private readonly getMethods: Map<string, (stack: TupleItem[]) => TupleItem[]> = new Map();
+  /** Thrown by the next call, then cleared */
+  failNext: Error | null = null;
+
+  constructor(readonly network: TonNetwork = 'mainnet') {}
+
+  setAccount(address: Address, state: Partial<ChainAccountState> = {}): void {
+    this.accounts.set(address.toRawString(), {
+      status: 'active',
+      balance: '0',
+      lastTransactionLt: null,
+      lastTransactionHash: null,
+      codeHash: null,
+      code: null,
+      data: null,
+      frozenHash: null,
+      ...state,
+    });
+  }
+
+  setGetMethod(address: Address, method: string, result: TupleItem[] | ((stack: TupleItem[]) => TupleItem[])): void {
+    this.getMethods.set(`${address.toRawString()}:${method}`, typeof result === 'function' ? result : () => result);
+  }
+
+  callCount(method: string): number {
+    return this.calls.get(method) ?? 0;
+  }
+
+  async getTransactionsByMessage(messageHash: string, direction: 'in' | 'out'): Promise<ChainTransaction[]> {
+    this.enter('getTransactionsByMessage');
+    return [...this.transactions.values()]
+      .flat()
+      .filter((transaction) =>
+        direction === 'in'
+          ? transaction.inMessage?.hash === messageHash
+          : transaction.outMessages.some((message) => message.hash === messageHash)
+      );
+  }
+
+  async getTransactions(account: string): Promise<ChainTransaction[]> {
+    this.enter('getTransactions');
+    return this.transactions.get(Address.parse(account).toRawString()) ?? [];
+  }
+
+  async runGetMethod(address: string, method: string, stack: TupleItem[] = []): Promise<TupleReader> {
+    this.enter('runGetMethod');
+    const handler = this.getMethods.get(`${Address.parse(address).toRawString()}:${method}`);
+    if (!handler) {
+      throw new ChainProviderError(`Get-method ${method} on ${address} failed with exit code 11`, undefined, 11);
+    }
+    return new TupleReader(handler(stack));
+  }
+
+  async getAccountState(address: string): Promise<ChainAccountState> {
+    this.enter('getAccountState');
+    return this.accounts.get(Address.parse(address).toRawString()) ?? { ...NONEXIST_ACCOUNT };
+  }
+
+  async getNftItems(owner: string): Promise<ChainNftItem[]> {
+    this.enter('getNftItems');
+    return this.nftItems.get(Address.parse(owner).toRawString()) ?? [];
+  }
+
+  async getJettonWallets(owner: string): Promise<ChainJettonWallet[]> {
+    this.enter('getJettonWallets');
+    return this.jettonWallets.get(Address.parse(owner).toRawString()) ?? [];
+  }
+
+  private enter(method: string): void {
+    this.calls.set(method, this.callCount(method) + 1);
+    const failure = this.failNext;
+    if (failure) {
+      this.failNext = null;
+      throw failure;
+    }
+  }
+}
+
+const NONEXIST_ACCOUNT: ChainAccountState = {
+  status: 'nonexist',
+  balance: '0',
+  lastTransactionLt: null,
+  lastTransactionHash: null,
+  codeHash: null,
+  code: null,
+  data: null,
+  frozenHash: null,
+};
+
+/**
+ * Deterministic test address in workchain 0
+ */
+export function testAddress(seed: number): Address {
+  return new Address(0, Buffer.alloc(32, seed));
+}
+
+/**
+ * On-chain TEP-64 content cell with snake-encoded values
+ */
+export function onchainContent(values: Record<string, string>): Cell {
+  const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+  for (const [key, value] of Object.entries(values)) {
+    const hash = BigInt('0x' + createHash('sha256').update(key).digest('hex'));
+    dict.set(hash, beginCell().storeUint(0, 8).storeStringTail(value).endCell());
+  }
+  return beginCell().storeUint(0, 8).storeDict(dict).endCell();
+}
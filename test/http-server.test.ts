@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterEach, describe, it, mock } from 'node:test';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { MCP_HTTP_PATH, startHttpServer, type HttpServerOptions } from '../src/http-server.js';
+
+const TOKEN = 'test-token';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('startHttpServer sessions', () => {
+  let server: Server | null = null;
+  let closed: string[];
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = null;
+  });
+
+  async function start(options: Partial<HttpServerOptions> = {}): Promise<string> {
+    closed = [];
+    server = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      token: TOKEN,
+      createSession: (sessionId) => ({
+        server: new McpServer({ name: 'test', version: '1.0.0' }),
+        close: async () => {
+          closed.push(sessionId);
+        },
+      }),
+      ...options,
+    });
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}${MCP_HTTP_PATH}`;
+  }
+
+  async function post(url: string, body: unknown, sessionId?: string): Promise<Response> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${TOKEN}`,
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        ...(sessionId && { 'mcp-session-id': sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+    await response.text();
+    return response;
+  }
+
+  async function openSession(url: string): Promise<string> {
+    const response = await post(url, initialize);
+    assert.equal(response.status, 200);
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  it('refuses sessions beyond the limit', async () => {
+    const url = await start({ maxSessions: 2 });
+    await openSession(url);
+    await openSession(url);
+
+    const refused = await post(url, initialize);
+    assert.equal(refused.status, 503);
+    assert.deepEqual(closed, []);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const url = await start({ sessionIdleTimeoutMs: 50 });
+    const sessionId = await openSession(url);
+
+    await sleep(200);
+    assert.deepEqual(closed, [sessionId]);
+    assert.equal((await post(url, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId)).status, 404);
+  });
+
+  it('keeps sessions that are in use', async () => {
+    const url = await start({ sessionIdleTimeoutMs: 150 });
+    const sessionId = await openSession(url);
+
+    for (let i = 0; i < 4; i++) {
+      await sleep(60);
+      await post(url, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    }
+    assert.deepEqual(closed, []);
+  });
+
+  it('makes room for a new session by closing idle ones', async () => {
+    const url = await start({ maxSessions: 1, sessionIdleTimeoutMs: 60_000 });
+    const idle = await openSession(url);
+    assert.equal((await post(url, initialize)).status, 503);
+
+    // Past the idle timeout, before the next periodic sweep
+    mock.timers.enable({ apis: ['Date'], now: Date.now() + 61_000 });
+    try {
+      await openSession(url);
+    } finally {
+      mock.timers.reset();
+    }
+    assert.deepEqual(closed, [idle]);
+  });
+});
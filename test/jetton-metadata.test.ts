@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import dns from 'node:dns/promises';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { beginCell, type Address, type Cell } from '@ton/core';
+import { buildOffchainContent, getJettonMetadata } from '../src/jetton-metadata.js';
+import { FakeChainProvider, onchainContent, testAddress } from './fake-provider.js';
+
+function setJettonMaster(provider: FakeChainProvider, master: Address, content: Cell): void {
+  provider.setGetMethod(master, 'get_jetton_data', [
+    { type: 'int', value: 1_000_000n },
+    { type: 'int', value: -1n },
+    { type: 'slice', cell: beginCell().storeAddress(null).endCell() },
+    { type: 'cell', cell: content },
+    { type: 'cell', cell: beginCell().endCell() },
+  ]);
+}
+
+/**
+ * Answer DNS lookups with the given address, so no test depends on the network
+ */
+function resolveTo(address: string) {
+  return mock.method(dns, 'lookup', (async () => [{ address, family: address.includes(':') ? 6 : 4 }]) as unknown as typeof dns.lookup);
+}
+
+describe('getJettonMetadata', () => {
+  let provider: FakeChainProvider;
+
+  beforeEach(() => {
+    provider = new FakeChainProvider();
+    mock.method(console, 'error', () => {});
+    resolveTo('93.184.215.14');
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('reads off-chain metadata from its URI', async () => {
+    const master = testAddress(20);
+    setJettonMaster(provider, master, buildOffchainContent('https://jetton.test/meta.json'));
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ symbol: 'OFF', decimals: '6' })));
+
+    const metadata = await getJettonMetadata(provider, master);
+    assert.equal(metadata.symbol, 'OFF');
+    assert.equal(metadata.decimals, 6);
+    assert.equal(metadata.warning, undefined);
+  });
+
+  it('falls back to the default decimals with a warning when the URI cannot be fetched', async () => {
+    const master = testAddress(21);
+    setJettonMaster(provider, master, buildOffchainContent('https://jetton.test/down.json'));
+    mock.method(globalThis, 'fetch', async () => new Response('', { status: 503, statusText: 'Service Unavailable' }));
+
+    const metadata = await getJettonMetadata(provider, master);
+    assert.equal(metadata.symbol, null);
+    assert.equal(metadata.decimals, 9);
+    assert.match(metadata.warning ?? '', /503 Service Unavailable.*default of 9 decimals/);
+  });
+
+  it('keeps on-chain values of semi-chain content when the URI cannot be fetched', async () => {
+    const master = testAddress(22);
+    setJettonMaster(provider, master, onchainContent({ uri: 'https://jetton.test/meta.json', symbol: 'SEMI', decimals: '6' }));
+    mock.method(globalThis, 'fetch', async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+
+    const metadata = await getJettonMetadata(provider, master);
+    assert.equal(metadata.symbol, 'SEMI');
+    assert.equal(metadata.decimals, 6);
+    assert.match(metadata.warning ?? '', /using the on-chain values$/);
+  });
+
+  it('does not cache a fallback, so the next read retries the URI', async () => {
+    const master = testAddress(23);
+    setJettonMaster(provider, master, buildOffchainContent('https://jetton.test/flaky.json'));
+    mock.method(globalThis, 'fetch', async () => new Response('', { status: 500 }));
+    assert.ok((await getJettonMetadata(provider, master)).warning);
+
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ symbol: 'BACK', decimals: 2 })));
+    const metadata = await getJettonMetadata(provider, master);
+    assert.equal(metadata.decimals, 2);
+    assert.equal(metadata.warning, undefined);
+  });
+});
+
+describe('off-chain metadata fetch', () => {
+  let provider: FakeChainProvider;
+  let requested: string[];
+
+  beforeEach(() => {
+    provider = new FakeChainProvider();
+    requested = [];
+    mock.method(console, 'error', () => {});
+    resolveTo('93.184.215.14');
+    mock.method(globalThis, 'fetch', async (url: string) => {
+      requested.push(url);
+      return new Response(JSON.stringify({ symbol: 'OK', decimals: 6 }));
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  let seed = 30;
+  async function fetchWarning(uri: string): Promise<string | undefined> {
+    const master = testAddress(seed++);
+    setJettonMaster(provider, master, buildOffchainContent(uri));
+    return (await getJettonMetadata(provider, master)).warning;
+  }
+
+  it('fetches ipfs links through the gateway', async () => {
+    assert.equal(await fetchWarning('ipfs://QmHash/meta.json'), undefined);
+    assert.deepEqual(requested, ['https://ipfs.io/ipfs/QmHash/meta.json']);
+  });
+
+  it('refuses other schemes', async () => {
+    assert.match((await fetchWarning('http://jetton.test/meta.json')) ?? '', /must use https or ipfs, got http/);
+    assert.match((await fetchWarning('file:///etc/passwd')) ?? '', /must use https or ipfs, got file/);
+    assert.deepEqual(requested, []);
+  });
+
+  it('refuses loopback, private and link-local hosts', async () => {
+    for (const uri of [
+      'https://localhost/meta.json',
+      'https://127.0.0.1/meta.json',
+      'https://0x7f.1/meta.json',
+      'https://10.1.2.3/meta.json',
+      'https://192.168.0.10/meta.json',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/meta.json',
+      'https://[fd00::1]/meta.json',
+      'https://[::ffff:127.0.0.1]/meta.json',
+    ]) {
+      assert.match((await fetchWarning(uri)) ?? '', /host is not public/, uri);
+    }
+    assert.deepEqual(requested, []);
+  });
+
+  it('refuses names that resolve to a private address', async () => {
+    resolveTo('172.16.0.5');
+    assert.match((await fetchWarning('https://internal.jetton.test/meta.json')) ?? '', /host is not public: internal\.jetton\.test/);
+    assert.deepEqual(requested, []);
+  });
+
+  it('checks every redirect hop', async () => {
+    mock.method(globalThis, 'fetch', async (url: string) => {
+      requested.push(url);
+      return new Response(null, { status: 302, headers: { location: 'https://127.0.0.1/meta.json' } });
+    });
+    assert.match((await fetchWarning('https://jetton.test/meta.json')) ?? '', /host is not public: 127\.0\.0\.1/);
+    assert.deepEqual(requested, ['https://jetton.test/meta.json']);
+  });
+
+  it('refuses oversized responses', async () => {
+    const padding = 'x'.repeat(300 * 1024);
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ symbol: 'BIG', description: padding })));
+    assert.match((await fetchWarning('https://jetton.test/big.json')) ?? '', /larger than 262144 bytes/);
+
+    mock.method(globalThis, 'fetch', async () => new Response('{}', { headers: { 'content-length': String(10 * 1024 * 1024) } }));
+    assert.match((await fetchWarning('https://jetton.test/declared.json')) ?? '', /larger than 262144 bytes/);
+  });
+});
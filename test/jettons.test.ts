@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Address, beginCell, TupleReader } from '@ton/core';
+import { ChainProviderError } from '../src/chain-provider.js';
+import { buildJettonTransferBody, getJettonBalance, getJettonWalletAddress, KNOWN_JETTONS, resolveJettonMaster } from '../src/jettons.js';
+import { decodeCell } from '../src/payload-decoder.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const owner = testAddress(1);
+const master = testAddress(2);
+
+describe('resolveJettonMaster', () => {
+  it('resolves known symbols on mainnet only', () => {
+    assert.ok(resolveJettonMaster('usdt').equals(Address.parse(KNOWN_JETTONS.USDT)));
+    assert.throws(() => resolveJettonMaster('USDT', 'testnet'), /mainnet master/);
+  });
+
+  it('takes master addresses and rejects anything else', () => {
+    assert.ok(resolveJettonMaster(master.toString()).equals(master));
+    assert.throws(() => resolveJettonMaster('NOPE'), /Unknown jetton "NOPE"/);
+  });
+});
+
+describe('getJettonWalletAddress', () => {
+  it("asks the master for the owner's jetton wallet", async () => {
+    const provider = new FakeChainProvider();
+    const wallets = new Map([[owner.toRawString(), testAddress(3)]]);
+    provider.setGetMethod(master, 'get_wallet_address', ([item]) => {
+      assert.equal(item.type, 'slice');
+      const requested = new TupleReader([item]).readAddress();
+      return [{ type: 'slice', cell: beginCell().storeAddress(wallets.get(requested.toRawString()) ?? null).endCell() }];
+    });
+
+    assert.ok((await getJettonWalletAddress(provider, master, owner)).equals(testAddress(3)));
+  });
+});
+
+describe('getJettonBalance', () => {
+  it('reads the balance of a deployed jetton wallet', async () => {
+    const provider = new FakeChainProvider();
+    provider.setGetMethod(testAddress(3), 'get_wallet_data', [{ type: 'int', value: 1234n }]);
+    assert.equal(await getJettonBalance(provider, testAddress(3)), 1234n);
+  });
+
+  it('treats an undeployed jetton wallet as empty', async () => {
+    assert.equal(await getJettonBalance(new FakeChainProvider(), testAddress(3)), 0n);
+  });
+
+  it('passes API failures through', async () => {
+    const provider = new FakeChainProvider();
+    provider.failNext = new ChainProviderError('toncenter request failed: 500', 500);
+    await assert.rejects(getJettonBalance(provider, testAddress(3)), ChainProviderError);
+  });
+});
+
+describe('buildJettonTransferBody', () => {
+  it('decodes back to the transfer it was built from', () => {
+    const body = buildJettonTransferBody({
+      queryId: 7n,
+      amount: 2_500_000n,
+      destination: testAddress(4),
+      responseDestination: owner,
+      forwardTonAmount: 1n,
+      forwardPayload: beginCell().storeUint(0, 32).storeStringTail('invoice 42').endCell(),
+    });
+
+    const decoded = decodeCell(body);
+    assert.equal(decoded.type, 'jetton_transfer');
+    assert.equal(decoded.queryId, '7');
+    assert.equal(decoded.jettonAmount, '2500000');
+    assert.equal(decoded.destination, testAddress(4).toString());
+    assert.equal(decoded.responseDestination, owner.toString());
+    assert.deepEqual(decoded.forwardPayload, { type: 'text_comment', comment: 'invoice 42' });
+  });
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseNetworkAddress } from '../src/network.js';
+import { testAddress } from './fake-provider.js';
+
+const address = testAddress(1);
+const mainnetForm = address.toString({ bounceable: true, testOnly: false });
+const testnetForm = address.toString({ bounceable: true, testOnly: true });
+
+describe('parseNetworkAddress', () => {
+  it("accepts addresses flagged for the server's network", () => {
+    assert.ok(parseNetworkAddress(mainnetForm, 'mainnet').equals(address));
+    assert.ok(parseNetworkAddress(testnetForm, 'testnet').equals(address));
+  });
+
+  it('rejects a testnet-only address on mainnet and points to the mainnet form', () => {
+    assert.throws(
+      () => parseNetworkAddress(testnetForm, 'mainnet', 'recipient address'),
+      (error: Error) => error.message.includes('testnet-only') && error.message.includes(mainnetForm)
+    );
+  });
+
+  it('rejects a mainnet address on testnet and points to the testnet form', () => {
+    assert.throws(
+      () => parseNetworkAddress(mainnetForm, 'testnet', 'recipient address'),
+      (error: Error) => error.message.includes('mainnet address') && error.message.includes(testnetForm)
+    );
+  });
+
+  it('keeps the bounce flag in the suggested form', () => {
+    const nonBounceable = address.toString({ bounceable: false, testOnly: false });
+    assert.throws(() => parseNetworkAddress(nonBounceable, 'testnet'), new RegExp(address.toString({ bounceable: false, testOnly: true })));
+  });
+
+  it('accepts raw addresses on both networks', () => {
+    assert.ok(parseNetworkAddress(address.toRawString(), 'mainnet').equals(address));
+    assert.ok(parseNetworkAddress(address.toRawString(), 'testnet').equals(address));
+  });
+});
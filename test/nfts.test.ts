@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { beginCell, type Address, type Cell } from '@ton/core';
+import { decodeCell } from '../src/payload-decoder.js';
+import { buildNftTransferBody, getNftInfo } from '../src/nfts.js';
+import { FakeChainProvider, onchainContent, testAddress } from './fake-provider.js';
+
+const owner = testAddress(1);
+const item = testAddress(2);
+const collection = testAddress(3);
+
+function addressSlice(address: Address | null) {
+  return { type: 'slice' as const, cell: beginCell().storeAddress(address).endCell() };
+}
+
+function setItem(provider: FakeChainProvider, options: { initialized?: boolean; collection?: Address | null; content?: Cell }): void {
+  provider.setGetMethod(item, 'get_nft_data', [
+    { type: 'int', value: options.initialized === false ? 0n : -1n },
+    { type: 'int', value: 5n },
+    addressSlice(options.collection ?? null),
+    addressSlice(owner),
+    { type: 'cell', cell: options.content ?? beginCell().endCell() },
+  ]);
+}
+
+describe('getNftInfo', () => {
+  it('reads the owner and joins item content through the collection', async () => {
+    const provider = new FakeChainProvider();
+    setItem(provider, { collection });
+    provider.setGetMethod(collection, 'get_collection_data', [
+      { type: 'int', value: 10n },
+      { type: 'cell', cell: onchainContent({ name: 'Collection' }) },
+      addressSlice(testAddress(4)),
+    ]);
+    provider.setGetMethod(collection, 'get_nft_content', ([index]) => {
+      assert.deepEqual(index, { type: 'int', value: 5n });
+      return [{ type: 'cell', cell: onchainContent({ name: 'Item #5' }) }];
+    });
+
+    const info = await getNftInfo(provider, item);
+    assert.equal(info.owner, owner.toString());
+    assert.equal(info.index, '5');
+    assert.equal(info.metadata?.name, 'Item #5');
+    assert.equal(info.collection?.address, collection.toString());
+    assert.equal(info.collection?.owner, testAddress(4).toString());
+    assert.equal(info.collection?.nextItemIndex, '10');
+    assert.equal(info.collection?.metadata?.name, 'Collection');
+    assert.equal(info.metadataErrors, undefined);
+  });
+
+  it('reads the content of an item without a collection directly', async () => {
+    const provider = new FakeChainProvider();
+    setItem(provider, { content: onchainContent({ name: 'Standalone' }) });
+
+    const info = await getNftInfo(provider, item, { testOnly: true });
+    assert.equal(info.address, item.toString({ testOnly: true }));
+    assert.equal(info.metadata?.name, 'Standalone');
+    assert.equal(info.collection, null);
+  });
+
+  it('skips the metadata of an item that is not initialized', async () => {
+    const provider = new FakeChainProvider();
+    setItem(provider, { initialized: false, content: onchainContent({ name: 'Not yet' }) });
+
+    const info = await getNftInfo(provider, item);
+    assert.equal(info.initialized, false);
+    assert.equal(info.metadata, null);
+  });
+
+  it('reports broken metadata next to the on-chain data', async () => {
+    const provider = new FakeChainProvider();
+    setItem(provider, { content: beginCell().storeUint(0x7f, 8).endCell() });
+
+    const info = await getNftInfo(provider, item);
+    assert.equal(info.owner, owner.toString());
+    assert.equal(info.metadata, null);
+    assert.deepEqual(info.metadataErrors, ['item: Unknown TEP-64 content prefix: 0x7f']);
+  });
+
+  it('fails for an address that is not an NFT item', async () => {
+    await assert.rejects(getNftInfo(new FakeChainProvider(), item), /get_nft_data .* exit code 11/);
+  });
+});
+
+describe('buildNftTransferBody', () => {
+  it('decodes back to the transfer it was built from', () => {
+    const decoded = decodeCell(buildNftTransferBody({ newOwner: testAddress(5), responseDestination: owner, forwardAmount: 1n }));
+    assert.equal(decoded.type, 'nft_transfer');
+    assert.equal(decoded.newOwner, testAddress(5).toString());
+    assert.equal(decoded.responseDestination, owner.toString());
+    assert.equal(decoded.forwardAmount.raw, '1');
+    assert.equal(decoded.forwardPayload, null);
+  });
+});
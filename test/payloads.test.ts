@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { createDecipheriv, createHash, createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { keyPairFromSeed } from '@ton/crypto';
+import type { Address, Cell } from '@ton/core';
+import nacl from 'tweetnacl';
+import { buildEncryptedComment, buildTextComment, ENCRYPTED_COMMENT_OP, loadBufferTail } from '../src/payloads.js';
+import { testAddress } from './fake-provider.js';
+
+const P = 2n ** 255n - 19n;
+
+function toBigIntLE(bytes: Uint8Array): bigint {
+  return BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'));
+}
+
+function fromBigIntLE(value: bigint): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, '0'), 'hex').reverse());
+}
+
+function power(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  for (let b = base % P, e = exponent; e > 0n; e >>= 1n, b = (b * b) % P) {
+    if (e & 1n) {
+      result = (result * b) % P;
+    }
+  }
+  return result;
+}
+
+/**
+ * Montgomery u of an Ed25519 public key, as in RFC 7748: u = (1 + y) / (1 - y)
+ */
+function montgomeryU(publicKey: Buffer): Uint8Array {
+  const y = toBigIntLE(Uint8Array.from(publicKey, (byte, i) => (i === 31 ? byte & 0x7f : byte)));
+  return fromBigIntLE(((1n + y) * power((P + 1n - y) % P, P - 2n)) % P);
+}
+
+/**
+ * X25519 secret scalar of an Ed25519 key pair created from seed
+ */
+function x25519Secret(seed: Buffer): Uint8Array {
+  return createHash('sha512').update(seed).digest().subarray(0, 32);
+}
+
+/**
+ * Decrypt a comment the way the recipient's wallet does
+ */
+function decryptComment(body: Cell, recipientSeed: Buffer, sender: Address): string {
+  const slice = body.beginParse();
+  assert.equal(slice.loadUint(32), ENCRYPTED_COMMENT_OP);
+  const data = loadBufferTail(slice);
+
+  const recipient = keyPairFromSeed(recipientSeed);
+  const ephemeralPublicKey = Buffer.from(data.subarray(0, 32).map((byte, i) => byte ^ recipient.publicKey[i]));
+  const msgKey = data.subarray(32, 48);
+  const sharedKey = Buffer.from(nacl.scalarMult(x25519Secret(recipientSeed), montgomeryU(ephemeralPublicKey)));
+
+  const x = createHmac('sha512', sharedKey).update(msgKey).digest();
+  const decipher = createDecipheriv('aes-256-cbc', x.subarray(0, 32), x.subarray(32, 48));
+  decipher.setAutoPadding(false);
+  const combined = Buffer.concat([decipher.update(data.subarray(48)), decipher.final()]);
+
+  const salt = sender.toString({ bounceable: true, urlSafe: true });
+  assert.deepEqual(createHmac('sha512', salt).update(combined).digest().subarray(0, 16), msgKey, 'message key');
+  return combined.subarray(combined[0]).toString('utf-8');
+}
+
+describe('buildTextComment', () => {
+  it('stores op 0 and the text', () => {
+    const slice = buildTextComment('hello').beginParse();
+    assert.equal(slice.loadUint(32), 0);
+    assert.equal(slice.loadStringTail(), 'hello');
+  });
+});
+
+describe('buildEncryptedComment', () => {
+  const recipientSeed = Buffer.alloc(32, 7);
+  const recipient = keyPairFromSeed(recipientSeed);
+  const sender = testAddress(1);
+
+  it('uses the RFC 7748 key conversion this test decrypts with', () => {
+    assert.deepEqual(montgomeryU(recipient.publicKey), nacl.scalarMult.base(x25519Secret(recipientSeed)));
+  });
+
+  it('decrypts back to the comment with the recipient key', () => {
+    for (const text of ['', 'hi', 'exactly sixteen!', 'Привет, TON 👋', 'x'.repeat(500)]) {
+      assert.equal(decryptComment(buildEncryptedComment(text, recipient.publicKey, sender), recipientSeed, sender), text);
+    }
+  });
+
+  it('uses a fresh ephemeral key and padding for every message', () => {
+    const first = buildEncryptedComment('same', recipient.publicKey, sender);
+    const second = buildEncryptedComment('same', recipient.publicKey, sender);
+    assert.notEqual(first.hash().toString('hex'), second.hash().toString('hex'));
+  });
+
+  it('cannot be decrypted with another key', () => {
+    const body = buildEncryptedComment('secret', recipient.publicKey, sender);
+    assert.throws(() => decryptComment(body, Buffer.alloc(32, 8), sender));
+  });
+
+  it('rejects a public key of the wrong length', () => {
+    assert.throws(() => buildEncryptedComment('x', Buffer.alloc(31), sender), /must be 32 bytes/);
+  });
+});
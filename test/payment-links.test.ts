@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildPaymentLinks, parsePaymentLink } from '../src/payment-links.js';
+import { testAddress } from './fake-provider.js';
+
+describe('payment links', () => {
+  it('parse back on the network they were built for', () => {
+    const recipient = testAddress(2).toString({ bounceable: false, testOnly: true });
+    const links = buildPaymentLinks({ address: recipient, amount: 1000n, jetton: testAddress(3) }, 'testnet');
+
+    const request = parsePaymentLink(links.ton, 'testnet');
+    assert.equal(request.address, recipient);
+    assert.ok(request.jetton?.equals(testAddress(3)));
+    assert.throws(() => parsePaymentLink(links.ton, 'mainnet'), /testnet-only/);
+  });
+});
@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { beginCell, type Address } from '@ton/core';
+import type { SendTransactionRequest } from '@tonconnect/sdk';
+import { buildJettonTransferBody } from '../src/jettons.js';
+import { buildNftTransferBody } from '../src/nfts.js';
+import { PolicyViolationError, SpendingPolicy, type PolicyFile } from '../src/policy.js';
+import { FileStorage, MemoryStorage } from '../src/storage.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const sender = testAddress(1);
+const allowed = testAddress(2);
+const stranger = testAddress(3);
+const jettonWallet = testAddress(4);
+const master = testAddress(5);
+const nftItem = testAddress(6);
+
+function transaction(messages: { to: Address; amount: string; payload?: string }[]): SendTransactionRequest {
+  return {
+    validUntil: Math.floor(Date.now() / 1000) + 300,
+    messages: messages.map((message) => ({ address: message.to.toString(), amount: message.amount, payload: message.payload })),
+  };
+}
+
+function jettonTransferTo(recipient: Address): string {
+  return buildJettonTransferBody({ amount: 1000n, destination: recipient, responseDestination: sender, forwardTonAmount: 1n })
+    .toBoc()
+    .toString('base64');
+}
+
+function addressSlice(address: Address) {
+  return { type: 'slice' as const, cell: beginCell().storeAddress(address).endCell() };
+}
+
+function setJettonWallet(provider: FakeChainProvider, wallet: Address, owner: Address): void {
+  provider.setGetMethod(wallet, 'get_wallet_data', [
+    { type: 'int', value: 10_000n },
+    addressSlice(owner),
+    addressSlice(master),
+    { type: 'cell', cell: beginCell().endCell() },
+  ]);
+}
+
+function setNftItem(provider: FakeChainProvider, item: Address, owner: Address): void {
+  provider.setGetMethod(item, 'get_nft_data', [
+    { type: 'int', value: -1n },
+    { type: 'int', value: 0n },
+    addressSlice(testAddress(7)),
+    addressSlice(owner),
+    { type: 'cell', cell: beginCell().endCell() },
+  ]);
+}
+
+function createPolicy(policy: PolicyFile, provider = new FakeChainProvider()): SpendingPolicy {
+  return new SpendingPolicy(policy, new MemoryStorage(), provider);
+}
+
+async function assertViolation(promise: Promise<unknown>, rule: string): Promise<void> {
+  await assert.rejects(promise, (error) => error instanceof PolicyViolationError && error.rule === rule);
+}
+
+describe('SpendingPolicy allowlist', () => {
+  const policy: PolicyFile = { allowed_addresses: [allowed.toString()] };
+
+  it('checks the message destination when the body only looks like a jetton transfer', async () => {
+    const provider = new FakeChainProvider();
+    const request = transaction([{ to: stranger, amount: '5000000000', payload: jettonTransferTo(allowed) }]);
+
+    await assertViolation(createPolicy(policy, provider).check(request, sender), 'allowed_addresses');
+  });
+
+  it('checks the message destination when the jetton wallet belongs to someone else', async () => {
+    const provider = new FakeChainProvider();
+    setJettonWallet(provider, jettonWallet, stranger);
+    const request = transaction([{ to: jettonWallet, amount: '50000000', payload: jettonTransferTo(allowed) }]);
+
+    await assertViolation(createPolicy(policy, provider).check(request, sender), 'allowed_addresses');
+  });
+
+  it('checks the jetton recipient when the message goes to the sender\'s jetton wallet', async () => {
+    const provider = new FakeChainProvider();
+    setJettonWallet(provider, jettonWallet, sender);
+
+    await createPolicy(policy, provider).check(transaction([{ to: jettonWallet, amount: '50000000', payload: jettonTransferTo(allowed) }]), sender);
+    await assertViolation(
+      createPolicy(policy, provider).check(transaction([{ to: jettonWallet, amount: '50000000', payload: jettonTransferTo(stranger) }]), sender),
+      'allowed_addresses'
+    );
+  });
+
+  it('checks the new NFT owner only for items the sender owns', async () => {
+    const provider = new FakeChainProvider();
+    const payload = buildNftTransferBody({ newOwner: allowed, responseDestination: sender, forwardAmount: 1n }).toBoc().toString('base64');
+    const request = transaction([{ to: nftItem, amount: '50000000', payload }]);
+
+    setNftItem(provider, nftItem, stranger);
+    await assertViolation(createPolicy(policy, provider).check(request, sender), 'allowed_addresses');
+
+    setNftItem(provider, nftItem, sender);
+    await createPolicy(policy, provider).check(request, sender);
+  });
+
+  it('denies a denylisted address found in the payload even when unverified', async () => {
+    const request = transaction([{ to: stranger, amount: '1', payload: jettonTransferTo(allowed) }]);
+    await assertViolation(createPolicy({ denied_addresses: [allowed.toString()] }).check(request, sender), 'denied_addresses');
+  });
+});
+
+describe('SpendingPolicy daily limit', () => {
+  const policy: PolicyFile = { daily_limit_ton: '10 TON' };
+  const sixTon = transaction([{ to: allowed, amount: '6000000000' }]);
+
+  it('counts reservations, so concurrent requests cannot exceed the limit together', async () => {
+    const spending = createPolicy(policy);
+    const results = await Promise.allSettled([spending.reserve(sixTon, sender), spending.reserve(sixTon, sender)]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+    const rejected = results.find((result) => result.status === 'rejected');
+    assert.ok(rejected && rejected.status === 'rejected' && rejected.reason instanceof PolicyViolationError);
+    assert.equal(rejected.reason.rule, 'daily_limit_ton');
+  });
+
+  it('frees a released reservation', async () => {
+    const spending = createPolicy(policy);
+    await spending.release(await spending.reserve(sixTon, sender));
+    await spending.reserve(sixTon, sender);
+  });
+
+  it('keeps a recorded reservation', async () => {
+    const spending = createPolicy(policy);
+    await spending.record(await spending.reserve(sixTon, sender));
+    await assertViolation(spending.check(sixTon, sender), 'daily_limit_ton');
+  });
+
+  it('does not count plain checks', async () => {
+    const spending = createPolicy(policy);
+    await spending.check(sixTon, sender);
+    await spending.reserve(sixTon, sender);
+  });
+
+  describe('shared between processes', () => {
+    let dir: string;
+    after(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('locks the ledger file, so servers sharing it cannot exceed the limit together', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'policy-'));
+      const config = { backend: 'file' as const, dir, key: 'test passphrase' };
+      // Two instances stand in for two server processes
+      const [first, second] = [1, 2].map(
+        () => new SpendingPolicy(policy, new FileStorage(config), new FakeChainProvider(), { lockPath: join(dir, 'policy-ledger.lock') })
+      );
+
+      const results = await Promise.allSettled([first.reserve(sixTon, sender), second.reserve(sixTon, sender)]);
+      assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+      await assertViolation(first.check(sixTon, sender), 'daily_limit_ton');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import jsQR from 'jsqr';
+import { PNG } from 'pngjs';
+import { renderQrPng, renderQrText } from '../src/qr.js';
+
+const links = [
+  'ton://transfer/EQBvW8Z5huBkMJYdnfAEM5JqTNkuWX3diqYENkWsIL0XggGG?amount=1500000000&text=invoice%2042',
+  'https://app.tonkeeper.com/ton-connect?v=2&id=4f6a1b2c3d4e5f60718293a4b5c6d7e8f9a0b1c2d3e4f5061728394a5b6c7d8e&r=%7B%22manifestUrl%22%3A%22https%3A%2F%2Fapp.palette.finance%2Ftonconnect-manifest.json%22%2C%22items%22%3A%5B%7B%22name%22%3A%22ton_addr%22%7D%5D%7D&ret=none',
+];
+
+const QUIET_ZONE = 4;
+const MODULE_PIXELS = 4;
+
+/**
+ * Draw the half-block text rendering back into pixels: each character is one
+ * module wide and two modules tall, with "█" dark on both halves
+ */
+function textToImage(text: string): { data: Uint8ClampedArray; width: number; height: number } {
+  const halves: Record<string, [boolean, boolean]> = { ' ': [false, false], '▀': [true, false], '▄': [false, true], '█': [true, true] };
+  const rows = text
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .flatMap((line) => {
+      const modules = [...line].map((char) => halves[char]);
+      assert.ok(modules.every(Boolean), `unexpected character in line "${line}"`);
+      return [modules.map(([top]) => top), modules.map(([, bottom]) => bottom)];
+    });
+
+  const size = rows[0].length + QUIET_ZONE * 2;
+  const width = size * MODULE_PIXELS;
+  const height = (rows.length + QUIET_ZONE * 2) * MODULE_PIXELS;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dark = rows[Math.floor(y / MODULE_PIXELS) - QUIET_ZONE]?.[Math.floor(x / MODULE_PIXELS) - QUIET_ZONE];
+      if (dark) {
+        data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+describe('QR codes', () => {
+  for (const link of links) {
+    it(`PNG decodes back to ${link.slice(0, 30)}...`, async () => {
+      const png = PNG.sync.read(Buffer.from(await renderQrPng(link), 'base64'));
+      const decoded = jsQR(new Uint8ClampedArray(png.data), png.width, png.height);
+      assert.equal(decoded?.data, link);
+    });
+
+    it(`text decodes back to ${link.slice(0, 30)}...`, async () => {
+      const { data, width, height } = textToImage(await renderQrText(link));
+      const decoded = jsQR(data, width, height);
+      assert.equal(decoded?.data, link);
+    });
+  }
+});
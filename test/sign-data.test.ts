@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { beginCell, storeStateInit, type Address } from '@ton/core';
+import { keyPairFromSeed, sign } from '@ton/crypto';
+import { WalletContractV4 } from '@ton/ton';
+import type { SignDataPayload } from '@tonconnect/sdk';
+import { computeSignDataHash, verifySignedData } from '../src/sign-data.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+const wallet = WalletContractV4.create({ workchain: 0, publicKey: keyPair.publicKey });
+const stateInit = beginCell().store(storeStateInit(wallet.init)).endCell().toBoc().toString('base64');
+
+const domain = 'example.com';
+const timestamp = 0x65000000;
+const text: SignDataPayload = { type: 'text', text: 'hello' };
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * Signed byte message for text and binary payloads, laid out field by field as in the TON Connect spec
+ */
+function specMessage(address: Address, prefix: 'txt' | 'bin', content: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from('ffff', 'hex'),
+    Buffer.from('ton-connect/sign-data/'),
+    Buffer.from('00000000', 'hex'), // workchain 0
+    address.hash,
+    Buffer.from('0000000b', 'hex'), // domain length 11
+    Buffer.from('example.com'),
+    Buffer.from('0000000065000000', 'hex'), // timestamp
+    Buffer.from(prefix),
+    Buffer.from(content.length.toString(16).padStart(8, '0'), 'hex'),
+    content,
+  ]);
+}
+
+function signedParams(payload: SignDataPayload, address: Address = wallet.address) {
+  const hash = computeSignDataHash(address, domain, timestamp, payload);
+  return {
+    signature: sign(hash, keyPair.secretKey).toString('base64'),
+    address: address.toString(),
+    timestamp,
+    domain,
+    payload,
+  };
+}
+
+describe('computeSignDataHash', () => {
+  it('hashes text payloads as the spec byte message', () => {
+    const expected = sha256(specMessage(wallet.address, 'txt', Buffer.from('hello')));
+    assert.deepEqual(computeSignDataHash(wallet.address, domain, timestamp, text), expected);
+  });
+
+  it('hashes binary payloads as the spec byte message', () => {
+    const bytes = Buffer.from([0, 1, 2, 0xff]);
+    const expected = sha256(specMessage(wallet.address, 'bin', bytes));
+    assert.deepEqual(computeSignDataHash(wallet.address, domain, timestamp, { type: 'binary', bytes: bytes.toString('base64') }), expected);
+  });
+
+  it('hashes cell payloads as the spec cell, with the CRC32 of the schema', () => {
+    const payload = beginCell().storeUint(42, 16).endCell();
+    // CRC32 check value of "123456789" is 0xcbf43926
+    const expected = beginCell()
+      .storeUint(0x75569022, 32)
+      .storeUint(0xcbf43926, 32)
+      .storeUint(timestamp, 64)
+      .storeAddress(wallet.address)
+      .storeRef(beginCell().storeBuffer(Buffer.from('com\0example\0')).endCell())
+      .storeRef(payload)
+      .endCell();
+
+    const hash = computeSignDataHash(wallet.address, domain, timestamp, { type: 'cell', schema: '123456789', cell: payload.toBoc().toString('base64') });
+    assert.deepEqual(hash, expected.hash());
+  });
+});
+
+describe('verifySignedData', () => {
+  it('accepts a signature whose stateInit hashes to the address', async () => {
+    const result = await verifySignedData({ ...signedParams(text), stateInit });
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.valid, true);
+    assert.equal(result.addressBinding, 'state_init');
+    assert.equal(result.publicKey, keyPair.publicKey.toString('hex'));
+  });
+
+  it("rejects the signer's own stateInit presented for another address", async () => {
+    const result = await verifySignedData({ ...signedParams(text, testAddress(9)), stateInit });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.includes('stateInit does not match the signer address'));
+  });
+
+  it('rejects a signature over a different payload', async () => {
+    const result = await verifySignedData({ ...signedParams(text), payload: { type: 'text', text: 'hellO' }, stateInit });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ['Signature is invalid']);
+  });
+
+  it('does not trust a bare public key without a way to tie it to the address', async () => {
+    const result = await verifySignedData({ ...signedParams(text, testAddress(9)), publicKey: keyPair.publicKey.toString('hex') });
+    assert.equal(result.valid, false);
+    assert.equal(result.addressBinding, 'unverified');
+  });
+
+  it("checks a bare public key against the wallet's get_public_key", async () => {
+    const provider = new FakeChainProvider();
+    const publicKey = keyPair.publicKey.toString('hex');
+    provider.setGetMethod(wallet.address, 'get_public_key', [{ type: 'int', value: BigInt('0x' + publicKey) }]);
+
+    const bound = await verifySignedData({ ...signedParams(text), publicKey }, provider);
+    assert.equal(bound.valid, true);
+    assert.equal(bound.addressBinding, 'get_public_key');
+
+    provider.setGetMethod(wallet.address, 'get_public_key', [{ type: 'int', value: 1n }]);
+    const mismatched = await verifySignedData({ ...signedParams(text), publicKey }, provider);
+    assert.equal(mismatched.valid, false);
+    assert.match(mismatched.errors[0], /does not match the key the wallet contract reports/);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { StorageConfig } from '../src/config.js';
+import { FileStorage, withFileLock } from '../src/storage.js';
+
+const KEY = 'ab'.repeat(32);
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'storage-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function fileStorage(config: Partial<StorageConfig> = {}): FileStorage {
+  return new FileStorage({ backend: 'file', dir, ...config });
+}
+
+describe('FileStorage', () => {
+  it('encrypts items and reads them back with the same key', async () => {
+    await fileStorage({ key: KEY }).setItem('session', 'secret bridge data');
+
+    const raw = await readFile(join(dir, 'sessions.enc'), 'utf-8');
+    assert.equal(JSON.parse(raw).version, 1);
+    assert.ok(!raw.includes('secret bridge data'));
+    assert.equal(await fileStorage({ key: KEY }).getItem('session'), 'secret bridge data');
+  });
+
+  it('fails to decrypt with another key', async () => {
+    await fileStorage({ key: KEY }).setItem('session', 'value');
+    await assert.rejects(fileStorage({ key: 'another passphrase' }).getItem('session'), /Unable to decrypt .*sessions\.enc/);
+  });
+
+  it('generates a keyfile once and reuses it', async () => {
+    await fileStorage().setItem('a', '1');
+    const key = await readFile(join(dir, 'storage.key'), 'utf-8');
+    assert.match(key, /^[0-9a-f]{64}$/);
+
+    assert.equal(await fileStorage().getItem('a'), '1');
+    assert.equal(await fileStorage({ key }).getItem('a'), '1');
+  });
+
+  it('waits for a keyfile another process created but has not written yet', async () => {
+    await fileStorage({ key: KEY }).setItem('a', '1');
+    await writeFile(join(dir, 'storage.key'), '');
+    setTimeout(() => void writeFile(join(dir, 'storage.key'), KEY), 100);
+
+    assert.equal(await fileStorage().getItem('a'), '1');
+  });
+
+  it('keeps every concurrent write and leaves no temp files behind', async () => {
+    const writers = [fileStorage({ key: KEY }), fileStorage({ key: KEY })];
+    await Promise.all(Array.from({ length: 10 }, (_, i) => writers[i % 2].setItem(`key${i}`, `value${i}`)));
+
+    const reader = fileStorage({ key: KEY });
+    for (let i = 0; i < 10; i++) {
+      assert.equal(await reader.getItem(`key${i}`), `value${i}`);
+    }
+    assert.deepEqual((await readdir(dir)).sort(), ['sessions.enc']);
+  });
+
+  it('removes items', async () => {
+    const storage = fileStorage({ key: KEY });
+    await storage.setItem('a', '1');
+    await storage.removeItem('a');
+    assert.equal(await storage.getItem('a'), null);
+  });
+});
+
+describe('withFileLock', () => {
+  it('releases the lock when fn throws', async () => {
+    const lockPath = join(dir, 'test.lock');
+    await assert.rejects(withFileLock(lockPath, async () => {
+      throw new Error('boom');
+    }), /boom/);
+    assert.equal(await withFileLock(lockPath, async () => 'again'), 'again');
+  });
+
+  it('takes over a stale lock left by a crashed process', async () => {
+    const lockPath = join(dir, 'test.lock');
+    await writeFile(lockPath, '12345');
+    const minuteAgo = new Date(Date.now() - 60_000);
+    await utimes(lockPath, minuteAgo, minuteAgo);
+
+    assert.equal(await withFileLock(lockPath, async () => 'acquired'), 'acquired');
+    assert.deepEqual(await readdir(dir), []);
+  });
+
+  it('times out while another process holds the lock', async () => {
+    const lockPath = join(dir, 'test.lock');
+    await writeFile(lockPath, '12345');
+
+    let ran = false;
+    await assert.rejects(withFileLock(lockPath, async () => {
+      ran = true;
+    }), /Timed out waiting for lock/);
+    assert.equal(ran, false);
+    assert.equal(await readFile(lockPath, 'utf-8'), '12345');
+  });
+});
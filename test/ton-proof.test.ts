@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { Address, beginCell, storeStateInit, type StateInit } from '@ton/core';
+import { keyPairFromSeed, sign } from '@ton/crypto';
+import {
+  WalletContractV1R1,
+  WalletContractV1R2,
+  WalletContractV1R3,
+  WalletContractV2R1,
+  WalletContractV2R2,
+  WalletContractV3R1,
+  WalletContractV3R2,
+  WalletContractV4,
+  WalletContractV5Beta,
+  WalletContractV5R1,
+} from '@ton/ton';
+import { createTonProofMessage, verifyTonProof, type TonProof } from '../src/ton-proof.js';
+import { getPublicKeyFromStateInit } from '../src/wallet-versions.js';
+import { testAddress } from './fake-provider.js';
+
+const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+const wallet = WalletContractV4.create({ workchain: 0, publicKey: keyPair.publicKey });
+const now = 1_700_000_000;
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function encodeStateInit(init: StateInit): string {
+  return beginCell().store(storeStateInit(init)).endCell().toBoc().toString('base64');
+}
+
+/**
+ * Proof signed the way a wallet signs it: sha256(0xffff ++ "ton-connect" ++ sha256(message))
+ */
+function signedProof(address: Address, overrides: Partial<TonProof> = {}): TonProof {
+  const proof: TonProof = {
+    timestamp: now,
+    domain: { lengthBytes: 11, value: 'example.com' },
+    payload: 'nonce-1',
+    signature: '',
+    ...overrides,
+  };
+  const message = createTonProofMessage(address, proof);
+  const digest = sha256(Buffer.concat([Buffer.from('ffff', 'hex'), Buffer.from('ton-connect'), sha256(message)]));
+  return { ...proof, signature: sign(digest, keyPair.secretKey).toString('base64') };
+}
+
+function verify(overrides: Partial<Parameters<typeof verifyTonProof>[0]> = {}) {
+  return verifyTonProof({
+    address: wallet.address.toString(),
+    proof: signedProof(wallet.address),
+    stateInit: encodeStateInit(wallet.init),
+    allowedDomains: ['example.com'],
+    maxAgeSeconds: 900,
+    expectedPayload: 'nonce-1',
+    now,
+    ...overrides,
+  });
+}
+
+describe('createTonProofMessage', () => {
+  it('lays out the v2 message with a big-endian workchain and little-endian lengths', () => {
+    const address = new Address(-1, Buffer.alloc(32, 0xaa));
+    const message = createTonProofMessage(address, {
+      timestamp: 0x0102030405,
+      domain: { lengthBytes: 5, value: 'a.com' },
+      payload: 'xyz',
+      signature: '',
+    });
+
+    const expected = Buffer.concat([
+      Buffer.from('ton-proof-item-v2/'),
+      Buffer.from('ffffffff', 'hex'), // workchain -1
+      Buffer.alloc(32, 0xaa),
+      Buffer.from('05000000', 'hex'), // domain length
+      Buffer.from('a.com'),
+      Buffer.from('0504030201000000', 'hex'), // timestamp
+      Buffer.from('xyz'),
+    ]);
+    assert.equal(message.toString('hex'), expected.toString('hex'));
+  });
+});
+
+describe('verifyTonProof', () => {
+  it('accepts a proof signed by the key in a stateInit that hashes to the address', () => {
+    const result = verify({ publicKey: keyPair.publicKey.toString('hex') });
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.valid, true);
+    assert.equal(result.walletVersion, 'v4r2');
+    assert.equal(result.publicKey, keyPair.publicKey.toString('hex'));
+  });
+
+  it('rejects a stateInit presented for another address', () => {
+    const result = verify({ address: testAddress(9).toString(), proof: signedProof(testAddress(9)) });
+    assert.equal(result.valid, false);
+    assert.equal(result.checks.stateInitMatchesAddress, false);
+    assert.equal(result.checks.signatureValid, true);
+  });
+
+  it('rejects a public key that differs from the stateInit', () => {
+    const result = verify({ publicKey: '00'.repeat(32) });
+    assert.deepEqual(result.errors, ['Public key reported by the wallet does not match its stateInit']);
+  });
+
+  it('only accepts allowed domains with a matching byte length', () => {
+    assert.equal(verify({ allowedDomains: ['other.com'] }).checks.domainAllowed, false);
+
+    const wrongLength = verify({ proof: signedProof(wallet.address, { domain: { lengthBytes: 10, value: 'example.com' } }) });
+    assert.equal(wrongLength.checks.domainAllowed, false);
+    assert.equal(wrongLength.checks.signatureValid, true);
+  });
+
+  it('checks the timestamp against the maximum age and the allowed clock skew', () => {
+    assert.equal(verify({ now: now + 900 }).checks.timestampInWindow, true);
+    assert.equal(verify({ now: now + 901 }).checks.timestampInWindow, false);
+    assert.equal(verify({ now: now - 60 }).checks.timestampInWindow, true);
+    assert.equal(verify({ now: now - 61 }).checks.timestampInWindow, false);
+  });
+
+  it('requires the expected payload', () => {
+    assert.equal(verify({ expectedPayload: 'nonce-2' }).checks.payloadMatches, false);
+  });
+
+  it('rejects a signature over a different payload', () => {
+    const proof = { ...signedProof(wallet.address), payload: 'nonce-2' };
+    const result = verify({ proof, expectedPayload: 'nonce-2' });
+    assert.deepEqual(result.errors, ['Signature is invalid']);
+  });
+
+  it('reads the public key of every standard wallet version', () => {
+    const { publicKey } = keyPair;
+    const wallets = {
+      v1r1: WalletContractV1R1.create({ workchain: 0, publicKey }),
+      v1r2: WalletContractV1R2.create({ workchain: 0, publicKey }),
+      v1r3: WalletContractV1R3.create({ workchain: 0, publicKey }),
+      v2r1: WalletContractV2R1.create({ workchain: 0, publicKey }),
+      v2r2: WalletContractV2R2.create({ workchain: 0, publicKey }),
+      v3r1: WalletContractV3R1.create({ workchain: 0, publicKey }),
+      v3r2: WalletContractV3R2.create({ workchain: 0, publicKey }),
+      v4r2: WalletContractV4.create({ workchain: 0, publicKey }),
+      v5beta: WalletContractV5Beta.create({ publicKey }),
+      v5r1: WalletContractV5R1.create({ publicKey }),
+    };
+
+    for (const [version, contract] of Object.entries(wallets)) {
+      assert.deepEqual(getPublicKeyFromStateInit(contract.init), publicKey, version);
+
+      const result = verify({
+        address: contract.address.toString(),
+        proof: signedProof(contract.address),
+        stateInit: encodeStateInit(contract.init),
+      });
+      assert.deepEqual(result.errors, [], version);
+      assert.equal(result.walletVersion, version);
+    }
+  });
+
+  it('finds no public key in an unknown contract', () => {
+    const init = { code: beginCell().storeUint(1, 8).endCell(), data: beginCell().storeBuffer(keyPair.publicKey).endCell() };
+    assert.equal(getPublicKeyFromStateInit(init), null);
+  });
+});
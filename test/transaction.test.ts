@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it, mock } from 'node:test';
+import { beginCell, storeMessage } from '@ton/core';
+import type { SendTransactionRequest, TonConnect } from '@tonconnect/sdk';
+import { ChainProviderError } from '../src/chain-provider.js';
+import { AuditLog, AuditLogError } from '../src/audit-log.js';
+import { PolicyViolationError, SpendingPolicy } from '../src/policy.js';
+import { MemoryStorage } from '../src/storage.js';
+import { describeSubmission, submitTransaction } from '../src/transaction.js';
+import { FakeChainProvider, testAddress } from './fake-provider.js';
+
+const request: SendTransactionRequest = {
+  validUntil: Math.floor(Date.now() / 1000) + 300,
+  messages: [{ address: testAddress(2).toString(), amount: '1000000000' }],
+};
+
+/**
+ * Connector double that counts how often the wallet is asked to sign. The wallet never answers.
+ */
+function fakeConnector(events: string[] = []) {
+  const connector = {
+    sent: 0,
+    wallet: { account: { address: testAddress(1).toRawString() } },
+    async sendTransaction(): Promise<{ boc: string }> {
+      connector.sent++;
+      events.push('wallet');
+      throw new Error('wallet unavailable');
+    },
+  };
+  return connector;
+}
+
+describe('submitTransaction audit trail', () => {
+  const dirs: string[] = [];
+  after(async () => {
+    await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  });
+
+  it('does not ask the wallet when the request cannot be audited', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'audit-'));
+    dirs.push(dir);
+    // A directory where the log file should be makes every append fail
+    const log = new AuditLog(dir);
+    const connector = fakeConnector();
+
+    await assert.rejects(
+      submitTransaction(connector as unknown as TonConnect, new FakeChainProvider(), request, { audit: { log, session: 'default' } }),
+      AuditLogError
+    );
+    assert.equal(connector.sent, 0);
+  });
+});
+
+describe('submitTransaction pending hook', () => {
+  it('runs right before the wallet is asked', async () => {
+    const events: string[] = [];
+    const onPending = async () => {
+      events.push('pending');
+    };
+
+    await assert.rejects(
+      submitTransaction(fakeConnector(events) as unknown as TonConnect, new FakeChainProvider(), request, { onPending }),
+      /wallet unavailable/
+    );
+    assert.deepEqual(events, ['pending', 'wallet']);
+  });
+
+  it('does not run for a request the policy blocks', async () => {
+    const events: string[] = [];
+    const provider = new FakeChainProvider();
+    const policy = new SpendingPolicy({ max_transaction_ton: '0.5 TON' }, new MemoryStorage(), provider);
+    const onPending = async () => {
+      events.push('pending');
+    };
+
+    await assert.rejects(
+      submitTransaction(fakeConnector(events) as unknown as TonConnect, provider, request, { policy, onPending }),
+      PolicyViolationError
+    );
+    assert.deepEqual(events, []);
+  });
+});
+
+const boc = beginCell()
+  .store(storeMessage({ info: { type: 'external-in', src: null, dest: testAddress(1), importFee: 0n }, init: null, body: beginCell().endCell() }))
+  .endCell()
+  .toBoc()
+  .toString('base64');
+
+/**
+ * Connector double whose wallet approves every request with the given BOC
+ */
+function approvingConnector(signed = boc) {
+  return { ...fakeConnector(), sendTransaction: async () => ({ boc: signed }) } as unknown as TonConnect;
+}
+
+describe('submitTransaction after approval', () => {
+  it('returns the BOC when the policy ledger cannot be updated', async () => {
+    const provider = new FakeChainProvider();
+    const policy = new SpendingPolicy({ daily_limit_ton: '10 TON' }, new MemoryStorage(), provider);
+    mock.method(policy, 'record', async () => {
+      throw new Error('disk full');
+    });
+
+    const submitted = await submitTransaction(approvingConnector(), provider, request, { policy });
+    assert.equal(submitted.boc, boc);
+    assert.ok(submitted.hashes);
+    assert.match(submitted.warnings?.[0] ?? '', /ledger could not be updated.*disk full/);
+    assert.match(describeSubmission(submitted), /disk full/);
+  });
+
+  it('returns the BOC when it cannot be hashed, and skips confirmation', async () => {
+    const provider = new FakeChainProvider();
+    const odd = beginCell().storeUint(1, 8).endCell().toBoc().toString('base64');
+
+    const submitted = await submitTransaction(approvingConnector(odd), provider, request, { confirm: { timeoutMs: 1000, pollIntervalMs: 1 } });
+    assert.equal(submitted.boc, odd);
+    assert.equal(submitted.hashes, null);
+    assert.equal(submitted.confirmation, undefined);
+    assert.match(submitted.warnings?.[0] ?? '', /Unable to read the message hash/);
+    assert.equal(provider.callCount('getTransactionsByMessage'), 0);
+  });
+});
+
+describe('submitTransaction confirmation', () => {
+  it('keeps the signed BOC when the status lookup fails mid-wait', async () => {
+    const provider = new FakeChainProvider();
+    const lookup = mock.method(provider, 'getTransactionsByMessage', async () => {
+      if (lookup.mock.callCount() >= 2) {
+        throw new ChainProviderError('toncenter request failed: 429 Too Many Requests', 429);
+      }
+      return [];
+    });
+    const submitted = await submitTransaction(approvingConnector(), provider, request, {
+      confirm: { timeoutMs: 1000, pollIntervalMs: 1 },
+    });
+    assert.equal(submitted.boc, boc);
+    assert.equal(submitted.confirmation?.status, 'pending');
+    assert.equal(submitted.confirmation?.messageHash, submitted.hashes?.hash);
+    assert.match(submitted.confirmation?.error ?? '', /Confirmation check failed: .*429/);
+    assert.match(describeSubmission(submitted), /status could not be checked/);
+  });
+});